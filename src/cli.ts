@@ -2,9 +2,33 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { pathToFileURL } from "node:url";
 import { Command } from "commander";
+import type { $ZodType } from "zod/v4/core";
+import type { TableOptions } from "./codegen/generator";
 import { generate } from "./codegen/generator";
+import type { StepsOption } from "./codegen/steps";
+import {
+  CONFIG_FILE_NAMES,
+  findConfigFile,
+  type KelexConfig,
+  type KelexTarget,
+  loadConfig,
+  type MappingConfig,
+  mergeMappingConfig,
+} from "./config";
+import {
+  DIAGNOSTIC_SEVERITIES,
+  type Diagnostic,
+  type DiagnosticSeverity,
+  formatDiagnostic,
+  isAtLeastSeverity,
+} from "./diagnostics";
+import { createUnifiedDiff } from "./diff";
+import type { DraftStorageKind } from "./introspection";
+import { collectDependencies, loadModule } from "./loader";
+
+/** Delay before rebuilding, so bursts of file events trigger one build */
+const WATCH_DEBOUNCE_MS = 100;
 
 const program = new Command();
 
@@ -13,25 +37,100 @@ program
   .description("Generate React forms from Zod schemas")
   .version("0.0.1");
 
-program
-  .command("generate <schema-path>")
-  .description("Generate a form component from a Zod schema")
-  .option("-o, --output <path>", "Output file path")
-  .option("-n, --name <name>", "Form component name")
-  .option("-s, --schema <name>", "Exported schema name", "schema")
+/**
+ * Adds the options shared by commands that resolve one schema or the
+ * config targets.
+ */
+function addTargetOptions(command: Command): Command {
+  return command
+    .option("-o, --output <path>", "Output file path")
+    .option("-n, --name <name>", "Form component name")
+    .option("-s, --schema <name>", "Exported schema name", "schema")
+    .option(
+      "--ui <path>",
+      "UI component import path (generates built-in primitives if omitted)",
+    )
+    .option(
+      "-c, --config <path>",
+      "Config file (defaults to kelex.config.ts in the working directory)",
+    )
+    .option(
+      "--steps <steps>",
+      'Generate a wizard: "auto" for one step per object field, or "Label:field,field;Label:field"',
+    )
+    .option("--review", "Add a read-only review step to the wizard")
+    .option("--view", "Also generate a read-only view component")
+    .option(
+      "--table [field]",
+      "Also generate a table component, listing the elements of an array-of-objects field when given",
+    )
+    .option("--sortable", "Make the generated table's columns sortable")
+    .option(
+      "--fixtures",
+      "Also generate a fixtures module with a seeded factory of valid values",
+    )
+    .option(
+      "--persist <storage>",
+      'Save wizard drafts to "local" (localStorage) or "session" (sessionStorage)',
+    )
+    .option("--drag-handles", "Give array items a drag handle for reordering")
+    .option(
+      "--strict [severity]",
+      `Fail when a diagnostic at or above this severity is reported (${DIAGNOSTIC_SEVERITIES.join(", ")}; default warning)`,
+    );
+}
+
+addTargetOptions(
+  program
+    .command("generate [schema-path]")
+    .description(
+      "Generate a form component from a Zod schema, or every target in kelex.config.ts when no schema path is given",
+    ),
+)
   .option(
-    "--ui <path>",
-    "UI component import path (generates built-in primitives if omitted)",
+    "-w, --watch",
+    "Regenerate when a schema file or anything it imports changes",
   )
-  .action(async (schemaPath: string, options: GenerateCommandOptions) => {
+  .option(
+    "--check",
+    "Compare with the files on disk instead of writing (same as kelex check)",
+  )
+  .action(
+    async (schemaPath: string | undefined, options: GenerateCommandOptions) => {
+      try {
+        if (options.watch && options.check) {
+          throw new Error("--watch cannot be combined with --check");
+        }
+        if (options.watch) {
+          watchGenerate(schemaPath, options);
+        } else {
+          await runCommand(schemaPath, options);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error: ${message}`);
+        process.exit(1);
+      }
+    },
+  );
+
+addTargetOptions(
+  program
+    .command("check [schema-path]")
+    .description(
+      "Exit non-zero and print a diff when generated forms on disk are out of date",
+    ),
+).action(
+  async (schemaPath: string | undefined, options: GenerateCommandOptions) => {
     try {
-      await runGenerate(schemaPath, options);
+      await runCommand(schemaPath, { ...options, check: true });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(`Error: ${message}`);
       process.exit(1);
     }
-  });
+  },
+);
 
 program.parse();
 
@@ -40,14 +139,281 @@ interface GenerateCommandOptions {
   name?: string;
   schema: string;
   ui?: string;
+  config?: string;
+  watch?: boolean;
+  check?: boolean;
+  strict?: boolean | string;
+  steps?: string;
+  review?: boolean;
+  persist?: string;
+  dragHandles?: boolean;
+  view?: boolean;
+  table?: boolean | string;
+  sortable?: boolean;
+  fixtures?: boolean;
+}
+
+/** A fully resolved generation target with absolute paths */
+interface ResolvedTarget extends MappingConfig {
+  schemaPath: string;
+  schemaExportName: string;
+  outputPath: string;
+  formName: string;
+  uiImportPath?: string;
+  steps?: StepsOption;
+  refinementFields?: string[][];
+  review?: boolean;
+  persist?: DraftStorageKind;
+  dragHandles?: boolean;
+  view?: boolean;
+  table?: boolean | TableOptions;
+  fixtures?: boolean;
+  /** Fail the target when a diagnostic reaches this severity */
+  strict?: DiagnosticSeverity;
+}
+
+/**
+ * Generates (or checks) one schema or every config target, failing when a
+ * check finds out-of-date files.
+ */
+async function runCommand(
+  schemaPath: string | undefined,
+  options: GenerateCommandOptions,
+): Promise<void> {
+  const stale = schemaPath
+    ? await runGenerate(schemaPath, options)
+    : await runGenerateAll(options);
+
+  if (stale.length > 0) {
+    throw new Error(
+      `${stale.length} generated file(s) out of date. Run "kelex generate" to update them.`,
+    );
+  }
 }
 
+/**
+ * Generates a single form from CLI flags. Mapping rules, overrides and the
+ * UI path from --config apply when given; config targets are ignored.
+ *
+ * When `entries` is given (watch mode), modules are loaded fresh and the
+ * files the build starts from are added to it. Returns the out-of-date output
+ * paths found in check mode.
+ */
 async function runGenerate(
   schemaPath: string,
   options: GenerateCommandOptions,
-): Promise<void> {
-  // Resolve schema path
-  const absoluteSchemaPath = path.resolve(schemaPath);
+  entries?: Set<string>,
+): Promise<string[]> {
+  const fresh = entries !== undefined;
+  entries?.add(path.resolve(schemaPath));
+  if (options.config) {
+    entries?.add(path.resolve(options.config));
+  }
+
+  const config = options.config ? await loadConfig(options.config, fresh) : {};
+
+  return generateTarget(fresh, options.check ?? false, {
+    schemaPath: path.resolve(schemaPath),
+    schemaExportName: options.schema,
+    outputPath: path.resolve(options.output ?? deriveOutputPath(schemaPath)),
+    formName: options.name ?? deriveFormName(options.schema),
+    uiImportPath: options.ui ?? config.ui,
+    steps: parseSteps(options.steps),
+    review: options.review,
+    persist: parsePersist(options.persist),
+    dragHandles: options.dragHandles,
+    view: options.view,
+    table: parseTable(options),
+    fixtures: options.fixtures,
+    strict: parseStrict(options.strict),
+    ...mergeMappingConfig(config, {}),
+  });
+}
+
+/**
+ * Generates every target declared in the config file, reporting failures per
+ * target and continuing with the rest. `entries` works as in runGenerate.
+ * Returns the out-of-date output paths found in check mode.
+ */
+async function runGenerateAll(
+  options: GenerateCommandOptions,
+  entries?: Set<string>,
+): Promise<string[]> {
+  if (options.output || options.name) {
+    throw new Error("--output and --name require a schema path");
+  }
+
+  const configPath = options.config ?? findConfigFile(process.cwd());
+  if (!configPath) {
+    throw new Error(
+      `No schema path given and no config file (${CONFIG_FILE_NAMES.join(", ")}) found in ${process.cwd()}`,
+    );
+  }
+
+  entries?.add(path.resolve(configPath));
+  const config = await loadConfig(configPath, entries !== undefined);
+  const targets = config.targets ?? [];
+  if (targets.length === 0) {
+    throw new Error(`Config file ${configPath} declares no targets`);
+  }
+
+  const configDir = path.dirname(path.resolve(configPath));
+  const failures: string[] = [];
+  const stale: string[] = [];
+
+  for (const target of targets) {
+    const label = `${target.schema} (${target.export ?? "schema"})`;
+    const resolved = resolveTarget(config, target, configDir, options);
+    entries?.add(resolved.schemaPath);
+    try {
+      stale.push(
+        ...(await generateTarget(
+          entries !== undefined,
+          options.check ?? false,
+          resolved,
+        )),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`\u2717 ${label}: ${message}`);
+      failures.push(label);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(
+      `${failures.length} of ${targets.length} targets failed: ${failures.join(", ")}`,
+    );
+  }
+
+  return stale;
+}
+
+/**
+ * Resolves a config target's paths against the config directory and fills in
+ * derived names and config-level defaults.
+ */
+function resolveTarget(
+  config: KelexConfig,
+  target: KelexTarget,
+  configDir: string,
+  options: GenerateCommandOptions,
+): ResolvedTarget {
+  const schemaPath = path.resolve(configDir, target.schema);
+  const schemaExportName = target.export ?? "schema";
+  const outputPath = target.output
+    ? path.resolve(configDir, target.output)
+    : path.resolve(deriveOutputPath(schemaPath));
+
+  return {
+    schemaPath,
+    schemaExportName,
+    outputPath,
+    formName: target.name ?? deriveFormName(schemaExportName),
+    uiImportPath: options.ui ?? target.ui ?? config.ui,
+    steps: parseSteps(options.steps) ?? target.steps,
+    refinementFields: target.refinementFields,
+    review: options.review ?? target.review,
+    persist: parsePersist(options.persist) ?? target.persist,
+    dragHandles: options.dragHandles ?? target.dragHandles,
+    view: options.view ?? target.view,
+    table: parseTable(options) ?? target.table,
+    fixtures: options.fixtures ?? target.fixtures,
+    strict: parseStrict(options.strict),
+    ...mergeMappingConfig(config, target),
+  };
+}
+
+/**
+ * Runs the build once, then again whenever a file it depends on changes.
+ * Errors are printed instead of exiting so the watcher keeps running.
+ */
+function watchGenerate(
+  schemaPath: string | undefined,
+  options: GenerateCommandOptions,
+): void {
+  const watchers = new Map<string, fs.FSWatcher>();
+  let entries = new Set<string>();
+  let building = false;
+  let pending = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const scheduleBuild = () => {
+    clearTimeout(timer);
+    timer = setTimeout(build, WATCH_DEBOUNCE_MS);
+  };
+
+  const build = async () => {
+    if (building) {
+      pending = true;
+      return;
+    }
+    building = true;
+
+    const buildEntries = new Set<string>();
+    try {
+      if (schemaPath) {
+        await runGenerate(schemaPath, options, buildEntries);
+      } else {
+        await runGenerateAll(options, buildEntries);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+    }
+
+    // Keep watching the previous files if the build failed before finding any
+    entries = buildEntries.size > 0 ? buildEntries : entries;
+    syncWatchers(watchers, entries, scheduleBuild);
+    console.log(`\nWatching ${watchers.size} files for changes...`);
+
+    building = false;
+    if (pending) {
+      pending = false;
+      scheduleBuild();
+    }
+  };
+
+  void build();
+}
+
+/**
+ * Replaces the file watchers with one per file in the dependency graph of the
+ * given entries. Watchers are recreated after every build because editors
+ * that save by renaming leave the old watcher pointing at a deleted file.
+ */
+function syncWatchers(
+  watchers: Map<string, fs.FSWatcher>,
+  entries: Set<string>,
+  onChange: () => void,
+): void {
+  for (const watcher of watchers.values()) {
+    watcher.close();
+  }
+  watchers.clear();
+
+  for (const entry of entries) {
+    for (const file of collectDependencies(entry)) {
+      if (watchers.has(file) || !fs.existsSync(file)) continue;
+      watchers.set(file, fs.watch(file, onChange));
+    }
+  }
+}
+
+/**
+ * Imports a target's schema module, generates its form and writes the output
+ * (plus primitives when no UI path is set, and the companion files that
+ * were requested).
+ * With `fresh`, the schema module and its imports are re-evaluated instead of
+ * read from the module cache. With `check`, nothing is written: outputs are
+ * compared with the files on disk and the paths that differ are returned.
+ */
+async function generateTarget(
+  fresh: boolean,
+  check: boolean,
+  target: ResolvedTarget,
+): Promise<string[]> {
+  const { schemaPath: absoluteSchemaPath, schemaExportName } = target;
 
   // Check if file exists
   if (!fs.existsSync(absoluteSchemaPath)) {
@@ -55,16 +421,16 @@ async function runGenerate(
   }
 
   // Dynamically import the schema file
-  const schemaUrl = pathToFileURL(absoluteSchemaPath).href;
-  const schemaModule = await import(schemaUrl);
+  const schemaModule = await loadModule(absoluteSchemaPath, fresh);
 
   // Get the schema export
-  const schemaExportName = options.schema;
-  const schema = schemaModule[schemaExportName] ?? schemaModule.default;
+  const schema = (schemaModule[schemaExportName] ?? schemaModule.default) as
+    | { _zod?: unknown }
+    | undefined;
 
   if (!schema) {
     throw new Error(
-      `Schema "${schemaExportName}" not exported from ${schemaPath}`,
+      `Schema "${schemaExportName}" not exported from ${absoluteSchemaPath}`,
     );
   }
 
@@ -75,12 +441,7 @@ async function runGenerate(
     );
   }
 
-  // Determine output path
-  const outputPath = options.output ?? deriveOutputPath(schemaPath);
-  const absoluteOutputPath = path.resolve(outputPath);
-
-  // Determine form name
-  const formName = options.name ?? deriveFormName(schemaExportName);
+  const absoluteOutputPath = target.outputPath;
 
   // Calculate relative import path from output to schema
   const schemaImportPath = calculateImportPath(
@@ -90,40 +451,224 @@ async function runGenerate(
 
   // Generate the form
   const result = generate({
-    schema,
-    formName,
+    schema: schema as $ZodType,
+    formName: target.formName,
     schemaImportPath,
     schemaExportName,
-    ...(options.ui ? { uiImportPath: options.ui } : {}),
+    ...(target.uiImportPath ? { uiImportPath: target.uiImportPath } : {}),
+    rules: target.rules,
+    overrides: target.overrides,
+    steps: target.steps,
+    refinementFields: target.refinementFields,
+    review: target.review,
+    persist: target.persist,
+    dragHandles: target.dragHandles,
+    view: target.view,
+    table: target.table,
+    fixtures: target.fixtures,
   });
 
-  // Write output file
-  const outputDir = path.dirname(absoluteOutputPath);
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+  // In strict mode, fail before touching any file
+  const failing = target.strict
+    ? result.diagnostics.filter((d) =>
+        isAtLeastSeverity(d.severity, target.strict as DiagnosticSeverity),
+      )
+    : [];
+  if (failing.length > 0) {
+    printDiagnostics(result.diagnostics);
+    throw new Error(
+      `${failing.length} diagnostic(s) at or above "${target.strict}" severity (--strict)`,
+    );
   }
-  fs.writeFileSync(absoluteOutputPath, result.code, "utf-8");
 
-  // Write primitives file if generated
+  // Primitives file first (if generated), then the form and its companions
+  const outputDir = path.dirname(absoluteOutputPath);
+  const outputs: [string, string][] = [];
   if (result.primitives) {
-    const primitivesPath = path.join(outputDir, "primitives.tsx");
-    fs.writeFileSync(primitivesPath, result.primitives, "utf-8");
-    console.log(`\u2713 Generated ${primitivesPath}`);
+    outputs.push([path.join(outputDir, "primitives.tsx"), result.primitives]);
+  }
+  outputs.push([absoluteOutputPath, result.code]);
+  if (result.view) {
+    outputs.push([
+      deriveCompanionPath(absoluteOutputPath, "view"),
+      result.view,
+    ]);
+  }
+  if (result.table) {
+    outputs.push([
+      deriveCompanionPath(absoluteOutputPath, "table"),
+      result.table,
+    ]);
+  }
+  if (result.fixtures) {
+    outputs.push([
+      deriveCompanionPath(absoluteOutputPath, "fixtures"),
+      result.fixtures,
+    ]);
+  }
+
+  const stale: string[] = [];
+  if (check) {
+    for (const [filePath, content] of outputs) {
+      if (!checkOutput(filePath, content)) {
+        stale.push(filePath);
+      }
+    }
+  } else {
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+    for (const [filePath, content] of outputs) {
+      reportWrite(filePath, writeIfChanged(filePath, content));
+    }
   }
 
-  // Print success message
-  console.log(`\u2713 Generated ${absoluteOutputPath}`);
   console.log(`  ${result.fields.length} fields: ${result.fields.join(", ")}`);
 
-  // Print warnings if any
-  if (result.warnings.length > 0) {
-    console.log("\nWarnings:");
-    for (const warning of result.warnings) {
-      console.log(`  ⚠ ${warning}`);
+  printDiagnostics(result.diagnostics);
+
+  return stale;
+}
+
+/**
+ * Parses the --strict flag: bare `--strict` means "warning".
+ */
+function parseStrict(
+  value: boolean | string | undefined,
+): DiagnosticSeverity | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return "warning";
+  if (!DIAGNOSTIC_SEVERITIES.includes(value as DiagnosticSeverity)) {
+    throw new Error(
+      `Invalid --strict severity "${value}". Expected one of: ${DIAGNOSTIC_SEVERITIES.join(", ")}`,
+    );
+  }
+  return value as DiagnosticSeverity;
+}
+
+/**
+ * Parses the --table and --sortable flags: bare `--table` lists values of the
+ * root schema, `--table <field>` the elements of that array field.
+ */
+function parseTable(options: GenerateCommandOptions): TableOptions | undefined {
+  if (options.table === undefined || options.table === false) {
+    if (options.sortable) {
+      throw new Error("--sortable requires --table");
+    }
+    return undefined;
+  }
+  return {
+    ...(typeof options.table === "string" ? { field: options.table } : {}),
+    ...(options.sortable ? { sortable: true } : {}),
+  };
+}
+
+/**
+ * Parses the --persist flag.
+ */
+function parsePersist(value: string | undefined): DraftStorageKind | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "local" && value !== "session") {
+    throw new Error(
+      `Invalid --persist storage "${value}". Expected "local" or "session"`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Parses the --steps flag: "auto", or steps separated by ";" where each step
+ * is "Label:field,field". Step ids are derived from the labels.
+ */
+function parseSteps(value: string | undefined): StepsOption | undefined {
+  if (value === undefined) return undefined;
+  if (value === "auto") return "auto";
+
+  return value.split(";").map((entry) => {
+    const separator = entry.indexOf(":");
+    const label = entry.slice(0, separator).trim();
+    const fields = entry
+      .slice(separator + 1)
+      .split(",")
+      .map((field) => field.trim())
+      .filter((field) => field.length > 0);
+    if (separator === -1 || label === "" || fields.length === 0) {
+      throw new Error(
+        `Invalid --steps entry "${entry}". Expected "auto" or "Label:field,field;Label:field"`,
+      );
+    }
+    const id = label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    return { id, label, fields };
+  });
+}
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, string> = {
+  warning: "\u26a0",
+  error: "\u2717",
+};
+
+function printDiagnostics(diagnostics: Diagnostic[]): void {
+  if (diagnostics.length === 0) return;
+
+  console.log("\nDiagnostics:");
+  for (const diagnostic of diagnostics) {
+    console.log(
+      `  ${SEVERITY_ICONS[diagnostic.severity]} ${formatDiagnostic(diagnostic)} [${diagnostic.code}]`,
+    );
+    if (diagnostic.suggestion) {
+      console.log(`    ${diagnostic.suggestion}`);
     }
   }
 }
 
+/**
+ * Writes a file only when its content differs from what is on disk, so
+ * unchanged outputs keep their timestamps and don't retrigger dev servers.
+ * Returns whether the file was written.
+ */
+function writeIfChanged(filePath: string, content: string): boolean {
+  if (
+    fs.existsSync(filePath) &&
+    fs.readFileSync(filePath, "utf-8") === content
+  ) {
+    return false;
+  }
+  fs.writeFileSync(filePath, content, "utf-8");
+  return true;
+}
+
+/**
+ * Compares generated content with the file on disk, printing a unified diff
+ * when they differ. A missing file counts as out of date.
+ */
+function checkOutput(filePath: string, content: string): boolean {
+  if (!fs.existsSync(filePath)) {
+    console.log(`\u2717 Missing ${filePath}`);
+    return false;
+  }
+
+  const current = fs.readFileSync(filePath, "utf-8");
+  if (current === content) {
+    console.log(`\u2713 Up to date ${filePath}`);
+    return true;
+  }
+
+  console.log(`\u2717 Out of date ${filePath}`);
+  process.stdout.write(
+    createUnifiedDiff(current, content, {
+      fromFile: `${filePath} (on disk)`,
+      toFile: `${filePath} (generated)`,
+    }),
+  );
+  return false;
+}
+
+function reportWrite(filePath: string, written: boolean): void {
+  console.log(
+    written ? `\u2713 Generated ${filePath}` : `  Unchanged ${filePath}`,
+  );
+}
+
 /**
  * Derives output path from schema path.
  * ./user-schema.ts -> ./user-form.tsx
@@ -139,6 +684,30 @@ function deriveOutputPath(schemaPath: string): string {
   return path.join(dir, `${finalBase}-form.tsx`);
 }
 
+/**
+ * Derives the path of a file generated next to the form (a view, table or
+ * fixtures module). user-form.tsx -> user-view.tsx, UserForm.tsx ->
+ * UserView.tsx, checkout.tsx -> checkout-view.tsx. Fixtures contain no JSX
+ * and get a .ts extension: user-form.tsx -> user-fixtures.ts.
+ */
+function deriveCompanionPath(
+  outputPath: string,
+  kind: "view" | "table" | "fixtures",
+): string {
+  const dir = path.dirname(outputPath);
+  const ext = path.extname(outputPath);
+  const companionExt = kind === "fixtures" && ext === ".tsx" ? ".ts" : ext;
+  const base = path.basename(outputPath, ext);
+  const suffix = kind.replace(/^./, (s) => s.toUpperCase());
+
+  const companionBase = /-form$/i.test(base)
+    ? base.replace(/-form$/i, `-${kind}`)
+    : /Form$/.test(base)
+      ? base.replace(/Form$/, suffix)
+      : `${base}-${kind}`;
+  return path.join(dir, `${companionBase}${companionExt}`);
+}
+
 /**
  * Derives form name from schema export name.
  * userSchema -> UserForm
@@ -159,8 +728,11 @@ function calculateImportPath(outputPath: string, schemaPath: string): string {
   const outputDir = path.dirname(outputPath);
   let relativePath = path.relative(outputDir, schemaPath);
 
-  // Remove .ts/.tsx extension
-  relativePath = relativePath.replace(/\.(ts|tsx)$/, "");
+  // Remove .ts/.tsx extension; .mts/.cts are imported as the .mjs/.cjs they
+  // compile to, which TypeScript resolves back to the source
+  relativePath = relativePath
+    .replace(/\.(ts|tsx)$/, "")
+    .replace(/\.([mc])ts$/, ".$1js");
 
   // Ensure it starts with ./
   if (!relativePath.startsWith(".") && !relativePath.startsWith("/")) {
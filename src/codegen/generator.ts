@@ -1,8 +1,26 @@
 import type { $ZodType } from "zod/v4/core";
+import { type Diagnostic, formatDiagnostic } from "../diagnostics";
+import type {
+  DraftStorageKind,
+  FieldDescriptor,
+  FormDescriptor,
+  FormRefinement,
+} from "../introspection";
 import { introspect } from "../introspection";
-import type { ComponentConfig } from "../mapping";
-import { resolveField } from "../mapping";
-import { generateFormFile, generatePrimitivesFile } from "./templates";
+import type {
+  ComponentConfig,
+  FieldOverrides,
+  MappingRuleOptions,
+} from "../mapping";
+import { composeMappingRules, resolveField } from "../mapping";
+import { deriveSteps, type StepsOption } from "./steps";
+import {
+  generateFixturesFile,
+  generateFormFile,
+  generatePrimitivesFile,
+  generateTableFile,
+  generateViewFile,
+} from "./templates";
 
 export interface GenerateOptions {
   /** The Zod schema to generate from */
@@ -19,6 +37,62 @@ export interface GenerateOptions {
 
   /** UI component import path. When omitted, generates built-in primitives. */
   uiImportPath?: string;
+
+  /** Custom mapping rules layered on top of the defaults */
+  rules?: MappingRuleOptions;
+
+  /** Per-field overrides keyed by dot path (e.g. "address.country") */
+  overrides?: FieldOverrides;
+
+  /**
+   * Wizard steps. "auto" makes one step per top-level object field. When
+   * omitted, a single-step form is generated.
+   */
+  steps?: StepsOption;
+
+  /**
+   * Top-level fields each root refinement reads, in declaration order (`[]`
+   * when unknown). A wizard step runs a refinement once it holds all of its
+   * fields; refinements with no declared fields only run on submit.
+   * Path-scoped refinements default to the field their `path` starts at.
+   */
+  refinementFields?: string[][];
+
+  /** Adds a final read-only review step to the wizard (requires `steps`) */
+  review?: boolean;
+
+  /**
+   * Saves wizard progress as a draft in localStorage ("local") or
+   * sessionStorage ("session") and restores it on mount (requires `steps`)
+   */
+  persist?: DraftStorageKind;
+
+  /** Gives array items a drag handle for reordering them by drag and drop */
+  dragHandles?: boolean;
+
+  /** Also generates a read-only view component (see `GenerateResult.view`) */
+  view?: boolean;
+
+  /**
+   * Also generates a table component listing values (see
+   * `GenerateResult.table`). `true` lists values of the root object schema.
+   */
+  table?: boolean | TableOptions;
+
+  /**
+   * Also generates a fixtures module with a seeded factory for valid values
+   * (see `GenerateResult.fixtures`)
+   */
+  fixtures?: boolean;
+}
+
+/** Options for the generated table component */
+export interface TableOptions {
+  /** Dotted path of an array-of-objects field whose elements are the rows */
+  field?: string;
+
+  /** Makes column headers toggle ascending/descending sorting */
+  sortable?: boolean;
 }
 
 export interface GenerateResult {
@@ -28,11 +102,23 @@ export interface GenerateResult {
   /** List of fields that were processed */
   fields: string[];
 
-  /** Any warnings (e.g., unsupported features skipped) */
+  /** Any warnings (e.g., unsupported features skipped), formatted as text */
   warnings: string[];
 
+  /** Structured form of `warnings`, one diagnostic per warning */
+  diagnostics: Diagnostic[];
+
   /** Generated primitive components file (present when no custom uiImportPath) */
   primitives?: string;
+
+  /** Generated read-only view component (present when `view` is set) */
+  view?: string;
+
+  /** Generated table component (present when `table` is set) */
+  table?: string;
+
+  /** Generated fixtures module (present when `fixtures` is set) */
+  fixtures?: string;
 }
 
 /**
@@ -42,6 +128,8 @@ export function generate(options: GenerateOptions): GenerateResult {
   const { schema, formName, schemaImportPath, schemaExportName } = options;
   const useBuiltinPrimitives = options.uiImportPath === undefined;
   const uiImportPath = options.uiImportPath ?? "./primitives";
+  const rules = composeMappingRules(options.rules);
+  const overrides = options.overrides ?? {};
 
   const processedFields: string[] = [];
   const fieldConfigs = new Map<string, ComponentConfig>();
@@ -53,33 +141,199 @@ export function generate(options: GenerateOptions): GenerateResult {
     schemaExportName,
   });
 
-  // Collect warnings from introspection
-  const warnings = [...formDescriptor.warnings];
+  // Union roots have no top-level fields; generateFormFile rejects their steps
+  if (options.steps === "auto" && formDescriptor.union) {
+    throw new Error(
+      "Wizard steps are not supported for top-level union schemas",
+    );
+  }
+  if (options.steps) {
+    formDescriptor.steps =
+      options.steps === "auto"
+        ? deriveSteps(formDescriptor.fields)
+        : options.steps;
+  }
+  if (options.refinementFields) {
+    formDescriptor.refinements = declareRefinementFields(
+      formDescriptor,
+      options.refinementFields,
+    );
+  }
+  if (options.review) {
+    formDescriptor.review = true;
+  }
+  if (options.persist) {
+    formDescriptor.persist = options.persist;
+  }
+
+  // Collect diagnostics from introspection
+  const diagnostics = [...formDescriptor.diagnostics];
 
-  // 2. For each field, resolve -> ComponentConfig
-  for (const field of formDescriptor.fields) {
-    try {
-      const config = resolveField(field);
-      fieldConfigs.set(field.name, config);
-      processedFields.push(field.name);
-    } catch (error) {
-      // Add warning and skip field
-      const message = error instanceof Error ? error.message : "Unknown error";
-      warnings.push(`Field "${field.name}": ${message}`);
+  const variants = formDescriptor.union?.variants ?? [];
+  const knownPaths = new Set<string>();
+  collectFieldPaths(formDescriptor.fields, "", knownPaths);
+  for (const variant of variants) {
+    collectFieldPaths(variant.fields, "", knownPaths);
+  }
+  for (const path of Object.keys(overrides)) {
+    if (!knownPaths.has(path)) {
+      diagnostics.push({
+        code: "unmatched-override",
+        severity: "warning",
+        path,
+        message: "override does not match any field",
+        suggestion: "Check the override path against the schema's field paths",
+      });
     }
   }
 
+  // 2. For each field, resolve -> ComponentConfig
+  const resolveInto = (
+    fields: FieldDescriptor[],
+    configs: Map<string, ComponentConfig>,
+  ): void => {
+    for (const field of fields) {
+      try {
+        const config = resolveField(field, rules, overrides, "", diagnostics);
+        configs.set(field.name, config);
+        if (!processedFields.includes(field.name)) {
+          processedFields.push(field.name);
+        }
+      } catch (error) {
+        // Report and skip field
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        diagnostics.push({
+          code: "unresolved-field",
+          severity: "error",
+          path: field.name,
+          schemaType: field.type,
+          message,
+          suggestion: "Add a mapping rule or an override with a component",
+        });
+      }
+    }
+  };
+
+  resolveInto(formDescriptor.fields, fieldConfigs);
+
+  // Top-level unions resolve each variant's fields separately
+  const variantConfigs = variants.map((variant) => {
+    const configs = new Map<string, ComponentConfig>();
+    resolveInto(variant.fields, configs);
+    return configs;
+  });
+
   // 3. Generate form wrapper with all fields
   const code = generateFormFile({
     form: formDescriptor,
     fieldConfigs,
     uiImportPath,
+    diagnostics,
+    dragHandles: options.dragHandles,
+    ...(formDescriptor.union ? { variantConfigs } : {}),
   });
 
+  // 4. Optionally render the same configs as a read-only view and a table
+  const view = options.view
+    ? generateViewFile({
+        form: formDescriptor,
+        fieldConfigs,
+        ...(formDescriptor.union ? { variantConfigs } : {}),
+      })
+    : undefined;
+  const tableOptions = options.table === true ? {} : options.table || undefined;
+  const table = tableOptions
+    ? generateTableFile({
+        form: formDescriptor,
+        fieldConfigs,
+        ...tableOptions,
+      })
+    : undefined;
+
+  // 5. Optionally emit a factory of valid values from the same descriptor
+  const fixtures = options.fixtures
+    ? generateFixturesFile({ form: formDescriptor, diagnostics })
+    : undefined;
+
   return {
     code,
     fields: processedFields,
-    warnings,
+    warnings: diagnostics.map(formatDiagnostic),
+    diagnostics,
     ...(useBuiltinPrimitives ? { primitives: generatePrimitivesFile() } : {}),
+    ...(view !== undefined ? { view } : {}),
+    ...(table !== undefined ? { table } : {}),
+    ...(fixtures !== undefined ? { fixtures } : {}),
   };
 }
+
+/**
+ * Collects the dot path of every field in the descriptor tree, matching the
+ * paths resolveField uses to look up overrides.
+ */
+function collectFieldPaths(
+  fields: FieldDescriptor[],
+  parentPath: string,
+  paths: Set<string>,
+): void {
+  for (const field of fields) {
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+    paths.add(path);
+
+    const { metadata } = field;
+    if (metadata.kind === "object") {
+      collectFieldPaths(metadata.fields, path, paths);
+    } else if (metadata.kind === "array") {
+      collectFieldPaths([metadata.element], path, paths);
+    } else if (metadata.kind === "union") {
+      for (const variant of metadata.variants) {
+        collectFieldPaths(variant.fields, path, paths);
+      }
+    } else if (metadata.kind === "tuple") {
+      collectFieldPaths(metadata.elements, path, paths);
+    } else if (metadata.kind === "record") {
+      collectFieldPaths(
+        metadata.fields ?? [metadata.valueDescriptor],
+        path,
+        paths,
+      );
+    }
+  }
+}
+
+/**
+ * Replaces the fields of the form's refinements with the declared ones.
+ *
+ * @throws Error when the root has no refinements to declare, when more
+ * refinements are declared than the schema has, or for unknown fields
+ */
+function declareRefinementFields(
+  form: FormDescriptor,
+  declared: string[][],
+): FormRefinement[] {
+  const { refinements } = form;
+  if (!refinements) {
+    throw new Error(
+      "refinementFields requires a root z.object() schema with refinements",
+    );
+  }
+  if (declared.length > refinements.length) {
+    throw new Error(
+      `refinementFields declares ${declared.length} refinements, but the schema has ${refinements.length}`,
+    );
+  }
+
+  const names = new Set(form.fields.map((field) => field.name));
+  return refinements.map((refinement, index) => {
+    const fields = declared[index];
+    if (!fields) return refinement;
+    const unknown = fields.find((name) => !names.has(name));
+    if (unknown !== undefined) {
+      throw new Error(
+        `refinementFields[${index}] references unknown field "${unknown}"`,
+      );
+    }
+    return { fields };
+  });
+}
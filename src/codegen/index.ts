@@ -1,9 +1,28 @@
-export type { GenerateOptions, GenerateResult } from "./generator";
+export type {
+  GenerateOptions,
+  GenerateResult,
+  TableOptions,
+} from "./generator";
 export { generate } from "./generator";
-export type { FormTemplateInput } from "./templates";
+export type { StepsOption } from "./steps";
+export { deriveSteps } from "./steps";
+export type {
+  FixturesTemplateInput,
+  FormTemplateInput,
+  TableTemplateInput,
+  ViewTemplateInput,
+} from "./templates";
 export {
+  fixtureFactoryName,
   generateFieldJSX,
+  generateFixturesFile,
   generateFormFile,
   generatePrimitivesFile,
+  generateTableFile,
+  generateViewFile,
   inferTypeName,
+  propertyKey,
+  serializeLiteral,
+  tableComponentName,
+  viewComponentName,
 } from "./templates";
@@ -0,0 +1,54 @@
+import type { FieldDescriptor, FormStep } from "../introspection";
+
+/** Wizard steps to generate: explicit steps, or "auto" to derive them */
+export type StepsOption = FormStep[] | "auto";
+
+/**
+ * Derives wizard steps from top-level fields: one step per object field,
+ * labelled and described by that object. Runs of other fields between them
+ * are grouped into "Details" steps so every field belongs to a step.
+ */
+export function deriveSteps(fields: FieldDescriptor[]): FormStep[] {
+  const steps: FormStep[] = [];
+  const usedIds = new Set(
+    fields.filter((f) => f.type === "object").map((f) => f.name),
+  );
+  let details: FormStep | undefined;
+
+  for (const field of fields) {
+    if (field.type === "object") {
+      details = undefined;
+      steps.push({
+        id: field.name,
+        label: field.label,
+        ...(field.description ? { description: field.description } : {}),
+        fields: [field.name],
+      });
+      continue;
+    }
+
+    if (!details) {
+      details = {
+        id: uniqueId("details", usedIds),
+        label: "Details",
+        fields: [],
+      };
+      steps.push(details);
+    }
+    details.fields.push(field.name);
+  }
+
+  return steps;
+}
+
+/**
+ * Returns `base`, or `base-2`, `base-3`... when taken, and marks it as used.
+ */
+function uniqueId(base: string, usedIds: Set<string>): string {
+  let id = base;
+  for (let n = 2; usedIds.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  usedIds.add(id);
+  return id;
+}
@@ -0,0 +1,115 @@
+import type { FieldDescriptor, FormDescriptor } from "../../introspection";
+import type { ComponentConfig } from "../../mapping";
+
+/**
+ * Collects the refs of every "recursive" field nested in a config.
+ */
+export function collectRecursiveRefs(
+  config: ComponentConfig,
+  refs: Set<string>,
+): void {
+  const props = config.componentProps;
+
+  if (
+    config.component === "RecursiveFieldset" &&
+    typeof props.ref === "string"
+  ) {
+    refs.add(props.ref);
+  }
+
+  for (const [, childConfig] of childEntries(config)) {
+    collectRecursiveRefs(childConfig, refs);
+  }
+}
+
+/**
+ * Lists the (descriptor, config) pairs nested directly under a composite
+ * config: object/tuple children, array/record elements and union variant
+ * fields.
+ */
+export function childEntries(
+  config: ComponentConfig,
+): [FieldDescriptor, ComponentConfig][] {
+  const props = config.componentProps;
+  const entries: [FieldDescriptor, ComponentConfig][] = [];
+
+  if (props.childConfigs instanceof Map && Array.isArray(props.childFields)) {
+    const childConfigs = props.childConfigs as Map<string, ComponentConfig>;
+    for (const child of props.childFields as FieldDescriptor[]) {
+      const childConfig = childConfigs.get(child.name);
+      if (childConfig) entries.push([child, childConfig]);
+    }
+  }
+
+  if (props.elementConfig && props.elementField) {
+    entries.push([
+      props.elementField as FieldDescriptor,
+      props.elementConfig as ComponentConfig,
+    ]);
+  }
+
+  if (Array.isArray(props.variantConfigs)) {
+    for (const variant of props.variantConfigs as {
+      fields: FieldDescriptor[];
+      configs: Map<string, ComponentConfig>;
+    }[]) {
+      for (const vField of variant.fields) {
+        const vConfig = variant.configs.get(vField.name);
+        if (vConfig) entries.push([vField, vConfig]);
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Pairs root fields with their resolved configs, skipping unresolved fields.
+ */
+export function rootEntries(
+  fields: FieldDescriptor[],
+  configs: Map<string, ComponentConfig>,
+): [FieldDescriptor, ComponentConfig][] {
+  return fields.flatMap((f): [FieldDescriptor, ComponentConfig][] => {
+    const config = configs.get(f.name);
+    return config ? [[f, config]] : [];
+  });
+}
+
+/**
+ * Follows a recursive ref (dot-separated descriptor names from the root) to
+ * the object it points at and returns that object's fields and configs.
+ * `rootLevel` lists the root (descriptor, config) pairs the ref starts from.
+ */
+export function findRecursionTarget(
+  form: FormDescriptor,
+  fieldConfigs: Map<string, ComponentConfig>,
+  rootLevel: [FieldDescriptor, ComponentConfig][],
+  ref: string,
+): { fields: FieldDescriptor[]; configs: Map<string, ComponentConfig> } | null {
+  if (ref === "") {
+    return { fields: form.fields, configs: fieldConfigs };
+  }
+
+  let entries = rootLevel;
+  let current: ComponentConfig | undefined;
+
+  for (const segment of ref.split(".")) {
+    current = entries.find(([f]) => f.name === segment)?.[1];
+    if (!current) return null;
+    entries = childEntries(current);
+  }
+
+  const props = current?.componentProps;
+  if (
+    !(props?.childConfigs instanceof Map) ||
+    !Array.isArray(props.childFields)
+  ) {
+    return null;
+  }
+
+  return {
+    fields: props.childFields as FieldDescriptor[],
+    configs: props.childConfigs as Map<string, ComponentConfig>,
+  };
+}
@@ -0,0 +1,183 @@
+import type { FieldDescriptor } from "../../introspection";
+import type { ComponentConfig } from "../../mapping";
+import { discriminatorLiteral, propertyKey, serializeLiteral } from "./literal";
+
+/**
+ * Returns the initial value expression for a field. A default declared in the
+ * schema wins; otherwise a type-appropriate empty value is used. Optional
+ * text, number and enum fields start unset, matching what their inputs store
+ * once cleared.
+ */
+export function getDefaultValueForField(
+  field: FieldDescriptor,
+  config: ComponentConfig | undefined,
+  indentLevel: number,
+): string {
+  if (field.defaultValue !== undefined) {
+    const literal = serializeLiteral(field.defaultValue);
+    if (literal !== undefined) {
+      return literal;
+    }
+  }
+
+  if (
+    field.isOptional &&
+    (field.type === "string" ||
+      field.type === "number" ||
+      field.type === "enum")
+  ) {
+    return "undefined";
+  }
+
+  switch (field.type) {
+    case "string":
+      return '""';
+    case "number": {
+      const min = config?.componentProps.min;
+      return typeof min === "number" ? String(min) : "0";
+    }
+    case "boolean":
+      return "false";
+    case "date":
+      return "undefined";
+    case "enum": {
+      if (field.metadata.kind === "enum" && field.metadata.values.length > 0) {
+        return JSON.stringify(field.metadata.values[0]);
+      }
+      return '""';
+    }
+    case "object": {
+      if (field.metadata.kind === "object") {
+        return objectDefault(field.metadata.fields, config, indentLevel);
+      }
+      return "{}";
+    }
+    case "array": {
+      // Arrays start with as many items as they require
+      const elementConfig = config?.componentProps.elementConfig as
+        | ComponentConfig
+        | undefined;
+      const minItems = field.constraints.minItems ?? 0;
+      if (field.metadata.kind !== "array" || !elementConfig || minItems === 0) {
+        return "[]";
+      }
+      const item = newEntryValue(
+        field.metadata.element,
+        elementConfig,
+        indentLevel + 1,
+      );
+      const items = Array.from({ length: minItems }, () => item);
+      if (!item.includes("\n")) {
+        return `[${items.join(", ")}]`;
+      }
+      const innerPad = " ".repeat((indentLevel + 1) * 2);
+      const closePad = " ".repeat(indentLevel * 2);
+      return `[\n${items.map((i) => `${innerPad}${i},`).join("\n")}\n${closePad}]`;
+    }
+    case "union":
+      return unionDefault(config, indentLevel);
+    case "tuple": {
+      if (field.metadata.kind === "tuple") {
+        const elements = field.metadata.elements.map((elem) =>
+          getDefaultValueForField(elem, undefined, indentLevel),
+        );
+        return `[${elements.join(", ")}]`;
+      }
+      return "[]";
+    }
+    case "record": {
+      // Every key of a full enum-keyed record is required up front; partial
+      // records start without any
+      if (field.metadata.kind === "record" && !field.metadata.partial) {
+        return objectDefault(field.metadata.fields ?? [], config, indentLevel);
+      }
+      return "{}";
+    }
+    default:
+      return "undefined";
+  }
+}
+
+/**
+ * Returns an object literal holding the default of each field, resolved
+ * against the child configs of `config`.
+ */
+function objectDefault(
+  fields: FieldDescriptor[],
+  config: ComponentConfig | undefined,
+  indentLevel: number,
+): string {
+  const childConfigs = config?.componentProps.childConfigs as
+    | Map<string, ComponentConfig>
+    | undefined;
+  if (!childConfigs || fields.length === 0) {
+    return "{}";
+  }
+
+  const innerPad = " ".repeat((indentLevel + 1) * 2);
+  const closePad = " ".repeat(indentLevel * 2);
+  const childLines: string[] = [];
+  for (const child of fields) {
+    const childConfig = childConfigs.get(child.name);
+    const val = getDefaultValueForField(child, childConfig, indentLevel + 1);
+    childLines.push(`${innerPad}${propertyKey(child.name)}: ${val},`);
+  }
+  return `{\n${childLines.join("\n")}\n${closePad}}`;
+}
+
+/**
+ * Returns the value a new array item or record entry starts from: the
+ * element's default value, today for required dates, which have no empty
+ * value of their type, or an empty object for recursive sub-forms.
+ */
+export function newEntryValue(
+  element: FieldDescriptor,
+  config: ComponentConfig,
+  indentLevel = 0,
+): string {
+  if (element.type === "recursive") {
+    return "{}";
+  }
+  return element.type === "date" && !element.isOptional && !element.isNullable
+    ? "new Date()"
+    : getDefaultValueForField(element, config, indentLevel);
+}
+
+/**
+ * Returns the initial value of a discriminated union: the defaults of its
+ * first variant with the discriminator set. Other unions start empty.
+ */
+function unionDefault(
+  config: ComponentConfig | undefined,
+  indentLevel: number,
+): string {
+  const discriminator = config?.componentProps.discriminator as
+    | string
+    | undefined;
+  const [variant] =
+    (config?.componentProps.variantConfigs as
+      | {
+          value: string;
+          fields: FieldDescriptor[];
+          configs: Map<string, ComponentConfig>;
+        }[]
+      | undefined) ?? [];
+  if (!discriminator || !variant) {
+    return "{}";
+  }
+
+  const innerPad = " ".repeat((indentLevel + 1) * 2);
+  const closePad = " ".repeat(indentLevel * 2);
+  const lines = variant.fields.map((field) => {
+    const value =
+      field.name === discriminator
+        ? discriminatorLiteral(variant, discriminator)
+        : getDefaultValueForField(
+            field,
+            variant.configs.get(field.name),
+            indentLevel + 1,
+          );
+    return `${innerPad}${propertyKey(field.name)}: ${value},`;
+  });
+  return `{\n${lines.join("\n")}\n${closePad}}`;
+}
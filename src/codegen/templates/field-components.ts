@@ -1,5 +1,20 @@
 import type { FieldDescriptor } from "../../introspection";
 import type { ComponentConfig } from "../../mapping";
+import { newEntryValue } from "./default-values";
+import {
+  discriminatorLiteral,
+  indent,
+  propertyAccess,
+  toIdentifier,
+} from "./literal";
+
+/** Components of nested values, which render fields of their own */
+export const COMPOSITE_COMPONENTS = new Set<ComponentConfig["component"]>([
+  "Fieldset",
+  "FieldArray",
+  "UnionSwitch",
+  "RecursiveFieldset",
+]);
 
 /**
  * Escapes a string for use in a JSX attribute value (double-quoted).
@@ -11,10 +26,43 @@ function escapeJSXAttribute(value: string): string {
     .replace(/\n/g, "\\n");
 }
 
+/**
+ * Escapes a string for use inside a template literal.
+ */
+function escapeTemplateLiteral(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/`/g, "\\`")
+    .replace(/\$\{/g, "\\${");
+}
+
+/**
+ * Keeps a string from closing the JSX comment it is placed in.
+ */
+function escapeJSXComment(value: string): string {
+  return value.replace(/\*\//g, "*\\/");
+}
+
+/**
+ * Replaces characters that are not safe in a DOM id with "-".
+ */
+function toDomId(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, "-");
+}
+
+/**
+ * Builds a JS expression reading a dot-separated form path from `base`,
+ * bracketing keys that are not identifiers:
+ * ("state.values", "billing.first-name") -> state.values.billing["first-name"]
+ */
+function valuesAccess(base: string, path: string): string {
+  return base + path.split(".").map(propertyAccess).join("");
+}
+
 /**
  * Escapes a string for use as JSX text content.
  */
-function escapeJSXText(value: string): string {
+export function escapeJSXText(value: string): string {
   return value
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -23,6 +71,42 @@ function escapeJSXText(value: string): string {
     .replace(/\}/g, "&#125;");
 }
 
+/**
+ * Drops fields hidden through UI hints and sorts the rest by their `order`
+ * hint (default 0). The sort is stable, so unordered fields keep schema order.
+ */
+export function orderVisibleFields(
+  fields: FieldDescriptor[],
+): FieldDescriptor[] {
+  return fields
+    .filter((f) => !f.ui?.hidden)
+    .map((f, index) => ({ f, index }))
+    .sort(
+      (a, b) =>
+        (a.f.ui?.order ?? 0) - (b.f.ui?.order ?? 0) || a.index - b.index,
+    )
+    .map(({ f }) => f);
+}
+
+/**
+ * Joins the JSX of sibling fields. When any of them has a \`colSpan\` hint they
+ * are laid out on a 12-column grid, each in a cell spanning its hint (the
+ * whole row without one).
+ */
+export function fieldListJSX(
+  entries: [FieldDescriptor, string][],
+  gap: number,
+): string {
+  if (!entries.some(([field]) => field.ui?.colSpan !== undefined)) {
+    return entries.map(([, jsx]) => jsx).join("\n\n");
+  }
+  const cells = entries.map(
+    ([field, jsx]) =>
+      `  <div className="col-span-${field.ui?.colSpan ?? 12}">\n${indent(jsx, 4)}\n  </div>`,
+  );
+  return `<div className="grid grid-cols-12 gap-${gap}">\n${cells.join("\n\n")}\n</div>`;
+}
+
 /**
  * Generates the JSX string for a field within form.Field render prop.
  * For composite types, recursively generates child fields.
@@ -47,9 +131,12 @@ export function generateFieldJSX(
   if (component === "UnionSwitch") {
     return buildUnionSwitchJSX(field, config, path);
   }
+  if (component === "RecursiveFieldset") {
+    return buildRecursiveFieldJSX(field, config, escapeTemplateLiteral(path));
+  }
 
   const fieldPropsStr = buildFieldProps(fieldProps);
-  const componentJSX = buildComponentJSX(field.name, component, componentProps);
+  const componentJSX = buildComponentJSX(field, component, componentProps);
 
   return `<form.Field
   name="${escapeJSXAttribute(path)}"
@@ -78,16 +165,16 @@ function buildFieldsetJSX(
     | undefined;
 
   if (!childConfigs || !childFields) {
-    return `{/* ${field.name}: no child configs */}`;
+    return `{/* ${escapeJSXComment(field.name)}: no child configs */}`;
   }
 
-  const childJSXs: string[] = [];
-  for (const child of childFields) {
+  const childJSXs: [FieldDescriptor, string][] = [];
+  for (const child of orderVisibleFields(childFields)) {
     const childConfig = childConfigs.get(child.name);
     if (childConfig) {
       const childPath = `${path}.${child.name}`;
       const jsx = generateFieldJSX(child, childConfig, childPath);
-      childJSXs.push(indent(jsx, 2));
+      childJSXs.push([child, jsx]);
     }
   }
 
@@ -96,7 +183,7 @@ function buildFieldsetJSX(
     <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
   </CardHeader>
   <CardContent className="flex flex-col gap-3">
-${childJSXs.join("\n\n")}
+${indent(fieldListJSX(childJSXs, 3), 2)}
   </CardContent>
 </Card>`;
 }
@@ -115,7 +202,7 @@ function buildFieldArrayJSX(
     | undefined;
 
   if (!elementConfig || !elementField) {
-    return `{/* ${field.name}: no element config */}`;
+    return `{/* ${escapeJSXComment(field.name)}: no element config */}`;
   }
 
   // For record types, render a key-value pair structure
@@ -123,6 +210,17 @@ function buildFieldArrayJSX(
     return buildRecordJSX(field, elementConfig, elementField, path, fieldProps);
   }
 
+  // For arrays of recursive references, render the ancestor sub-form per item
+  if (elementField.type === "recursive") {
+    return buildRecursiveArrayJSX(
+      elementConfig,
+      elementField,
+      escapeTemplateLiteral(path),
+      fieldProps,
+      field.constraints,
+    );
+  }
+
   // For array of objects, render nested cards
   if (
     elementField.type === "object" &&
@@ -152,12 +250,37 @@ function buildFieldArrayJSX(
   return buildSimpleArrayJSX(field, elementConfig, path, fieldProps);
 }
 
+/**
+ * Renders an array of scalars with the component resolved for its element
+ * (Input, Select, Slider, DatePicker, ...) per item. New items start from
+ * newEntryValue.
+ */
 function buildSimpleArrayJSX(
-  _field: FieldDescriptor,
-  _elementConfig: ComponentConfig,
+  field: FieldDescriptor,
+  elementConfig: ComponentConfig,
   path: string,
   fieldProps: ComponentConfig["fieldProps"],
 ): string {
+  const element =
+    field.metadata.kind === "array" ? field.metadata.element : undefined;
+
+  const componentJSX =
+    element && !COMPOSITE_COMPONENTS.has(elementConfig.component)
+      ? buildComponentJSX(
+          element,
+          elementConfig.component,
+          elementConfig.componentProps,
+          "i",
+          path,
+        )
+      : `      <Input
+        value={${element ? inputValueExpression(element) : 'field.state.value ?? ""'}}
+        onChange={(e) => field.handleChange(${element ? coerceInputExpression(element) : "e.target.value"})}
+        onBlur={field.handleBlur}
+      />`;
+  const newItem = element ? newEntryValue(element, elementConfig) : '""';
+  const name = `"${escapeJSXAttribute(path)}"`;
+
   return `<form.Field name="${escapeJSXAttribute(path)}" mode="array">
   {(arrayField) => (
     <Card>
@@ -165,32 +288,103 @@ function buildSimpleArrayJSX(
         <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
       </CardHeader>
       <CardContent className="flex flex-col gap-3">
-        {(arrayField.state.value ?? []).map((_, i) => (
-          <div key={i} className="flex items-center gap-2">
+        {(arrayField.state.value ?? []).map((item, i, items) => (
+          <ArrayItem key={i} ${arrayItemProps(name, "i").join(" ")} className="flex items-center gap-2">
             <form.Field
-              name={\`${escapeJSXAttribute(path)}[\${i}]\`}
+              name={\`${escapeTemplateLiteral(path)}[\${i}]\`}
               children={(field) => (
                 <Field label={\`Item \${i + 1}\`} error={field.state.meta.errors?.[0]}>
-                  <Input
-                    value={field.state.value ?? ""}
-                    onChange={(e) => field.handleChange(e.target.value)}
-                    onBlur={field.handleBlur}
-                  />
+${indent(componentJSX, 12)}
                 </Field>
               )}
             />
-            <Button type="button" variant="outline" size="sm" onClick={() => arrayField.removeValue(i)}>Remove</Button>
-          </div>
+${indent(arrayItemActionsJSX(name, "i", "Item", newItem, field.constraints), 12)}
+          </ArrayItem>
         ))}
-        <Button type="button" variant="outline" onClick={() => arrayField.pushValue("")}>Add ${escapeJSXText(fieldProps.label)}</Button>
+${indent(arrayFooterJSX(field.constraints, fieldProps.label, newItem), 8)}
       </CardContent>
     </Card>
   )}
 </form.Field>`;
 }
 
+/**
+ * Returns the props ArrayItem and ArrayItemActions share for the item at
+ * `index` of an array rendered by `arrayField` (see arrayItemComponents).
+ * Map callbacks name the array `items`.
+ */
+function arrayItemProps(name: string, index: string): string[] {
+  return [
+    `name=${name}`,
+    `index={${index}}`,
+    "count={items.length}",
+    "onMove={(from, to) => arrayField.moveValue(from, to)}",
+  ];
+}
+
+/**
+ * Returns the reorder, insert, duplicate and remove controls of the item at
+ * `index`, whose value the map callback names `item`. Inserted items start
+ * from `newItem`; the array's minItems and maxItems limit removing and adding.
+ */
+function arrayItemActionsJSX(
+  name: string,
+  index: string,
+  label: string,
+  newItem: string,
+  constraints: FieldDescriptor["constraints"],
+): string {
+  const props = arrayItemProps(name, index);
+  if (constraints.minItems !== undefined) {
+    props.push(`min={${constraints.minItems}}`);
+  }
+  if (constraints.maxItems !== undefined) {
+    props.push(`max={${constraints.maxItems}}`);
+  }
+  return `<ArrayItemActions
+  ${props.join("\n  ")}
+  label={\`${escapeTemplateLiteral(label)} \${${index} + 1}\`}
+  onInsert={() => arrayField.insertValue(${index}, ${newItem})}
+  onDuplicate={() => arrayField.insertValue(${index} + 1, structuredClone(item))}
+  onRemove={() => arrayField.removeValue(${index})}
+/>`;
+}
+
+/**
+ * Returns the Add button of an array followed by its array-level errors.
+ * With minItems or maxItems, Add is disabled once the array is full and a
+ * counter shows how many items it holds.
+ */
+function arrayFooterJSX(
+  constraints: FieldDescriptor["constraints"],
+  label: string,
+  newItem: string,
+): string {
+  const { minItems, maxItems } = constraints;
+  const count = "(arrayField.state.value ?? []).length";
+  const disabled =
+    maxItems !== undefined ? ` disabled={${count} >= ${maxItems}}` : "";
+  const addButton = `<Button type="button" variant="outline"${disabled} onClick={() => arrayField.pushValue(${newItem})}>Add ${escapeJSXText(label)}</Button>`;
+  const limit =
+    maxItems !== undefined
+      ? ` of ${maxItems}`
+      : minItems !== undefined
+        ? ` (at least ${minItems})`
+        : undefined;
+  const controls =
+    limit === undefined
+      ? addButton
+      : `<div className="flex items-center gap-2">
+  ${addButton}
+  <span className="text-sm text-muted-foreground">{${count}}${limit}</span>
+</div>`;
+
+  return `${controls}
+{arrayField.state.meta.errors?.[0] && <p className="text-sm text-red-500">{arrayField.state.meta.errors[0]}</p>}`;
+}
+
 function buildArrayOfObjectsJSX(
-  _field: FieldDescriptor,
+  field: FieldDescriptor,
   elementConfig: ComponentConfig,
   elementField: FieldDescriptor,
   path: string,
@@ -204,18 +398,20 @@ function buildArrayOfObjectsJSX(
     | undefined;
 
   if (!childConfigs || !childFields) {
-    return `{/* ${path}: no child configs for array element */}`;
+    return `{/* ${escapeJSXComment(path)}: no child configs for array element */}`;
   }
 
-  const childJSXs: string[] = [];
-  for (const child of childFields) {
+  const childJSXs: [FieldDescriptor, string][] = [];
+  for (const child of orderVisibleFields(childFields)) {
     const childConfig = childConfigs.get(child.name);
     if (childConfig) {
-      const childPath = `${path}[\${i}].${child.name}`;
+      const childPath = `${escapeTemplateLiteral(path)}[\${i}].${escapeTemplateLiteral(child.name)}`;
       const jsx = generateFieldJSXTemplate(child, childConfig, childPath);
-      childJSXs.push(indent(jsx, 6));
+      childJSXs.push([child, jsx]);
     }
   }
+  const newItem = newEntryValue(elementField, elementConfig);
+  const name = `"${escapeJSXAttribute(path)}"`;
 
   return `<form.Field name="${escapeJSXAttribute(path)}" mode="array">
   {(arrayField) => (
@@ -224,18 +420,20 @@ function buildArrayOfObjectsJSX(
         <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
       </CardHeader>
       <CardContent className="flex flex-col gap-3">
-        {(arrayField.state.value ?? []).map((_, i) => (
-          <Card key={i}>
-            <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle>${escapeJSXText(elementField.label)} {i + 1}</CardTitle>
-              <Button type="button" variant="outline" size="sm" onClick={() => arrayField.removeValue(i)}>Remove</Button>
-            </CardHeader>
-            <CardContent className="flex flex-col gap-3">
-${childJSXs.join("\n\n")}
-            </CardContent>
-          </Card>
+        {(arrayField.state.value ?? []).map((item, i, items) => (
+          <ArrayItem key={i} ${arrayItemProps(name, "i").join(" ")}>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>${escapeJSXText(elementField.label)} {i + 1}</CardTitle>
+${indent(arrayItemActionsJSX(name, "i", elementField.label, newItem, field.constraints), 16)}
+              </CardHeader>
+              <CardContent className="flex flex-col gap-3">
+${indent(fieldListJSX(childJSXs, 3), 16)}
+              </CardContent>
+            </Card>
+          </ArrayItem>
         ))}
-        <Button type="button" variant="outline" onClick={() => arrayField.pushValue({})}>Add ${escapeJSXText(elementField.label)}</Button>
+${indent(arrayFooterJSX(field.constraints, elementField.label, newItem), 8)}
       </CardContent>
     </Card>
   )}
@@ -243,9 +441,9 @@ ${childJSXs.join("\n\n")}
 }
 
 function buildArrayOfUnionsJSX(
-  _field: FieldDescriptor,
+  field: FieldDescriptor,
   elementConfig: ComponentConfig,
-  _elementField: FieldDescriptor,
+  elementField: FieldDescriptor,
   path: string,
   fieldProps: ComponentConfig["fieldProps"],
 ): string {
@@ -261,28 +459,28 @@ function buildArrayOfUnionsJSX(
     | undefined;
 
   if (!variantConfigs || !discriminator) {
-    return `{/* ${path}: no variant configs for array of unions */}`;
+    return `{/* ${escapeJSXComment(path)}: no variant configs for array of unions */}`;
   }
 
   const variantBlocks: string[] = [];
   for (const variant of variantConfigs) {
-    const fieldJSXs: string[] = [];
-    for (const vField of variant.fields) {
+    const fieldJSXs: [FieldDescriptor, string][] = [];
+    for (const vField of orderVisibleFields(variant.fields)) {
       if (vField.name === discriminator) continue;
       const vConfig = variant.configs.get(vField.name);
       if (vConfig) {
-        const vPath = `${path}[\${i}].${vField.name}`;
+        const vPath = `${escapeTemplateLiteral(path)}[\${i}].${escapeTemplateLiteral(vField.name)}`;
         const jsx = generateFieldJSXTemplate(vField, vConfig, vPath);
-        fieldJSXs.push(indent(jsx, 10));
+        fieldJSXs.push([vField, jsx]);
       }
     }
 
     variantBlocks.push(
-      `          {item.${discriminator} === "${escapeJSXAttribute(variant.value)}" && (
-            <div className="flex flex-col gap-3">
-${fieldJSXs.join("\n\n")}
-            </div>
-          )}`,
+      `            {item${propertyAccess(discriminator)} === "${escapeJSXAttribute(variant.value)}" && (
+              <div className="flex flex-col gap-3">
+${indent(fieldListJSX(fieldJSXs, 3), 16)}
+              </div>
+            )}`,
     );
   }
 
@@ -290,9 +488,11 @@ ${fieldJSXs.join("\n\n")}
   const optionItems = optionValues
     .map(
       (v) =>
-        `                <Select.Item value="${escapeJSXAttribute(v)}">${escapeJSXText(formatOptionLabel(v))}</Select.Item>`,
+        `                  <Select.Item value="${escapeJSXAttribute(v)}">${escapeJSXText(formatOptionLabel(v))}</Select.Item>`,
     )
     .join("\n");
+  const newItem = newEntryValue(elementField, elementConfig);
+  const name = `"${escapeJSXAttribute(path)}"`;
 
   return `<form.Field name="${escapeJSXAttribute(path)}" mode="array">
   {(arrayField) => (
@@ -301,46 +501,87 @@ ${fieldJSXs.join("\n\n")}
         <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
       </CardHeader>
       <CardContent className="flex flex-col gap-3">
-        {(arrayField.state.value ?? []).map((item, i) => (
-          <Card key={i}>
-            <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle>Item {i + 1}</CardTitle>
-              <Button type="button" variant="outline" size="sm" onClick={() => arrayField.removeValue(i)}>Remove</Button>
-            </CardHeader>
-            <CardContent className="flex flex-col gap-3">
-              <form.Field
-                name={\`${escapeJSXAttribute(path)}[\${i}].${discriminator}\`}
-                children={(field) => (
-                  <Field label="${escapeJSXAttribute(nameToLabel(discriminator))}" required>
-                    <Select value={field.state.value} onValueChange={field.handleChange}>
-                      <Select.Trigger>
-                        <Select.Value placeholder="Select..." />
-                      </Select.Trigger>
-                      <Select.Content>
+        {(arrayField.state.value ?? []).map((item, i, items) => (
+          <ArrayItem key={i} ${arrayItemProps(name, "i").join(" ")}>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Item {i + 1}</CardTitle>
+${indent(arrayItemActionsJSX(name, "i", "Item", newItem, field.constraints), 16)}
+              </CardHeader>
+              <CardContent className="flex flex-col gap-3">
+                <form.Field
+                  name={\`${escapeTemplateLiteral(path)}[\${i}].${escapeTemplateLiteral(discriminator)}\`}
+                  children={(field) => (
+                    <Field label="${escapeJSXAttribute(nameToLabel(discriminator))}" required>
+                      <Select value={field.state.value} onValueChange={field.handleChange}>
+                        <Select.Trigger>
+                          <Select.Value placeholder="Select..." />
+                        </Select.Trigger>
+                        <Select.Content>
 ${optionItems}
-                      </Select.Content>
-                    </Select>
-                  </Field>
-                )}
-              />
+                        </Select.Content>
+                      </Select>
+                    </Field>
+                  )}
+                />
 ${variantBlocks.join("\n\n")}
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          </ArrayItem>
         ))}
-        <Button type="button" variant="outline" onClick={() => arrayField.pushValue({})}>Add Item</Button>
+${indent(arrayFooterJSX(field.constraints, "Item", newItem), 8)}
       </CardContent>
     </Card>
   )}
 </form.Field>`;
 }
 
+/**
+ * Renders a record as an editable list of entries: a key input that renames
+ * the entry, the value's resolved component and a remove button per entry,
+ * plus an input that adds an entry under a new key. Keys are checked against
+ * the record's key schema before they are committed (see
+ * RECORD_EDITOR_COMPONENTS).
+ */
 function buildRecordJSX(
-  _field: FieldDescriptor,
-  _elementConfig: ComponentConfig,
-  _elementField: FieldDescriptor,
+  field: FieldDescriptor,
+  elementConfig: ComponentConfig,
+  elementField: FieldDescriptor,
   path: string,
   fieldProps: ComponentConfig["fieldProps"],
 ): string {
+  const keyField =
+    field.metadata.kind === "record" ? field.metadata.keyDescriptor : undefined;
+  const validate = keyValidatorExpression(keyField);
+  const valuePath = `${escapeTemplateLiteral(path)}.\${key}`;
+
+  let valueJSX: string;
+  if (elementConfig.component === "Fieldset") {
+    valueJSX = generateFieldJSXTemplate(elementField, elementConfig, valuePath);
+  } else {
+    const componentJSX = COMPOSITE_COMPONENTS.has(elementConfig.component)
+      ? `      <Input
+        value={${inputValueExpression(elementField)}}
+        onChange={(e) => field.handleChange(${coerceInputExpression(elementField)})}
+        onBlur={field.handleBlur}
+      />`
+      : buildComponentJSX(
+          elementField,
+          elementConfig.component,
+          elementConfig.componentProps,
+          "key",
+          path,
+        );
+    valueJSX = `<form.Field
+  name={\`${valuePath}\`}
+  children={(field) => (
+    <Field label="Value" className="flex-1" error={field.state.meta.errors?.[0]}>
+${componentJSX}
+    </Field>
+  )}
+/>`;
+  }
+
   return `<form.Field name="${escapeJSXAttribute(path)}">
   {(recordField) => (
     <Card>
@@ -348,27 +589,313 @@ function buildRecordJSX(
         <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
       </CardHeader>
       <CardContent className="flex flex-col gap-3">
-        {Object.entries(recordField.state.value ?? {}).map(([key]) => (
-          <div key={key} className="flex items-center gap-2">
-            <span className="text-sm min-w-24">{key}</span>
-            <form.Field
-              name={\`${escapeJSXAttribute(path)}.\${key}\`}
-              children={(field) => (
-                <Input
-                  value={field.state.value ?? ""}
-                  onChange={(e) => field.handleChange(e.target.value)}
-                  onBlur={field.handleBlur}
-                />
-              )}
+        {Object.keys(recordField.state.value ?? {}).map((key, _, keys) => (
+          <div key={key} className="flex items-start gap-2">
+            <RecordKeyInput
+              value={key}
+              keys={keys}
+              validate={${validate}}
+              onCommit={(next) => recordField.handleChange(renameKey(recordField.state.value, key, next))}
             />
+${indent(valueJSX, 12)}
+            <Button type="button" variant="outline" size="sm" onClick={() => recordField.handleChange(omitKey(recordField.state.value, key))}>Remove</Button>
           </div>
         ))}
+        <AddRecordEntry
+          label="${escapeJSXAttribute(fieldProps.label)}"
+          keys={Object.keys(recordField.state.value ?? {})}
+          validate={${validate}}
+          onCommit={(key) => recordField.handleChange({ ...recordField.state.value, [key]: ${newEntryValue(elementField, elementConfig)} })}
+        />
       </CardContent>
     </Card>
   )}
 </form.Field>`;
 }
 
+/**
+ * Returns an arrow function checking a record key against the record's key
+ * schema: enum values, string lengths and patterns, or numeric keys. Returns
+ * an error message, or undefined for valid keys.
+ */
+function keyValidatorExpression(keyField: FieldDescriptor | undefined): string {
+  const checks: [condition: string, message: string][] = [];
+
+  if (keyField?.metadata.kind === "enum") {
+    const values = keyField.metadata.values;
+    checks.push([
+      `!${JSON.stringify(values)}.includes(value)`,
+      `Must be one of: ${values.join(", ")}`,
+    ]);
+  } else if (keyField?.type === "number") {
+    checks.push(["Number.isNaN(Number(value))", "Must be a number"]);
+  } else if (keyField) {
+    const { minLength, maxLength, pattern } = keyField.constraints;
+    if (minLength !== undefined) {
+      checks.push([
+        `value.length < ${minLength}`,
+        `Must be at least ${minLength} characters`,
+      ]);
+    }
+    if (maxLength !== undefined) {
+      checks.push([
+        `value.length > ${maxLength}`,
+        `Must be at most ${maxLength} characters`,
+      ]);
+    }
+    if (pattern !== undefined) {
+      checks.push([
+        `!new RegExp(${JSON.stringify(pattern)}).test(value)`,
+        `Must match /${pattern}/`,
+      ]);
+    }
+  }
+
+  if (checks.length === 0) {
+    return "() => undefined";
+  }
+  const branches = checks
+    .map(
+      ([condition, message]) => `${condition} ? ${JSON.stringify(message)} : `,
+    )
+    .join("");
+  return `(value) => ${branches}undefined`;
+}
+
+/**
+ * Components and helpers the record editor uses, emitted once per form file
+ * that renders a record. Keys are edited in local state and committed on
+ * blur (or Enter) only when they are new, non-empty and valid.
+ */
+export const RECORD_EDITOR_COMPONENTS = `interface RecordKeyProps {
+  /** Keys already in the record */
+  keys: string[];
+  /** Returns why the record's key schema rejects a key, if it does */
+  validate: (key: string) => string | undefined;
+  onCommit: (key: string) => void;
+}
+
+function recordKeyError(key: string, { keys, validate }: RecordKeyProps): string | undefined {
+  if (key === '') return 'Key is required';
+  if (keys.includes(key)) return 'Key already exists';
+  return validate(key);
+}
+
+function RecordKeyInput({ value, ...props }: RecordKeyProps & { value: string }) {
+  const [draft, setDraft] = useState(value);
+  const error = draft === value ? undefined : recordKeyError(draft, props);
+  const commit = () => {
+    if (draft !== value && error === undefined) props.onCommit(draft);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Input
+        aria-label="Key"
+        aria-invalid={error !== undefined}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+      />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+function AddRecordEntry({ label, ...props }: RecordKeyProps & { label: string }) {
+  const [draft, setDraft] = useState('');
+  const error = draft === '' ? undefined : recordKeyError(draft, props);
+  const commit = () => {
+    if (draft !== '' && error === undefined) {
+      props.onCommit(draft);
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <Input
+          aria-label="New key"
+          aria-invalid={error !== undefined}
+          placeholder="New key"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commit();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" disabled={draft === '' || error !== undefined} onClick={commit}>
+          Add {label}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+/** Returns the record with one key renamed, keeping the entry order */
+function renameKey<R extends Record<string, unknown>>(record: R | undefined, from: string, to: string): R {
+  return Object.fromEntries(
+    Object.entries(record ?? {}).map(([key, value]) => [key === from ? to : key, value]),
+  ) as R;
+}
+
+/** Returns the record without the given key */
+function omitKey<R extends Record<string, unknown>>(record: R | undefined, key: string): R {
+  return Object.fromEntries(Object.entries(record ?? {}).filter(([k]) => k !== key)) as R;
+}`;
+
+/**
+ * Returns whether generated field JSX renders a record editor, which needs
+ * RECORD_EDITOR_COMPONENTS in the same file.
+ */
+export function usesRecordEditor(jsx: string): boolean {
+  return jsx.includes("<RecordKeyInput");
+}
+
+/**
+ * Returns the components array items render with (ArrayItem and
+ * ArrayItemActions), emitted once per form file that renders an array. Items
+ * move with the up/down buttons or Alt+ArrowUp/ArrowDown, and keep focus on
+ * the control that moved them. With `dragHandles`, each item also gets a
+ * native drag handle and accepts drops of items from the same array; swap
+ * ArrayItem and DragHandle out to use a drag-and-drop library instead.
+ */
+export function arrayItemComponents(dragHandles: boolean): string {
+  const dropHandlers = dragHandles
+    ? `
+      onDragOver={(event) => {
+        if (event.dataTransfer.types.includes(dragType(name))) event.preventDefault();
+      }}
+      onDrop={(event) => {
+        const from = event.dataTransfer.getData(dragType(name));
+        if (from === '') return;
+        event.preventDefault();
+        event.stopPropagation();
+        props.onMove(Number(from), index);
+      }}`
+    : "";
+  const dragHandle = dragHandles
+    ? `
+      <DragHandle name={props.name} index={index} />`
+    : "";
+  const dragHelpers = dragHandles
+    ? `
+
+/** Data type carrying the index of a dragged item of the array at \`name\` */
+function dragType(name: string): string {
+  return \`application/x-array-item;name=\${name.toLowerCase()}\`;
+}
+
+function DragHandle({ name, index }: { name: string; index: number }) {
+  return (
+    <span
+      draggable
+      aria-hidden
+      className="cursor-grab select-none px-1 text-muted-foreground"
+      onDragStart={(event) => {
+        event.dataTransfer.setData(dragType(name), String(index));
+        event.dataTransfer.effectAllowed = 'move';
+        const item = event.currentTarget.closest('[data-array-item]');
+        if (item) event.dataTransfer.setDragImage(item, 0, 0);
+      }}
+    >
+      ⠿
+    </span>
+  );
+}`
+    : "";
+
+  return `interface ArrayItemProps {
+  /** Path of the array, e.g. "items" or "orders[0].items" */
+  name: string;
+  index: number;
+  /** Number of items in the array */
+  count: number;
+  onMove: (from: number, to: number) => void;
+}
+
+/**
+ * Moves an item and hands focus to the same control at the item's new
+ * position, so keyboard users can keep moving it.
+ */
+function moveItem(control: HTMLElement, { index, count, onMove }: ArrayItemProps, to: number) {
+  if (to < 0 || to >= count) return;
+  const item = control.closest<HTMLElement>('[data-array-item]');
+  const list = item?.parentElement;
+  const controls = item ? [...item.querySelectorAll('button, input, textarea, [tabindex]')] : [];
+  const position = controls.indexOf(control);
+  onMove(index, to);
+  requestAnimationFrame(() => {
+    const moved = list?.querySelectorAll<HTMLElement>(':scope > [data-array-item]')[to];
+    const target = moved?.querySelectorAll<HTMLElement>('button, input, textarea, [tabindex]')[position];
+    (target && !target.matches(':disabled') ? target : moved)?.focus();
+  });
+}
+
+function ArrayItem({ className, children, ...props }: ArrayItemProps & { className?: string; children: ReactNode }) {
+  const { name, index } = props;
+  return (
+    <div
+      data-array-item={name}
+      tabIndex={-1}
+      className={className}
+      onKeyDown={(event) => {
+        if (!event.altKey || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return;
+        event.preventDefault();
+        event.stopPropagation();
+        moveItem(event.target as HTMLElement, props, event.key === 'ArrowUp' ? index - 1 : index + 1);
+      }}${dropHandlers}
+    >
+      {children}
+    </div>
+  );
+}
+
+interface ArrayItemActionsProps extends ArrayItemProps {
+  /** Accessible name of the item, e.g. "Stop 2" */
+  label: string;
+  /** Fewest items the array allows; Remove is disabled at this count */
+  min?: number;
+  /** Most items the array allows; Insert and Duplicate are disabled at this count */
+  max?: number;
+  onDuplicate: () => void;
+  onInsert: () => void;
+  onRemove: () => void;
+}
+
+function ArrayItemActions({ label, min = 0, max = Infinity, onDuplicate, onInsert, onRemove, ...props }: ArrayItemActionsProps) {
+  const { index, count } = props;
+  return (
+    <div className="flex items-center gap-1">${dragHandle}
+      <Button type="button" variant="ghost" size="sm" aria-label={\`Move \${label} up\`} disabled={index === 0} onClick={(event) => moveItem(event.currentTarget, props, index - 1)}>↑</Button>
+      <Button type="button" variant="ghost" size="sm" aria-label={\`Move \${label} down\`} disabled={index === count - 1} onClick={(event) => moveItem(event.currentTarget, props, index + 1)}>↓</Button>
+      <Button type="button" variant="outline" size="sm" aria-label={\`Insert before \${label}\`} disabled={count >= max} onClick={onInsert}>Insert</Button>
+      <Button type="button" variant="outline" size="sm" aria-label={\`Duplicate \${label}\`} disabled={count >= max} onClick={onDuplicate}>Duplicate</Button>
+      <Button type="button" variant="outline" size="sm" aria-label={\`Remove \${label}\`} disabled={count <= min} onClick={onRemove}>Remove</Button>
+    </div>
+  );
+}${dragHelpers}`;
+}
+
+/**
+ * Returns whether generated field JSX renders array items, which need
+ * arrayItemComponents in the same file.
+ */
+export function usesArrayItems(jsx: string): boolean {
+  return jsx.includes("<ArrayItemActions");
+}
+
 function buildUnionSwitchJSX(
   field: FieldDescriptor,
   config: ComponentConfig,
@@ -385,9 +912,11 @@ function buildUnionSwitchJSX(
     | undefined;
 
   if (!discriminator || !variantConfigs) {
-    return `{/* ${field.name}: no union config */}`;
+    return `{/* ${escapeJSXComment(field.name)}: no union config */}`;
   }
 
+  const valueName = `${toIdentifier(discriminator)}Value`;
+
   const optionValues = variantConfigs.map((v) => v.value);
   const optionItems = optionValues
     .map(
@@ -398,23 +927,23 @@ function buildUnionSwitchJSX(
 
   const variantBlocks: string[] = [];
   for (const variant of variantConfigs) {
-    const fieldJSXs: string[] = [];
-    for (const vField of variant.fields) {
+    const fieldJSXs: [FieldDescriptor, string][] = [];
+    for (const vField of orderVisibleFields(variant.fields)) {
       // Skip the discriminator field itself
       if (vField.name === discriminator) continue;
       const vConfig = variant.configs.get(vField.name);
       if (vConfig) {
         const vPath = `${path}.${vField.name}`;
         const jsx = generateFieldJSX(vField, vConfig, vPath);
-        fieldJSXs.push(indent(jsx, 4));
+        fieldJSXs.push([vField, jsx]);
       }
     }
 
     variantBlocks.push(
-      `    <form.Subscribe selector={(state) => state.values.${path}.${discriminator}}>
-      {(${discriminator}Value) => ${discriminator}Value === "${escapeJSXAttribute(variant.value)}" && (
+      `    <form.Subscribe selector={(state) => ${valuesAccess("state.values", `${path}.${discriminator}`)}}>
+      {(${valueName}) => ${valueName} === "${escapeJSXAttribute(variant.value)}" && (
         <div className="flex flex-col gap-3">
-${fieldJSXs.join("\n\n")}
+${indent(fieldListJSX(fieldJSXs, 3), 10)}
         </div>
       )}
     </form.Subscribe>`,
@@ -446,6 +975,124 @@ ${variantBlocks.join("\n\n")}
 </Card>`;
 }
 
+/**
+ * Returns the condition under which the value at `read` belongs to a plain
+ * (non-discriminated) union variant: all of the variant's required keys are
+ * present. Variants without required keys always match.
+ */
+export function variantKeysTest(
+  fields: FieldDescriptor[],
+  read: string,
+): string {
+  return (
+    fields
+      .filter((f) => !f.isOptional)
+      .map((f) => `${JSON.stringify(f.name)} in ${read}`)
+      .join(" && ") || "true"
+  );
+}
+
+/**
+ * Generates the body of a form built from a top-level union: a variant
+ * selector followed by one section per variant. With a discriminator the
+ * selector edits that key; otherwise it drives the component's `variant`
+ * state. Picking a variant resets the form to `VARIANT_DEFAULTS[value]`.
+ */
+export function generateRootUnionJSX(
+  discriminator: string | undefined,
+  variantConfigs: {
+    value: string;
+    fields: FieldDescriptor[];
+    configs: Map<string, ComponentConfig>;
+  }[],
+): string {
+  const optionItems = variantConfigs
+    .map(
+      (v) =>
+        `      <Select.Item value="${escapeJSXAttribute(v.value)}">${escapeJSXText(formatOptionLabel(v.value))}</Select.Item>`,
+    )
+    .join("\n");
+
+  const sections = variantConfigs.map((variant) => {
+    const fieldJSXs: [FieldDescriptor, string][] = [];
+    for (const vField of orderVisibleFields(variant.fields)) {
+      if (vField.name === discriminator) continue;
+      const vConfig = variant.configs.get(vField.name);
+      if (vConfig) {
+        fieldJSXs.push([vField, generateFieldJSX(vField, vConfig)]);
+      }
+    }
+    return { variant, content: indent(fieldListJSX(fieldJSXs, 4), 4) };
+  });
+
+  if (!discriminator) {
+    const blocks = sections.map(
+      ({
+        variant,
+        content,
+      }) => `{variant === "${escapeJSXAttribute(variant.value)}" && (
+  <div className="flex flex-col gap-4">
+${content}
+  </div>
+)}`,
+    );
+
+    return `<Field label="Variant" required>
+  <Select
+    value={variant}
+    onValueChange={(value) => {
+      setVariant(value);
+      form.reset(VARIANT_DEFAULTS[value]);
+    }}
+  >
+    <Select.Trigger>
+      <Select.Value placeholder="Select..." />
+    </Select.Trigger>
+    <Select.Content>
+${optionItems}
+    </Select.Content>
+  </Select>
+</Field>
+
+${blocks.join("\n\n")}`;
+  }
+
+  const valueName = `${toIdentifier(discriminator)}Value`;
+  const blocks = sections.map(
+    ({
+      variant,
+      content,
+    }) => `<form.Subscribe selector={(state) => state.values${propertyAccess(discriminator)}}>
+  {(${valueName}) => ${valueName} === ${discriminatorLiteral(variant, discriminator)} && (
+    <div className="flex flex-col gap-4">
+${indent(content, 2)}
+    </div>
+  )}
+</form.Subscribe>`,
+  );
+
+  return `<form.Field
+  name="${escapeJSXAttribute(discriminator)}"
+  children={(field) => (
+    <Field label="${escapeJSXAttribute(nameToLabel(discriminator))}" required>
+      <Select
+        value={String(field.state.value)}
+        onValueChange={(value) => form.reset(VARIANT_DEFAULTS[value])}
+      >
+        <Select.Trigger>
+          <Select.Value placeholder="Select..." />
+        </Select.Trigger>
+        <Select.Content>
+${indent(optionItems, 4)}
+        </Select.Content>
+      </Select>
+    </Field>
+  )}
+/>
+
+${blocks.join("\n\n")}`;
+}
+
 /**
  * Like generateFieldJSX but uses template literal paths (for use inside .map()).
  * The path contains `${i}` template expressions that will be rendered inside backticks.
@@ -463,11 +1110,28 @@ function generateFieldJSXTemplate(
   }
   if (component === "UnionSwitch") {
     // For union inside array, simplified rendering
-    return `{/* Union inside array: ${field.name} */}`;
+    return `{/* Union inside array: ${escapeJSXComment(field.name)} */}`;
+  }
+  if (component === "RecursiveFieldset") {
+    return buildRecursiveFieldJSX(field, config, templatePath);
+  }
+  if (
+    component === "FieldArray" &&
+    field.type === "array" &&
+    (componentProps.elementField as FieldDescriptor | undefined)?.type ===
+      "recursive"
+  ) {
+    return buildRecursiveArrayJSX(
+      componentProps.elementConfig as ComponentConfig,
+      componentProps.elementField as FieldDescriptor,
+      templatePath,
+      fieldProps,
+      field.constraints,
+    );
   }
 
   const fieldPropsStr = buildFieldProps(fieldProps);
-  const componentJSX = buildComponentJSX(field.name, component, componentProps);
+  const componentJSX = buildComponentJSX(field, component, componentProps);
 
   return `<form.Field
   name={\`${templatePath}\`}
@@ -496,16 +1160,16 @@ function buildFieldsetJSXTemplate(
     | undefined;
 
   if (!childConfigs || !childFields) {
-    return `{/* ${field.name}: no child configs */}`;
+    return `{/* ${escapeJSXComment(field.name)}: no child configs */}`;
   }
 
-  const childJSXs: string[] = [];
-  for (const child of childFields) {
+  const childJSXs: [FieldDescriptor, string][] = [];
+  for (const child of orderVisibleFields(childFields)) {
     const childConfig = childConfigs.get(child.name);
     if (childConfig) {
-      const childPath = `${templatePath}.${child.name}`;
+      const childPath = `${templatePath}.${escapeTemplateLiteral(child.name)}`;
       const jsx = generateFieldJSXTemplate(child, childConfig, childPath);
-      childJSXs.push(indent(jsx, 2));
+      childJSXs.push([child, jsx]);
     }
   }
 
@@ -514,11 +1178,138 @@ function buildFieldsetJSXTemplate(
     <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
   </CardHeader>
   <CardContent className="flex flex-col gap-3">
-${childJSXs.join("\n\n")}
+${indent(fieldListJSX(childJSXs, 3), 2)}
   </CardContent>
 </Card>`;
 }
 
+/**
+ * Returns the name of the generated component that renders the sub-form of a
+ * recursion target. "" (the root form object) -> RootRecursiveFields,
+ * "tree.children" -> TreeChildrenRecursiveFields.
+ */
+export function recursiveComponentName(ref: string): string {
+  const base = ref
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.replace(/^./, (s) => s.toUpperCase()))
+    .join("");
+  return `${/^[A-Z]/.test(base) ? base : `Root${base}`}RecursiveFields`;
+}
+
+/**
+ * Generates a standalone component that renders an object's fields under a
+ * dynamic `path` prop. Recursive fields inside it render the component again
+ * one level deeper, so the sub-form can grow to arbitrary depth.
+ */
+export function generateRecursiveFieldsComponent(
+  ref: string,
+  fields: FieldDescriptor[],
+  configs: Map<string, ComponentConfig>,
+  formApiType: string,
+): string {
+  const childJSXs: [FieldDescriptor, string][] = [];
+  for (const child of orderVisibleFields(fields)) {
+    const childConfig = configs.get(child.name);
+    if (childConfig) {
+      const childPath = `\${path}.${escapeTemplateLiteral(child.name)}`;
+      const jsx = generateFieldJSXTemplate(child, childConfig, childPath);
+      childJSXs.push([child, jsx]);
+    }
+  }
+
+  return `function ${recursiveComponentName(ref)}({ form, path }: { form: ${formApiType}; path: string }) {
+  return (
+    <>
+${indent(fieldListJSX(childJSXs, 3), 6)}
+    </>
+  );
+}`;
+}
+
+function buildRecursiveFieldJSX(
+  field: FieldDescriptor,
+  config: ComponentConfig,
+  templatePath: string,
+): string {
+  const { componentProps, fieldProps } = config;
+  const ref = componentProps.ref;
+
+  if (typeof ref !== "string") {
+    return `{/* ${escapeJSXComment(field.name)}: no recursive ref */}`;
+  }
+
+  const emptyValue = field.isNullable ? "null" : "undefined";
+
+  return `<form.Field name={\`${templatePath}\`}>
+  {(subField) => (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
+        {subField.state.value ? (
+          <Button type="button" variant="outline" size="sm" onClick={() => subField.handleChange(${emptyValue})}>Remove</Button>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={() => subField.handleChange({})}>Add ${escapeJSXText(fieldProps.label)}</Button>
+        )}
+      </CardHeader>
+      {subField.state.value && (
+        <CardContent className="flex flex-col gap-3">
+          <${recursiveComponentName(ref)} form={form} path={\`${templatePath}\`} />
+        </CardContent>
+      )}
+    </Card>
+  )}
+</form.Field>`;
+}
+
+/**
+ * Renders an array whose elements refer back to an ancestor object. Uses
+ * `childIndex` rather than `i` so the item path does not shadow the index of
+ * an enclosing array.
+ */
+function buildRecursiveArrayJSX(
+  elementConfig: ComponentConfig,
+  elementField: FieldDescriptor,
+  templatePath: string,
+  fieldProps: ComponentConfig["fieldProps"],
+  constraints: FieldDescriptor["constraints"],
+): string {
+  const ref = elementConfig.componentProps.ref;
+
+  if (typeof ref !== "string") {
+    return `{/* ${escapeJSXComment(templatePath)}: no recursive ref for array element */}`;
+  }
+
+  const newItem = newEntryValue(elementField, elementConfig);
+  const name = `{\`${templatePath}\`}`;
+
+  return `<form.Field name={\`${templatePath}\`} mode="array">
+  {(arrayField) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>${escapeJSXText(fieldProps.label)}</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {(arrayField.state.value ?? []).map((item, childIndex, items) => (
+          <ArrayItem key={childIndex} ${arrayItemProps(name, "childIndex").join(" ")}>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>${escapeJSXText(elementField.label)} {childIndex + 1}</CardTitle>
+${indent(arrayItemActionsJSX(name, "childIndex", elementField.label, newItem, constraints), 16)}
+              </CardHeader>
+              <CardContent className="flex flex-col gap-3">
+                <${recursiveComponentName(ref)} form={form} path={\`${templatePath}[\${childIndex}]\`} />
+              </CardContent>
+            </Card>
+          </ArrayItem>
+        ))}
+${indent(arrayFooterJSX(constraints, elementField.label, newItem), 8)}
+      </CardContent>
+    </Card>
+  )}
+</form.Field>`;
+}
+
 function buildFieldProps(fieldProps: ComponentConfig["fieldProps"]): string {
   const lines: string[] = [];
 
@@ -537,32 +1328,86 @@ function buildFieldProps(fieldProps: ComponentConfig["fieldProps"]): string {
   return lines.join("\n");
 }
 
+/**
+ * @param index - loop variable of the enclosing array item, when rendered
+ * per item; keeps generated DOM ids unique across items
+ * @param idPrefix - start of generated DOM ids; per-item elements pass the
+ * path of their array or record, since element names repeat across fields
+ */
 function buildComponentJSX(
-  fieldName: string,
+  field: FieldDescriptor,
   component: ComponentConfig["component"],
   props: Record<string, unknown>,
+  index?: string,
+  idPrefix = field.name,
 ): string {
   switch (component) {
     case "Input":
-      return buildInputJSX(props);
+      return buildInputJSX(field, props);
     case "Textarea":
-      return buildTextareaJSX(props);
+      return buildTextareaJSX(field, props);
     case "Checkbox":
       return buildCheckboxJSX();
     case "Select":
       return buildSelectJSX(props);
     case "RadioGroup":
-      return buildRadioGroupJSX(fieldName, props);
+      return buildRadioGroupJSX(idPrefix, props, index);
     case "Slider":
       return buildSliderJSX(props);
     case "DatePicker":
-      return buildDatePickerJSX();
+      return buildDatePickerJSX(field);
     default:
       return `      {/* Unsupported component: ${component} */}`;
   }
 }
 
-function buildInputJSX(props: Record<string, unknown>): string {
+/**
+ * Returns the value an emptied input stores: null for fields that are
+ * nullable but not optional, undefined otherwise.
+ */
+function emptyValueExpression(field: FieldDescriptor): string {
+  return field.isNullable && !field.isOptional ? "null" : "undefined";
+}
+
+/**
+ * Returns the expression an Input/Textarea displays for the field's value.
+ * Dates are shown as ISO dates (YYYY-MM-DD), everything else as is.
+ */
+function inputValueExpression(field: FieldDescriptor): string {
+  return field.type === "date"
+    ? `field.state.value instanceof Date ? field.state.value.toISOString().slice(0, 10) : ""`
+    : `field.state.value ?? ""`;
+}
+
+/**
+ * Returns the expression that converts a change event into the value the
+ * schema expects: numbers through valueAsNumber (Number() for non-number
+ * inputs), dates from their ISO string, and empty optional or nullable
+ * strings to undefined/null. Empty numbers and dates always leave the value
+ * unset instead of storing "" or NaN.
+ */
+function coerceInputExpression(
+  field: FieldDescriptor,
+  inputType?: unknown,
+): string {
+  const empty = emptyValueExpression(field);
+
+  switch (field.type) {
+    case "number":
+      return `e.target.value === "" ? ${empty} : ${inputType === "number" ? "e.target.valueAsNumber" : "Number(e.target.value)"}`;
+    case "date":
+      return `e.target.value ? new Date(e.target.value) : ${empty}`;
+    default:
+      return field.isOptional || field.isNullable
+        ? `e.target.value === "" ? ${empty} : e.target.value`
+        : "e.target.value";
+  }
+}
+
+function buildInputJSX(
+  field: FieldDescriptor,
+  props: Record<string, unknown>,
+): string {
   const propsStr = buildPropsString(props, [
     "type",
     "min",
@@ -571,21 +1416,26 @@ function buildInputJSX(props: Record<string, unknown>): string {
     "minLength",
     "maxLength",
     "pattern",
+    "placeholder",
+    "autoComplete",
   ]);
   return `      <Input
 ${propsStr}
-        value={field.state.value ?? ""}
-        onChange={(e) => field.handleChange(e.target.value)}
+        value={${inputValueExpression(field)}}
+        onChange={(e) => field.handleChange(${coerceInputExpression(field, props.type)})}
         onBlur={field.handleBlur}
       />`;
 }
 
-function buildTextareaJSX(props: Record<string, unknown>): string {
-  const propsStr = buildPropsString(props, ["maxLength"]);
+function buildTextareaJSX(
+  field: FieldDescriptor,
+  props: Record<string, unknown>,
+): string {
+  const propsStr = buildPropsString(props, ["maxLength", "placeholder"]);
   return `      <Textarea
 ${propsStr}
-        value={field.state.value ?? ""}
-        onChange={(e) => field.handleChange(e.target.value)}
+        value={${inputValueExpression(field)}}
+        onChange={(e) => field.handleChange(${coerceInputExpression(field)})}
         onBlur={field.handleBlur}
       />`;
 }
@@ -609,9 +1459,12 @@ function buildSelectJSX(props: Record<string, unknown>): string {
     )
     .join("\n");
 
+  const placeholder =
+    typeof props.placeholder === "string" ? props.placeholder : "Select...";
+
   return `      <Select value={field.state.value} onValueChange={field.handleChange}>
         <Select.Trigger>
-          <Select.Value placeholder="Select..." />
+          <Select.Value placeholder="${escapeJSXAttribute(placeholder)}" />
         </Select.Trigger>
         <Select.Content>
 ${optionItems}
@@ -620,8 +1473,9 @@ ${optionItems}
 }
 
 function buildRadioGroupJSX(
-  fieldName: string,
+  idPrefix: string,
   props: Record<string, unknown>,
+  index?: string,
 ): string {
   const options = props.options;
   if (!Array.isArray(options) || options.length === 0) {
@@ -629,10 +1483,13 @@ function buildRadioGroupJSX(
   }
   const radioItems = (options as string[])
     .map((opt) => {
-      const id = `${fieldName}-${opt}`;
+      const id = toDomId(`${idPrefix}-${opt}`);
+      const idAttr = index
+        ? `{\`${id}-\${${index}}\`}`
+        : `"${escapeJSXAttribute(id)}"`;
       return `        <div className="flex items-center gap-2">
-          <RadioGroup.Item value="${escapeJSXAttribute(opt)}" id="${escapeJSXAttribute(id)}" />
-          <Label htmlFor="${escapeJSXAttribute(id)}">${escapeJSXText(formatOptionLabel(opt))}</Label>
+          <RadioGroup.Item value="${escapeJSXAttribute(opt)}" id=${idAttr} />
+          <Label htmlFor=${idAttr}>${escapeJSXText(formatOptionLabel(opt))}</Label>
         </div>`;
     })
     .join("\n");
@@ -656,7 +1513,14 @@ function buildSliderJSX(props: Record<string, unknown>): string {
       />`;
 }
 
-function buildDatePickerJSX(): string {
+function buildDatePickerJSX(field: FieldDescriptor): string {
+  // DatePicker takes and reports a missing date as undefined
+  if (emptyValueExpression(field) === "null") {
+    return `      <DatePicker
+        value={field.state.value ?? undefined}
+        onValueChange={(date) => field.handleChange(date ?? null)}
+      />`;
+  }
   return `      <DatePicker
         value={field.state.value}
         onValueChange={field.handleChange}
@@ -683,7 +1547,11 @@ function buildPropsString(
   return lines.join("\n");
 }
 
-function formatOptionLabel(value: string): string {
+/**
+ * Formats an enum value as a display label: "inProgress" -> "In Progress",
+ * "not_started" -> "Not started".
+ */
+export function formatOptionLabel(value: string): string {
   return value
     .replace(/([a-z])([A-Z])/g, "$1 $2")
     .replace(/_/g, " ")
@@ -697,11 +1565,3 @@ function nameToLabel(name: string): string {
     .replace(/^./, (s) => s.toUpperCase())
     .trim();
 }
-
-function indent(str: string, spaces: number): string {
-  const pad = " ".repeat(spaces);
-  return str
-    .split("\n")
-    .map((line) => (line.trim() ? `${pad}${line}` : line))
-    .join("\n");
-}
@@ -0,0 +1,446 @@
+import type { Diagnostic } from "../../diagnostics";
+import type {
+  FieldConstraints,
+  FieldDescriptor,
+  FormDescriptor,
+  UnionVariant,
+} from "../../introspection";
+import { inferTypeName } from "./form-wrapper";
+import { indent, propertyKey, serializeLiteral } from "./literal";
+
+export interface FixturesTemplateInput {
+  form: FormDescriptor;
+  /** Receives a warning per constraint the factory cannot honor */
+  diagnostics?: Diagnostic[];
+}
+
+interface FixtureHelper {
+  name: string;
+  code: string;
+  /** Helpers this one calls */
+  uses: string[];
+}
+
+/**
+ * Runtime helpers emitted into the fixtures module, in output order. Only
+ * the helpers a factory calls (and their dependencies) are emitted.
+ */
+const FIXTURE_HELPERS: FixtureHelper[] = [
+  {
+    name: "pick",
+    uses: [],
+    code: `function pick<T>(random: Random, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)] as T;
+}`,
+  },
+  {
+    name: "fakeInt",
+    uses: [],
+    code: `function fakeInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}`,
+  },
+  {
+    name: "fakeFloat",
+    uses: [],
+    code: `function fakeFloat(random: Random, min: number, max: number): number {
+  return min + random() * (max - min);
+}`,
+  },
+  {
+    name: "fakeString",
+    uses: ["pick", "fakeInt"],
+    code: `const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'tempor'] as const;
+
+function fakeString(random: Random, minLength: number, maxLength: number): string {
+  const length = fakeInt(random, minLength, maxLength);
+  let text = pick(random, WORDS);
+  while (text.length < length) {
+    text += \` \${pick(random, WORDS)}\`;
+  }
+  return text.slice(0, length).replace(/ $/, 'a');
+}`,
+  },
+  {
+    name: "fakeEmail",
+    uses: ["pick", "fakeInt"],
+    code: `function fakeEmail(random: Random): string {
+  return \`\${pick(random, ['alex', 'sam', 'kim', 'robin', 'jules'])}\${fakeInt(random, 1, 999)}@example.com\`;
+}`,
+  },
+  {
+    name: "fakeUrl",
+    uses: ["pick"],
+    code: `function fakeUrl(random: Random): string {
+  return \`https://example.com/\${pick(random, ['about', 'blog', 'docs', 'pricing', 'shop'])}\`;
+}`,
+  },
+  {
+    name: "fakeIpv4",
+    uses: ["fakeInt"],
+    code: `function fakeIpv4(random: Random): string {
+  return Array.from({ length: 4 }, () => fakeInt(random, 0, 255)).join('.');
+}`,
+  },
+  {
+    name: "fakeUuid",
+    uses: [],
+    code: `function fakeUuid(random: Random): string {
+  const hex = (length: number) =>
+    Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+  const variant = (8 + Math.floor(random() * 4)).toString(16);
+  return \`\${hex(8)}-\${hex(4)}-4\${hex(3)}-\${variant}\${hex(3)}-\${hex(12)}\`;
+}`,
+  },
+  {
+    name: "fakeCuid",
+    uses: [],
+    code: `function fakeCuid(random: Random): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return \`c\${Array.from({ length: 24 }, () => chars[Math.floor(random() * chars.length)]).join('')}\`;
+}`,
+  },
+  {
+    name: "fakeDate",
+    uses: [],
+    code: `const FIVE_YEARS = 5 * 365 * 24 * 60 * 60 * 1000;
+
+function fakeDate(random: Random): Date {
+  return new Date(Date.UTC(2020, 0, 1) + Math.floor(random() * FIVE_YEARS));
+}`,
+  },
+  {
+    name: "fakeArray",
+    uses: ["fakeInt"],
+    code: `function fakeArray<T>(random: Random, minItems: number, maxItems: number, make: () => T): T[] {
+  return Array.from({ length: fakeInt(random, minItems, maxItems) }, make);
+}`,
+  },
+];
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), so the same seed
+ * always produces the same fixture.
+ */
+const RANDOM_SOURCE = `type Random = () => number;
+
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}`;
+
+/**
+ * Returns the name of the factory generated for a schema:
+ * "userSchema" -> "makeUser".
+ */
+export function fixtureFactoryName(schemaExportName: string): string {
+  return `make${inferTypeName(schemaExportName)}`;
+}
+
+/**
+ * Generates a fixtures module with a typed factory, e.g.
+ * `makeUser(overrides?, seed?)`, that builds valid values of the schema's
+ * type deterministically from a seed. Values honor the fields' constraints
+ * (lengths, affixes, ranges, steps, formats, literal and enum values and
+ * item counts); regex patterns are only honored through a declared default
+ * and are otherwise reported to `input.diagnostics`. The module has no
+ * runtime dependencies.
+ *
+ * @throws Error when a required recursive field would never terminate
+ */
+export function generateFixturesFile(input: FixturesTemplateInput): string {
+  const { form } = input;
+  const typeName = inferTypeName(form.schemaExportName);
+  const name = fixtureFactoryName(form.schemaExportName);
+  const ctx: FixtureContext = { diagnostics: input.diagnostics };
+
+  // Union roots pick a variant first; spreading overrides into the picked
+  // variant loses the narrowing, hence the cast
+  const body = form.union
+    ? `  const value = ${indent(variantsExpression(form.union.variants, form.union.discriminator, "", ctx), 2).trimStart()};
+  return { ...value, ...overrides } as ${typeName};`
+    : `  return {
+${indent([...objectLines(form.fields, "", ctx), "...overrides,"].join("\n"), 4)}
+  };`;
+
+  const used = new Set<string>();
+  const addHelper = (helper: FixtureHelper) => {
+    if (used.has(helper.name)) return;
+    used.add(helper.name);
+    for (const dep of helper.uses) {
+      const depHelper = FIXTURE_HELPERS.find((h) => h.name === dep);
+      if (depHelper) addHelper(depHelper);
+    }
+  };
+  for (const helper of FIXTURE_HELPERS) {
+    if (body.includes(`${helper.name}(`)) addHelper(helper);
+  }
+  const helpers = FIXTURE_HELPERS.filter((h) => used.has(h.name)).map(
+    (h) => h.code,
+  );
+  // Schemas without generated values (e.g. only pattern defaults) need no
+  // random source, and would otherwise trip noUnusedLocals
+  const random = used.size > 0 || body.includes("random()");
+  const source = random
+    ? `${[RANDOM_SOURCE, ...helpers].join("\n\n")}\n\n`
+    : "";
+
+  return `import type { ${typeName} } from '${form.schemaImportPath}';
+
+${source}/**
+ * Builds a valid ${typeName} from \`seed\`: the same seed always returns the
+ * same value. Fields in \`overrides\` replace the generated ones.
+ */
+export function ${name}(overrides: Partial<${typeName}> = {}, ${random ? "seed" : "_seed"} = 1): ${typeName} {
+${random ? "  const random = createRandom(seed);\n" : ""}${body}
+}
+`;
+}
+
+interface FixtureContext {
+  diagnostics?: Diagnostic[];
+}
+
+function objectExpression(
+  fields: FieldDescriptor[],
+  parentPath: string,
+  ctx: FixtureContext,
+  discriminator?: { name: string; value: string },
+): string {
+  const lines = objectLines(fields, parentPath, ctx, discriminator);
+  if (lines.length === 0) return "{}";
+  return `{\n${indent(lines.join("\n"), 2)}\n}`;
+}
+
+/** Property lines of an object literal, one per generated field */
+function objectLines(
+  fields: FieldDescriptor[],
+  parentPath: string,
+  ctx: FixtureContext,
+  discriminator?: { name: string; value: string },
+): string[] {
+  const lines: string[] = [];
+  for (const field of fields) {
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+    const key = propertyKey(field.name);
+
+    if (discriminator && field.name === discriminator.name) {
+      lines.push(
+        `${key}: ${discriminatorLiteral(field, discriminator.value)} as const,`,
+      );
+      continue;
+    }
+    if (field.type === "recursive") {
+      // Stop at the first level: leave the reference out or empty it
+      if (field.isOptional) continue;
+      if (field.isNullable) {
+        lines.push(`${key}: null,`);
+        continue;
+      }
+      throw new Error(
+        `Fixtures cannot be generated for required recursive field "${path}"`,
+      );
+    }
+    lines.push(`${key}: ${valueExpression(field, path, ctx)},`);
+  }
+  return lines;
+}
+
+function valueExpression(
+  field: FieldDescriptor,
+  path: string,
+  ctx: FixtureContext,
+): string {
+  const { constraints, metadata } = field;
+
+  switch (metadata.kind) {
+    case "string":
+      return stringExpression(field, path, ctx);
+    case "number":
+      return numberExpression(constraints);
+    case "boolean":
+      return "random() < 0.5";
+    case "date":
+      return "fakeDate(random)";
+    case "enum":
+      return `pick(random, ${JSON.stringify(metadata.values)} as const)`;
+    case "literal":
+      return metadata.values.length === 1
+        ? `${JSON.stringify(metadata.values[0])} as const`
+        : `pick(random, ${JSON.stringify(metadata.values)} as const)`;
+    case "object":
+      return objectExpression(metadata.fields, path, ctx);
+    case "array": {
+      const element = metadata.element;
+      const minItems =
+        constraints.minItems ?? (element.type === "recursive" ? 0 : 1);
+      if (element.type === "recursive") {
+        if (minItems > 0) {
+          throw new Error(
+            `Fixtures cannot be generated for required recursive field "${path}"`,
+          );
+        }
+        return "[]";
+      }
+      const maxItems = constraints.maxItems ?? Math.max(minItems, 3);
+      const item = valueExpression(element, `${path}.${element.name}`, ctx);
+      return `fakeArray(random, ${minItems}, ${maxItems}, () => (${item}))`;
+    }
+    case "tuple":
+      return `[${metadata.elements
+        .map((element, i) => valueExpression(element, `${path}.${i}`, ctx))
+        .join(", ")}]`;
+    case "record": {
+      const { keyDescriptor: keyField, valueDescriptor: valueField } = metadata;
+      const item = () =>
+        valueExpression(valueField, `${path}.${valueField.name}`, ctx);
+      // Enum-keyed records need every key (z.record() is exhaustive)
+      if (keyField?.metadata.kind === "enum") {
+        const entries = keyField.metadata.values.map(
+          (key) => `${propertyKey(key)}: ${item()}`,
+        );
+        return `{ ${entries.join(", ")} }`;
+      }
+      const key =
+        keyField?.type === "number"
+          ? `String(${numberExpression(keyField.constraints)})`
+          : keyField?.type === "string"
+            ? stringExpression(keyField, `${path}.${keyField.name}`, ctx)
+            : "fakeString(random, 3, 8)";
+      return `{ [${key}]: ${item()} }`;
+    }
+    case "union":
+      return variantsExpression(
+        metadata.variants,
+        metadata.discriminator,
+        path,
+        ctx,
+      );
+    case "recursive":
+      throw new Error(
+        `Fixtures cannot be generated for required recursive field "${path}"`,
+      );
+  }
+}
+
+/**
+ * Picks one variant per call. Object variants become object literals with
+ * the discriminator as a literal; single-field variants (non-object union
+ * options) become the field's value.
+ */
+function variantsExpression(
+  variants: UnionVariant[],
+  discriminator: string | undefined,
+  path: string,
+  ctx: FixtureContext,
+): string {
+  const makers = variants.map((variant) => {
+    const only = variant.fields[0];
+    if (variant.fields.length === 1 && only && /^option_\d+$/.test(only.name)) {
+      return `() => ${valueExpression(only, path, ctx)}`;
+    }
+    const object = objectExpression(
+      variant.fields,
+      path,
+      ctx,
+      discriminator ? { name: discriminator, value: variant.value } : undefined,
+    );
+    return `() => (${object})`;
+  });
+  return `pick(random, [\n${indent(makers.join(",\n"), 2)},\n])()`;
+}
+
+function discriminatorLiteral(field: FieldDescriptor, value: string): string {
+  if (field.type === "number" || field.type === "boolean") return value;
+  return JSON.stringify(value);
+}
+
+function stringExpression(
+  field: FieldDescriptor,
+  path: string,
+  ctx: FixtureContext,
+): string {
+  const { constraints } = field;
+
+  if (constraints.pattern !== undefined) {
+    if (typeof field.defaultValue === "string") {
+      return serializeLiteral(field.defaultValue) ?? '""';
+    }
+    ctx.diagnostics?.push({
+      code: "unsupported-fixture-constraint",
+      severity: "warning",
+      path,
+      schemaType: "string",
+      message: `fixture values do not honor the pattern /${constraints.pattern}/`,
+      suggestion:
+        "Declare a .default() matching the pattern, or pass the field in the factory's overrides",
+    });
+  }
+
+  switch (constraints.format) {
+    case "email":
+      return "fakeEmail(random)";
+    case "url":
+      return "fakeUrl(random)";
+    case "uuid":
+      return "fakeUuid(random)";
+    case "cuid":
+      return "fakeCuid(random)";
+    case "datetime":
+      return "fakeDate(random).toISOString()";
+    case "date":
+      return "fakeDate(random).toISOString().slice(0, 10)";
+    case "ipv4":
+      return "fakeIpv4(random)";
+  }
+
+  // Fixed parts (.startsWith(), .includes(), .endsWith()) surround a random
+  // middle sized so the whole string stays within the length bounds
+  const { startsWith = "", includes = "", endsWith = "" } = constraints;
+  const fixed = startsWith.length + includes.length + endsWith.length;
+  const minLength =
+    constraints.minLength ?? Math.min(3, constraints.maxLength ?? 3);
+  const maxLength = constraints.maxLength ?? Math.max(minLength, 12);
+  const low = Math.max(minLength - fixed, 0);
+  const high = Math.max(maxLength - fixed, low);
+  const quoted = (text: string) => (text ? [JSON.stringify(text)] : []);
+  return [
+    ...quoted(startsWith),
+    ...quoted(includes),
+    `fakeString(random, ${low}, ${high})`,
+    ...quoted(endsWith),
+  ].join(" + ");
+}
+
+/**
+ * Draws from [min, max], defaulting to a span of 100 around the given
+ * bound. Constraints do not record whether a bound is exclusive (.gt() vs
+ * .gte()), so integer ranges leave out their ends when they have room.
+ */
+function numberExpression(constraints: FieldConstraints): string {
+  const min =
+    constraints.min ??
+    (constraints.max !== undefined ? constraints.max - 100 : 0);
+  const max = constraints.max ?? min + 100;
+  const step = constraints.step ?? (constraints.isInt ? 1 : undefined);
+
+  if (step === undefined) {
+    return `fakeFloat(random, ${min}, ${max})`;
+  }
+
+  let low = Math.ceil(min / step);
+  let high = Math.floor(max / step);
+  if (high - low >= 2) {
+    if (low * step === min) low++;
+    if (high * step === max) high--;
+  }
+  return step === 1
+    ? `fakeInt(random, ${low}, ${high})`
+    : `fakeInt(random, ${low}, ${high}) * ${step}`;
+}
@@ -1,94 +1,249 @@
+import type { Diagnostic } from "../../diagnostics";
 import type {
   FieldDescriptor,
   FormDescriptor,
   FormStep,
+  FormUnion,
 } from "../../introspection";
 import type { ComponentConfig, ComponentType } from "../../mapping";
-import { generateFieldJSX } from "./field-components";
+import {
+  collectRecursiveRefs,
+  findRecursionTarget,
+  rootEntries,
+} from "./config-tree";
+import { getDefaultValueForField } from "./default-values";
+import {
+  arrayItemComponents,
+  fieldListJSX,
+  generateFieldJSX,
+  generateRecursiveFieldsComponent,
+  generateRootUnionJSX,
+  orderVisibleFields,
+  RECORD_EDITOR_COMPONENTS,
+  usesArrayItems,
+  usesRecordEditor,
+  variantKeysTest,
+} from "./field-components";
+import { discriminatorLiteral, indent, propertyKey } from "./literal";
+import { collectRenderDiagnostics } from "./render-diagnostics";
+import {
+  draftVersion,
+  findFieldChain,
+  findUnassignedPaths,
+  generateDraftHelpers,
+  generateReviewBlock,
+  generateStepConditions,
+  generateStepSchemas,
+  groupPathsByField,
+  REVIEW_VALUE_FORMATTER,
+  STEP_ISSUE_HELPERS,
+  selectStepChildren,
+} from "./wizard";
 
 export interface FormTemplateInput {
   form: FormDescriptor;
   fieldConfigs: Map<string, ComponentConfig>;
   uiImportPath: string;
+  /** Field configs for each entry of `form.union.variants`, in the same order */
+  variantConfigs?: Map<string, ComponentConfig>[];
+  /** Receives a diagnostic for every field the templates cannot render */
+  diagnostics?: Diagnostic[];
+  /** Gives array items a drag handle for reordering them by drag and drop */
+  dragHandles?: boolean;
 }
 
 /**
  * Generates the complete form component file content.
- * When `form.steps` is defined, delegates to wizard form generation.
+ * When `form.steps` is defined, delegates to wizard form generation; when
+ * `form.union` is defined, to the variant-switching union form. Fields that
+ * cannot be rendered are reported to `input.diagnostics` when given.
  */
 export function generateFormFile(input: FormTemplateInput): string {
   const { form } = input;
 
+  if (input.diagnostics) {
+    const entries = form.union
+      ? form.union.variants.flatMap((variant, i) =>
+          rootEntries(
+            variant.fields.filter(
+              (f) => f.name !== form.union?.discriminator && !f.ui?.hidden,
+            ),
+            input.variantConfigs?.[i] ?? new Map(),
+          ),
+        )
+      : rootEntries(
+          form.fields.filter((f) => !f.ui?.hidden),
+          input.fieldConfigs,
+        );
+    collectRenderDiagnostics(entries, input.diagnostics);
+  }
+
+  if (form.union) {
+    if (form.steps && form.steps.length > 0) {
+      throw new Error(
+        "Wizard steps are not supported for top-level union schemas",
+      );
+    }
+    return generateUnionFormFile(input);
+  }
+
   if (form.steps && form.steps.length > 0) {
-    validateSteps(form);
+    validateSteps(form, input.diagnostics);
     return generateWizardFormFile(input);
   }
 
+  if (form.review) {
+    throw new Error("A review step requires wizard steps");
+  }
+  if (form.persist) {
+    throw new Error("Draft persistence requires wizard steps");
+  }
+
   return generateSingleStepFormFile(input);
 }
 
 /**
- * Validates that all step field references are valid and all form fields
- * are assigned to at least one step. Throws on invalid configuration
- * (fail-hard philosophy).
+ * Validates that all step field paths are valid and all form fields are
+ * assigned to at least one step, either directly, through an ancestor, or
+ * (for objects) by assigning every sub-field. Step conditions must test an
+ * existing field, and the first step is always shown. Throws on invalid
+ * configuration (fail-hard philosophy). Required fields that only a
+ * conditional step renders are reported to `diagnostics`: when the step is
+ * skipped, submit fails on a field the user never saw.
  */
-function validateSteps(form: FormDescriptor): void {
+function validateSteps(form: FormDescriptor, diagnostics?: Diagnostic[]): void {
   const steps = form.steps as FormStep[];
-  const fieldNames = new Set(form.fields.map((f) => f.name));
+  const fieldNames = form.fields.map((f) => f.name);
 
-  // Validate that every field referenced in steps actually exists
+  // Validate that every path referenced in steps actually exists
   for (const step of steps) {
-    for (const fieldName of step.fields) {
-      if (!fieldNames.has(fieldName)) {
+    for (const fieldPath of step.fields) {
+      if (!findFieldChain(form.fields, fieldPath)) {
         throw new Error(
-          `Step "${step.id}" references unknown field "${fieldName}". ` +
-            `Available fields: ${[...fieldNames].join(", ")}`,
+          `Step "${step.id}" references unknown field "${fieldPath}". ` +
+            `Available fields: ${fieldNames.join(", ")}`,
         );
       }
     }
   }
 
+  // Validate step conditions
+  for (const [index, step] of steps.entries()) {
+    if (!step.condition) continue;
+    if (index === 0) {
+      throw new Error(
+        `Step "${step.id}" is the first step and cannot have a condition`,
+      );
+    }
+    if (!findFieldChain(form.fields, step.condition.field)) {
+      throw new Error(
+        `Step "${step.id}" condition references unknown field "${step.condition.field}"`,
+      );
+    }
+  }
+
+  if (diagnostics) {
+    reportRequiredConditionalFields(form.fields, steps, diagnostics);
+  }
+
   // Validate that every form field is assigned to at least one step
-  const assignedFields = new Set(steps.flatMap((s) => s.fields));
-  const unassigned = form.fields.filter((f) => !assignedFields.has(f.name));
+  const unassigned = findUnassignedPaths(
+    form.fields,
+    steps.flatMap((s) => s.fields),
+    "",
+  );
   if (unassigned.length > 0) {
     throw new Error(
-      `Fields not assigned to any step: ${unassigned.map((f) => f.name).join(", ")}. ` +
+      `Fields not assigned to any step: ${unassigned.join(", ")}. ` +
         "All fields must be assigned to a step in wizard mode.",
     );
   }
 }
 
+/**
+ * Reports the required fields of conditional steps that no unconditional
+ * step also covers. Fields with a schema default, or below an optional
+ * object, validate when left alone and are not reported.
+ */
+function reportRequiredConditionalFields(
+  fields: FieldDescriptor[],
+  steps: FormStep[],
+  diagnostics: Diagnostic[],
+): void {
+  const alwaysShown = steps
+    .filter((step) => !step.condition)
+    .flatMap((step) => step.fields);
+  const covered = (path: string) =>
+    alwaysShown.some((shown) => path === shown || path.startsWith(`${shown}.`));
+
+  for (const step of steps) {
+    if (!step.condition) continue;
+    for (const path of step.fields) {
+      const chain = findFieldChain(fields, path);
+      const field = chain?.[chain.length - 1];
+      if (
+        !chain ||
+        !field ||
+        covered(path) ||
+        field.defaultValue !== undefined ||
+        chain.some((f) => f.isOptional)
+      ) {
+        continue;
+      }
+      diagnostics.push({
+        code: "required-field-in-conditional-step",
+        severity: "warning",
+        path,
+        schemaType: field.type,
+        message: `required field is only rendered by conditional step "${step.id}", so submit fails when the step is skipped`,
+        suggestion:
+          "Make the field optional and require it with a .refine() that checks the step's condition, or give it a .default()",
+      });
+    }
+  }
+}
+
 /**
  * Generates a single-step form component (original behavior).
  */
 function generateSingleStepFormFile(input: FormTemplateInput): string {
   const { form, fieldConfigs, uiImportPath } = input;
 
-  const imports = generateImports(form, fieldConfigs, uiImportPath, false);
   const typeName = inferTypeName(form.schemaExportName);
   const propsInterface = generatePropsInterface(form.name, typeName);
   const defaultValues = generateDefaultValues(form.fields, fieldConfigs);
   const fieldJSX = generateAllFieldsJSX(form.fields, fieldConfigs);
+  const recursiveComponents = generateRecursiveComponents(
+    form,
+    fieldConfigs,
+    rootEntries(form.fields, fieldConfigs),
+  );
+  const recordEditor = usesRecordEditor(fieldJSX + recursiveComponents);
+  const arrayItems = usesArrayItems(fieldJSX + recursiveComponents);
+  const imports = generateImports(
+    form,
+    fieldConfigs.values(),
+    uiImportPath,
+    false,
+    recordEditor,
+    arrayItems,
+  );
+
+  const { hook, call } = formHook(
+    form,
+    typeName,
+    `{\n${defaultValues}\n    }`,
+    recursiveComponents !== "",
+  );
 
   return `'use client';
 
 ${imports}
 
 ${propsInterface}
-
+${hook}${recursiveComponents}${fieldComponents(recordEditor, arrayItems, input.dragHandles)}
 export function ${form.name}({ defaultValues: initialValues, onSubmit }: ${form.name}Props) {
-  const form = useForm({
-    defaultValues: initialValues ?? {
-${defaultValues}
-    },
-    validators: {
-      onSubmit: ${form.schemaExportName},
-    },
-    onSubmit: async ({ value }) => {
-      await onSubmit(value);
-    },
-  });
+  const form = ${call};
 
   return (
     <form
@@ -111,22 +266,174 @@ ${fieldJSX}
 /**
  * Generates a multi-step wizard form component.
  * Renders a step progress indicator, per-step field groups with Card containers,
- * and Next/Back/Submit navigation with per-step validation.
+ * and Next/Back/Submit navigation that validates each step against its slice
+ * of the schema (see generateStepSchemas). Steps with a condition are skipped
+ * while it does not hold, and `form.review` appends a read-only review step
+ * before submission. `form.persist` saves the current step and values as a
+ * draft that is restored on mount.
  */
 function generateWizardFormFile(input: FormTemplateInput): string {
   const { form, fieldConfigs, uiImportPath } = input;
   const steps = form.steps as FormStep[];
+  const conditional = steps.some((step) => step.condition);
+  const review = form.review === true;
+  const persist = form.persist;
 
-  const imports = generateImports(form, fieldConfigs, uiImportPath, true);
   const typeName = inferTypeName(form.schemaExportName);
-  const propsInterface = generatePropsInterface(form.name, typeName);
+  const propsInterface = generatePropsInterface(
+    form.name,
+    typeName,
+    persist !== undefined,
+  );
   const defaultValues = generateDefaultValues(form.fields, fieldConfigs);
   const stepsConst = generateStepsConstant(steps);
+  const stepSchemas = generateStepSchemas(
+    steps,
+    form.fields,
+    form.schemaExportName,
+    form.refinements,
+  );
+  const helpers = [
+    STEP_ISSUE_HELPERS,
+    ...(conditional
+      ? [generateStepConditions(steps, form.fields, typeName)]
+      : []),
+    ...(review ? [REVIEW_VALUE_FORMATTER] : []),
+    ...(persist
+      ? [
+          generateDraftHelpers(
+            form.name,
+            draftVersion(form.fields, steps),
+            persist,
+          ),
+        ]
+      : []),
+  ]
+    .map((helper) => `\n${helper}\n`)
+    .join("");
   const stepContentBlocks = generateStepContentBlocks(
     steps,
     form.fields,
     fieldConfigs,
   );
+  const reviewContent = review
+    ? `\n          {isLastStep && (<>\n${indent(generateReviewBlock(steps, form.fields, fieldConfigs), 12)}\n          </>)}`
+    : "";
+  const recursiveComponents = generateRecursiveComponents(
+    form,
+    fieldConfigs,
+    rootEntries(form.fields, fieldConfigs),
+  );
+  const recordEditor = usesRecordEditor(
+    stepContentBlocks + recursiveComponents,
+  );
+  const arrayItems = usesArrayItems(stepContentBlocks + recursiveComponents);
+  const imports = generateImports(
+    form,
+    fieldConfigs.values(),
+    uiImportPath,
+    true,
+    recordEditor,
+    arrayItems,
+  );
+
+  // Without conditions or a review step, navigation is plain index arithmetic
+  const lastStep = review
+    ? "currentStep === STEPS.length"
+    : conditional
+      ? "stepAfter(currentStep, 1) === STEPS.length"
+      : "currentStep === STEPS.length - 1";
+  const goNext = conditional
+    ? "setCurrentStep(stepAfter(currentStep, 1))"
+    : "setCurrentStep((s) => s + 1)";
+  const goBack = conditional
+    ? "setCurrentStep(stepAfter(currentStep, -1))"
+    : "setCurrentStep((s) => s - 1)";
+  const dynamic = conditional || review;
+  const indicator = dynamic
+    ? { list: "visibleSteps", index: "step.index" }
+    : { list: "STEPS", index: "i" };
+  const stepTitle = review
+    ? `{isLastStep ? "Review" : STEPS[currentStep].label}`
+    : "{STEPS[currentStep].label}";
+
+  const readsValues = dynamic || persist !== undefined;
+  const stepAfter = conditional
+    ? `
+
+  function stepAfter(step: number, direction: 1 | -1): number {
+    let next = step + direction;
+    while (next > 0 && next < STEPS.length && !isStepActive(next, values)) {
+      next += direction;
+    }
+    return next;
+  }`
+    : "";
+  const visibleSteps = dynamic
+    ? `
+
+  const isLastStep = ${lastStep};
+  const visibleSteps = [
+    ...STEPS.map((step, index) => ({ id: step.id, label: step.label, index }))${
+      conditional
+        ? "\n      .filter((step) => isStepActive(step.index, values))"
+        : ""
+    },${review ? '\n    { id: "review", label: "Review", index: STEPS.length },' : ""}
+  ];`
+    : "";
+  // Drafts are restored after mount, since storage is unavailable during SSR
+  const draftState = persist
+    ? `
+
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const discardedValues = useRef<unknown>(undefined);
+
+  useEffect(() => {
+    const draft = storage ? readDraft(storage) : undefined;
+    if (draft) {
+      form.reset(draft.values as typeof form.state.values, { keepDefaultValues: true });
+      setCurrentStep(draft.step);
+    }
+    setDraftLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (draftLoaded && storage && values !== discardedValues.current) {
+      writeDraft(storage, { version: DRAFT_VERSION, step: currentStep, values });
+    }
+  }, [draftLoaded, storage, currentStep, values]);
+
+  // The reset changes values; they are not saved again until edited
+  function discardDraft() {
+    form.reset();
+    discardedValues.current = form.state.values;
+    storage?.removeItem(DRAFT_KEY);
+    setCurrentStep(0);
+  }`
+    : "";
+  const navigationState = readsValues
+    ? `
+  const values = useStore(form.store, (state) => state.values);${stepAfter}${visibleSteps}${draftState}
+`
+    : "";
+
+  const backButton = `{currentStep > 0 && (
+          <Button type="button" variant="outline" onClick={() => ${goBack}}>Back</Button>
+        )}`;
+  const startButtons = persist
+    ? `<div className="flex gap-2">
+          ${backButton.replace(/\n/g, "\n  ")}
+          <Button type="button" variant="ghost" onClick={discardDraft}>Discard draft</Button>
+        </div>`
+    : `${backButton}
+        {currentStep === 0 && <div />}`;
+  const { hook, call } = formHook(
+    form,
+    typeName,
+    `{\n${defaultValues}\n    }`,
+    recursiveComponents !== "",
+    persist !== undefined,
+  );
 
   return `'use client';
 
@@ -136,33 +443,33 @@ ${propsInterface}
 
 ${stepsConst}
 
-export function ${form.name}({ defaultValues: initialValues, onSubmit }: ${form.name}Props) {
-  const [currentStep, setCurrentStep] = useState(0);
-  const isLastStep = currentStep === STEPS.length - 1;
-
-  const form = useForm({
-    defaultValues: initialValues ?? {
-${defaultValues}
-    },
-    validators: {
-      onSubmit: ${form.schemaExportName},
-    },
-    onSubmit: async ({ value }) => {
-      await onSubmit(value);
-    },
-  });
+${stepSchemas}
+${helpers}${hook}${recursiveComponents}${fieldComponents(recordEditor, arrayItems, input.dragHandles)}
+export function ${form.name}({ defaultValues: initialValues, onSubmit${persist ? ", storage: draftStorage" : ""} }: ${form.name}Props) {
+  const [currentStep, setCurrentStep] = useState(0);${dynamic ? "" : `\n  const isLastStep = ${lastStep};`}${persist ? "\n  const storage = draftStorage ?? defaultDraftStorage();" : ""}
 
+  const form = ${call};
+${navigationState}
   async function handleNext() {
     const stepFields = STEPS[currentStep].fields;
-    let hasErrors = false;
-    for (const fieldName of stepFields) {
-      await form.validateField(fieldName, 'submit');
-      if (form.getFieldMeta(fieldName)?.errors?.length) {
-        hasErrors = true;
+    const result = await STEP_SCHEMAS[currentStep].safeParseAsync(form.state.values);
+    const stepErrors = new Map<string, string>();
+    for (const issue of result.error?.issues ?? []) {
+      // Issues without a path (root refinements) belong to the step's first field
+      const name = issue.path.length > 0 ? issueFieldName(issue.path) : stepFields[0];
+      if (isInStep(name, stepFields) && !stepErrors.has(name)) {
+        stepErrors.set(name, issue.message);
       }
     }
-    if (!hasErrors) {
-      setCurrentStep((s) => s + 1);
+    for (const name of Object.keys(form.fieldInfo)) {
+      if (!isInStep(name, stepFields)) continue;
+      form.setFieldMeta(name as keyof typeof form.fieldInfo, (meta) => ({
+        ...meta,
+        errorMap: { ...meta.errorMap, onSubmit: stepErrors.get(name) },
+      }));
+    }
+    if (stepErrors.size === 0) {
+      ${goNext};
     }
   }
 
@@ -177,13 +484,13 @@ ${defaultValues}
     >
       {/* Step indicator */}
       <nav className="flex items-center gap-2" aria-label="Form steps">
-        {STEPS.map((step, i) => (
-          <div key={step.id} className="flex items-center gap-2" aria-current={i === currentStep ? "step" : undefined}>
-            <div className={\`flex h-8 w-8 items-center justify-center rounded-full text-sm font-medium \${i === currentStep ? "bg-primary text-primary-foreground" : i < currentStep ? "bg-muted text-foreground" : "bg-muted text-muted-foreground"}\`}>
+        {${indicator.list}.map((step, i) => (
+          <div key={step.id} className="flex items-center gap-2" aria-current={${indicator.index} === currentStep ? "step" : undefined}>
+            <div className={\`flex h-8 w-8 items-center justify-center rounded-full text-sm font-medium \${${indicator.index} === currentStep ? "bg-primary text-primary-foreground" : ${indicator.index} < currentStep ? "bg-muted text-foreground" : "bg-muted text-muted-foreground"}\`}>
               {i + 1}
             </div>
-            <span className={\`text-sm \${i === currentStep ? "font-medium" : "text-muted-foreground"}\`}>{step.label}</span>
-            {i < STEPS.length - 1 && <div className="h-px w-8 bg-border" />}
+            <span className={\`text-sm \${${indicator.index} === currentStep ? "font-medium" : "text-muted-foreground"}\`}>{step.label}</span>
+            {i < ${indicator.list}.length - 1 && <div className="h-px w-8 bg-border" />}
           </div>
         ))}
       </nav>
@@ -191,19 +498,16 @@ ${defaultValues}
       {/* Step content */}
       <Card>
         <CardHeader>
-          <CardTitle>{STEPS[currentStep].label}</CardTitle>
+          <CardTitle>${stepTitle}</CardTitle>
         </CardHeader>
         <CardContent className="flex flex-col gap-4">
-${stepContentBlocks}
+${stepContentBlocks}${reviewContent}
         </CardContent>
       </Card>
 
       {/* Navigation */}
       <div className="flex justify-between">
-        {currentStep > 0 && (
-          <Button type="button" variant="outline" onClick={() => setCurrentStep((s) => s - 1)}>Back</Button>
-        )}
-        {currentStep === 0 && <div />}
+        ${startButtons}
         {isLastStep ? (
           <Button type="submit">Submit</Button>
         ) : (
@@ -216,24 +520,191 @@ ${stepContentBlocks}
 `;
 }
 
+/**
+ * Generates a form for a top-level union schema. The root renders a variant
+ * selector (the discriminator field, or local state for plain unions) and the
+ * fields of the selected variant. Each variant gets its own default values,
+ * which replace the form state whenever the selected variant changes.
+ */
+function generateUnionFormFile(input: FormTemplateInput): string {
+  const { form, uiImportPath } = input;
+  const union = form.union as FormUnion;
+  const variantConfigs = union.variants.map((variant, i) => ({
+    value: variant.value,
+    fields: variant.fields,
+    configs: input.variantConfigs?.[i] ?? new Map<string, ComponentConfig>(),
+  }));
+  if (variantConfigs.length === 0) {
+    throw new Error("Top-level union schemas need at least one variant");
+  }
+  const allConfigs = variantConfigs.flatMap((v) => [...v.configs.values()]);
+
+  const typeName = inferTypeName(form.schemaExportName);
+  const propsInterface = generatePropsInterface(form.name, typeName);
+  const variantDefaults = generateVariantDefaults(
+    typeName,
+    union.discriminator,
+    variantConfigs,
+  );
+  const rootJSX = indent(
+    generateRootUnionJSX(union.discriminator, variantConfigs),
+    6,
+  );
+  const recursiveComponents = generateRecursiveComponents(
+    form,
+    input.fieldConfigs,
+    variantConfigs.flatMap((v) => rootEntries(v.fields, v.configs)),
+  );
+  const recordEditor = usesRecordEditor(rootJSX + recursiveComponents);
+  const arrayItems = usesArrayItems(rootJSX + recursiveComponents);
+  const imports = generateImports(
+    form,
+    allConfigs,
+    uiImportPath,
+    false,
+    recordEditor,
+    arrayItems,
+  );
+  const firstKey = JSON.stringify(variantConfigs[0].value);
+  const variantState = union.discriminator
+    ? ""
+    : "  const [variant, setVariant] = useState(() => initialVariant(initialValues));\n\n";
+  const { hook, call } = formHook(
+    form,
+    typeName,
+    `VARIANT_DEFAULTS[${firstKey}]`,
+    recursiveComponents !== "",
+  );
+  const variantPicker = union.discriminator
+    ? ""
+    : `\n${generateInitialVariant(typeName, variantConfigs)}\n`;
+
+  return `'use client';
+
+${imports}
+
+${propsInterface}
+
+${variantDefaults}
+${variantPicker}${hook}${recursiveComponents}${fieldComponents(recordEditor, arrayItems, input.dragHandles)}
+export function ${form.name}({ defaultValues: initialValues, onSubmit }: ${form.name}Props) {
+${variantState}  const form = ${call};
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        form.handleSubmit();
+      }}
+      className="flex flex-col gap-4"
+    >
+${rootJSX}
+
+      <Button type="submit">Submit</Button>
+    </form>
+  );
+}
+`;
+}
+
+/**
+ * Generates the VARIANT_DEFAULTS constant: one initial value object per
+ * union variant, keyed by variant value, with the discriminator pre-set.
+ */
+function generateVariantDefaults(
+  typeName: string,
+  discriminator: string | undefined,
+  variantConfigs: {
+    value: string;
+    fields: FieldDescriptor[];
+    configs: Map<string, ComponentConfig>;
+  }[],
+): string {
+  const entries = variantConfigs.map((variant) => {
+    const lines = variant.fields.map((field) => {
+      const value =
+        field.name === discriminator
+          ? discriminatorLiteral(variant, discriminator)
+          : getDefaultValueForField(field, variant.configs.get(field.name), 2);
+      return `    ${propertyKey(field.name)}: ${value},`;
+    });
+    const body = lines.length > 0 ? `{\n${lines.join("\n")}\n  }` : "{}";
+    return `  ${propertyKey(variant.value)}: ${body},`;
+  });
+
+  return `const VARIANT_DEFAULTS: Record<string, Partial<${typeName}>> = {\n${entries.join("\n")}\n};`;
+}
+
+/**
+ * Generates initialVariant(), which picks the plain-union variant that
+ * initial values belong to, by the same required-key test the view uses.
+ */
+function generateInitialVariant(
+  typeName: string,
+  variantConfigs: { value: string; fields: FieldDescriptor[] }[],
+): string {
+  const firstKey = JSON.stringify(variantConfigs[0]?.value);
+  const lines = [`  if (!value) return ${firstKey};`];
+  // A variant without required keys matches anything, so it ends the checks
+  const fallback = variantConfigs.find(
+    (variant) => variantKeysTest(variant.fields, "value") === "true",
+  );
+  for (const variant of variantConfigs) {
+    if (variant === fallback) break;
+    lines.push(
+      `  if (${variantKeysTest(variant.fields, "value")}) return ${JSON.stringify(variant.value)};`,
+    );
+  }
+  lines.push(
+    `  return ${fallback ? JSON.stringify(fallback.value) : firstKey};`,
+  );
+  return `function initialVariant(value: Partial<${typeName}> | undefined): string {
+${lines.join("\n")}
+}`;
+}
+
 function generateImports(
   form: FormDescriptor,
-  fieldConfigs: Map<string, ComponentConfig>,
+  configs: Iterable<ComponentConfig>,
   uiImportPath: string,
   wizard: boolean,
+  recordEditor = false,
+  arrayItems = false,
 ): string {
   const lines: string[] = [];
 
-  // React import (only for wizard mode)
-  if (wizard) {
-    lines.push("import { useState } from 'react';");
+  // React import (wizard step state, plain-union variant state or record key
+  // drafts; wizard drafts are restored and saved in effects; array items
+  // wrap their children)
+  const hooks: string[] = [];
+  if (wizard && form.persist) {
+    hooks.push("useEffect", "useRef");
+  }
+  if (wizard || recordEditor || (form.union && !form.union.discriminator)) {
+    hooks.push("useState");
+  }
+  if (hooks.length > 0) {
+    const specifiers = arrayItems ? ["type ReactNode", ...hooks] : hooks;
+    lines.push(`import { ${specifiers.join(", ")} } from 'react';`);
+  } else if (arrayItems) {
+    lines.push("import type { ReactNode } from 'react';");
   }
 
-  // TanStack Form import
-  lines.push("import { useForm } from '@tanstack/react-form';");
+  // TanStack Form import (wizards with conditions, a review or drafts read
+  // live values)
+  const readsValues =
+    wizard &&
+    (form.review || form.persist || form.steps?.some((step) => step.condition));
+  lines.push(
+    `import { ${readsValues ? "useForm, useStore" : "useForm"} } from '@tanstack/react-form';`,
+  );
 
-  // UI component imports
-  const usedComponents = getUsedComponents(fieldConfigs);
+  // UI component imports (a root union selects its variant with a Select)
+  const usedComponents = getUsedComponents(configs);
+  if (form.union) {
+    usedComponents.add("Select");
+  }
   const uiImports = buildUIImports(usedComponents, wizard);
   lines.push(`import {\n${uiImports}\n} from '${uiImportPath}';`);
 
@@ -246,15 +717,32 @@ function generateImports(
   return lines.join("\n");
 }
 
+/**
+ * Returns the components the rendered fields depend on (record editor and
+ * array items), each emitted once per file.
+ */
+function fieldComponents(
+  recordEditor: boolean,
+  arrayItems: boolean,
+  dragHandles = false,
+): string {
+  return [
+    ...(recordEditor ? [RECORD_EDITOR_COMPONENTS] : []),
+    ...(arrayItems ? [arrayItemComponents(dragHandles)] : []),
+  ]
+    .map((components) => `\n${components}\n`)
+    .join("");
+}
+
 /**
  * Recursively collects all component types used across all field configs.
  */
 function getUsedComponents(
-  fieldConfigs: Map<string, ComponentConfig>,
+  configs: Iterable<ComponentConfig>,
 ): Set<ComponentType> {
   const components = new Set<ComponentType>();
 
-  for (const config of fieldConfigs.values()) {
+  for (const config of configs) {
     collectComponents(config, components);
   }
 
@@ -304,7 +792,12 @@ function buildUIImports(
   imports.push("  Field,");
 
   // Add used components (skip composite pseudo-types that don't map to imports)
-  const compositeTypes = new Set(["Fieldset", "FieldArray", "UnionSwitch"]);
+  const compositeTypes = new Set([
+    "Fieldset",
+    "FieldArray",
+    "UnionSwitch",
+    "RecursiveFieldset",
+  ]);
   for (const component of usedComponents) {
     if (!compositeTypes.has(component)) {
       imports.push(`  ${component},`);
@@ -321,7 +814,7 @@ function buildUIImports(
     imports.push("  Select,");
   }
 
-  // Include Input if FieldArray is used (simple arrays use Input)
+  // Include Input if FieldArray is used (records and arrays of nested values use Input)
   if (usedComponents.has("FieldArray") && !usedComponents.has("Input")) {
     imports.push("  Input,");
   }
@@ -354,10 +847,67 @@ function inferTypeName(schemaExportName: string): string {
   return stripped.replace(/^./, (s) => s.toUpperCase());
 }
 
-function generatePropsInterface(formName: string, typeName: string): string {
+/**
+ * Builds the form's useForm() call. Forms with recursive sub-forms make the
+ * call in a use<FormName>() hook instead, whose return type names the form
+ * API (<FormName>Api) the sub-forms receive. Returns the hook declaration
+ * ("" without one) and the expression the component assigns to `form`.
+ */
+function formHook(
+  form: FormDescriptor,
+  typeName: string,
+  defaultValues: string,
+  recursive: boolean,
+  draftStorage = false,
+): { hook: string; call: string } {
+  const useFormCall = `useForm({
+    defaultValues: initialValues ?? ${defaultValues},
+    validators: {
+      onSubmit: ${form.schemaExportName},
+    },
+    onSubmit: async ({ value }) => {
+      await onSubmit(value);${draftStorage ? "\n      storage?.removeItem(DRAFT_KEY);" : ""}
+    },
+  })`;
+  if (!recursive) {
+    return { hook: "", call: useFormCall };
+  }
+
+  const hookName = `use${form.name}`;
+  const params = [
+    `initialValues: Partial<${typeName}> | undefined`,
+    `onSubmit: ${form.name}Props['onSubmit']`,
+    ...(draftStorage ? ["storage: DraftStorage | undefined"] : []),
+  ];
+  const args = ["initialValues", "onSubmit"];
+  if (draftStorage) args.push("storage");
+  return {
+    hook: `
+function ${hookName}(${params.join(", ")}) {
+  return ${useFormCall};
+}
+
+type ${recursiveFormApiName(form.name)} = ReturnType<typeof ${hookName}>;
+`,
+    call: `${hookName}(${args.join(", ")})`,
+  };
+}
+
+function recursiveFormApiName(formName: string): string {
+  return `${formName}Api`;
+}
+
+function generatePropsInterface(
+  formName: string,
+  typeName: string,
+  draftStorage = false,
+): string {
+  const storageProp = draftStorage
+    ? "\n  /** Where the wizard draft is saved (defaults to the browser storage) */\n  storage?: DraftStorage;"
+    : "";
   return `interface ${formName}Props {
   defaultValues?: Partial<${typeName}>;
-  onSubmit: (data: ${typeName}) => void | Promise<void>;
+  onSubmit: (data: ${typeName}) => void | Promise<void>;${storageProp}
 }`;
 }
 
@@ -372,99 +922,68 @@ function generateDefaultValues(
   for (const field of fields) {
     const config = fieldConfigs.get(field.name);
     const defaultValue = getDefaultValueForField(field, config, indentLevel);
-    lines.push(`${pad}${field.name}: ${defaultValue},`);
+    lines.push(`${pad}${propertyKey(field.name)}: ${defaultValue},`);
   }
 
   return lines.join("\n");
 }
 
-function getDefaultValueForField(
-  field: FieldDescriptor,
-  config: ComponentConfig | undefined,
-  indentLevel: number,
+/**
+ * Generates one sub-form component per recursion target referenced by a
+ * "recursive" field; they receive the form API typed by formHook().
+ * Returns an empty string when the schema has no recursive fields.
+ */
+function generateRecursiveComponents(
+  form: FormDescriptor,
+  fieldConfigs: Map<string, ComponentConfig>,
+  entries: [FieldDescriptor, ComponentConfig][],
 ): string {
-  switch (field.type) {
-    case "string":
-      return '""';
-    case "number": {
-      const min = config?.componentProps.min;
-      return typeof min === "number" ? String(min) : "0";
-    }
-    case "boolean":
-      return "false";
-    case "date":
-      return "undefined";
-    case "enum": {
-      if (field.metadata.kind === "enum" && field.metadata.values.length > 0) {
-        return JSON.stringify(field.metadata.values[0]);
-      }
-      return '""';
-    }
-    case "object": {
-      if (field.metadata.kind === "object") {
-        const childConfigs = config?.componentProps.childConfigs as
-          | Map<string, ComponentConfig>
-          | undefined;
-        if (childConfigs && field.metadata.fields.length > 0) {
-          const innerPad = " ".repeat((indentLevel + 1) * 2);
-          const closePad = " ".repeat(indentLevel * 2);
-          const childLines: string[] = [];
-          for (const child of field.metadata.fields) {
-            const childConfig = childConfigs.get(child.name);
-            const val = getDefaultValueForField(
-              child,
-              childConfig,
-              indentLevel + 1,
-            );
-            childLines.push(`${innerPad}${child.name}: ${val},`);
-          }
-          return `{\n${childLines.join("\n")}\n${closePad}}`;
-        }
-      }
-      return "{}";
-    }
-    case "array":
-      return "[]";
-    case "union":
-      return "{}";
-    case "tuple": {
-      if (field.metadata.kind === "tuple") {
-        const elements = field.metadata.elements.map((elem) =>
-          getDefaultValueForField(elem, undefined, indentLevel),
-        );
-        return `[${elements.join(", ")}]`;
-      }
-      return "[]";
+  const refs = new Set<string>();
+  for (const [, config] of entries) {
+    collectRecursiveRefs(config, refs);
+  }
+
+  if (refs.size === 0) {
+    return "";
+  }
+
+  const components: string[] = [];
+
+  for (const ref of [...refs].sort()) {
+    const target = findRecursionTarget(form, fieldConfigs, entries, ref);
+    if (!target) {
+      throw new Error(
+        `Recursive field references unknown ancestor "${ref}". ` +
+          "The ref must point at an object field in the form descriptor.",
+      );
     }
-    case "record":
-      return "{}";
-    default:
-      return "undefined";
+    components.push(
+      generateRecursiveFieldsComponent(
+        ref,
+        target.fields,
+        target.configs,
+        recursiveFormApiName(form.name),
+      ),
+    );
   }
-}
 
-function indentJSX(jsx: string, spaces: number): string {
-  const pad = " ".repeat(spaces);
-  return jsx
-    .split("\n")
-    .map((line) => `${pad}${line}`)
-    .join("\n");
+  return `\n${components.join("\n\n")}\n`;
 }
 
 function generateAllFieldsJSX(
   fields: FieldDescriptor[],
   fieldConfigs: Map<string, ComponentConfig>,
 ): string {
-  const fieldJSXs: string[] = [];
+  const fieldJSXs: [FieldDescriptor, string][] = [];
 
-  for (const field of fields) {
+  for (const field of orderVisibleFields(fields)) {
     const config = fieldConfigs.get(field.name);
     if (config) {
-      fieldJSXs.push(indentJSX(generateFieldJSX(field, config), 6));
+      fieldJSXs.push([field, generateFieldJSX(field, config)]);
     }
   }
 
-  return fieldJSXs.join("\n\n");
+  return indent(fieldListJSX(fieldJSXs, 4), 6);
 }
 
 /**
@@ -499,25 +1018,26 @@ function generateStepsConstant(steps: FormStep[]): string {
 /**
  * Generates conditional step content blocks for the wizard form.
  * Each step renders only its fields, wrapped in a conditional check on currentStep.
+ * Nested paths render just the selected sub-fields inside their object's card.
  */
 function generateStepContentBlocks(
   steps: FormStep[],
   fields: FieldDescriptor[],
   fieldConfigs: Map<string, ComponentConfig>,
 ): string {
-  const fieldsByName = new Map(fields.map((f) => [f.name, f]));
-
   return steps
     .map((step, stepIndex) => {
-      const fieldJSXs = step.fields
-        .filter((name) => fieldsByName.has(name) && fieldConfigs.has(name))
-        .map((name) => {
-          const field = fieldsByName.get(name) as FieldDescriptor;
-          const config = fieldConfigs.get(name) as ComponentConfig;
-          return indentJSX(generateFieldJSX(field, config), 12);
+      const fieldJSXs = [...groupPathsByField(step.fields, fields)]
+        .filter(([field]) => fieldConfigs.has(field.name) && !field.ui?.hidden)
+        .map(([field, paths]): [FieldDescriptor, string] => {
+          const config = selectStepChildren(
+            fieldConfigs.get(field.name) as ComponentConfig,
+            paths,
+          );
+          return [field, generateFieldJSX(field, config)];
         });
 
-      const fieldsContent = fieldJSXs.join("\n\n");
+      const fieldsContent = indent(fieldListJSX(fieldJSXs, 4), 12);
       return `          {currentStep === ${stepIndex} && (<>\n${fieldsContent}\n          </>)}`;
     })
     .join("\n");
@@ -1,4 +1,11 @@
 export { generateFieldJSX } from "./field-components";
+export type { FixturesTemplateInput } from "./fixtures";
+export { fixtureFactoryName, generateFixturesFile } from "./fixtures";
 export type { FormTemplateInput } from "./form-wrapper";
 export { generateFormFile, inferTypeName } from "./form-wrapper";
+export { propertyKey, serializeLiteral } from "./literal";
 export { generatePrimitivesFile } from "./primitives";
+export type { TableTemplateInput } from "./table";
+export { generateTableFile, tableComponentName } from "./table";
+export type { ViewTemplateInput } from "./view";
+export { generateViewFile, viewComponentName } from "./view";
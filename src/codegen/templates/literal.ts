@@ -0,0 +1,124 @@
+import type { FieldDescriptor } from "../../introspection";
+
+const VALID_IDENTIFIER = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+/**
+ * Formats an object literal key, quoting it unless it is a valid identifier.
+ */
+export function propertyKey(key: string): string {
+  return VALID_IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Formats a property access for `key`: `.key` for identifiers, `["key"]`
+ * otherwise (e.g. "first-name", "2fa").
+ */
+export function propertyAccess(key: string): string {
+  return VALID_IDENTIFIER.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Formats an indexed access type into the type expression `type`, e.g.
+ * `User["address"]` or `NonNullable<User["items"]>[number]`. `index` is the
+ * index type as written (`"address"`, `number`, `string`, `0`); `nullable`
+ * wraps a type that may be null or undefined in NonNullable<>.
+ */
+export function indexedType(
+  type: string,
+  index: string,
+  nullable = true,
+): string {
+  return nullable ? `NonNullable<${type}>[${index}]` : `${type}[${index}]`;
+}
+
+/**
+ * Returns the JS literal a variant's discriminator compares against. Number
+ * and boolean discriminators are emitted bare, everything else as a string.
+ */
+export function discriminatorLiteral(
+  variant: { value: string; fields: FieldDescriptor[] },
+  discriminator: string,
+): string {
+  const type = variant.fields.find((f) => f.name === discriminator)?.type;
+  return type === "number" || type === "boolean"
+    ? variant.value
+    : JSON.stringify(variant.value);
+}
+
+/**
+ * Indents every non-blank line of generated source by \`spaces\` spaces.
+ */
+export function indent(str: string, spaces: number): string {
+  const pad = " ".repeat(spaces);
+  return str
+    .split("\n")
+    .map((line) => (line.trim() ? `${pad}${line}` : line))
+    .join("\n");
+}
+
+/**
+ * Derives a valid JavaScript identifier from an arbitrary key by camel-casing
+ * across invalid characters and prefixing a leading digit with "_".
+ * "first-name" -> firstName, "2fa" -> _2fa, "Content-Type" -> ContentType.
+ */
+export function toIdentifier(key: string): string {
+  const camel = key.replace(/[^a-zA-Z0-9_$]+(.)?/g, (_, next?: string) =>
+    next ? next.toUpperCase() : "",
+  );
+  if (camel === "") return "_";
+  return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+}
+
+/**
+ * Serializes a runtime value (typically a schema default) into a JavaScript
+ * expression. Supports primitives, Dates, arrays and plain objects.
+ * Returns undefined when the value has no literal form (functions, Maps,
+ * class instances, invalid dates).
+ */
+export function serializeLiteral(value: unknown): string | undefined {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "number":
+    case "boolean":
+      return String(value);
+    case "bigint":
+      return `${value}n`;
+    case "object":
+      break;
+    default:
+      return undefined;
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? undefined
+      : `new Date(${JSON.stringify(value.toISOString())})`;
+  }
+
+  if (Array.isArray(value)) {
+    const items: string[] = [];
+    for (const item of value) {
+      const literal = serializeLiteral(item);
+      if (literal === undefined) return undefined;
+      items.push(literal);
+    }
+    return `[${items.join(", ")}]`;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    return undefined;
+  }
+
+  const entries: string[] = [];
+  for (const [key, entry] of Object.entries(value)) {
+    const literal = serializeLiteral(entry);
+    if (literal === undefined) return undefined;
+    entries.push(`${propertyKey(key)}: ${literal}`);
+  }
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+}
@@ -25,12 +25,13 @@ interface FieldProps {
   description?: string;
   required?: boolean;
   error?: string;
+  className?: string;
   children: ReactNode;
 }
 
-export function Field({ label, description, required, error, children }: FieldProps) {
+export function Field({ label, description, required, error, className = '', children }: FieldProps) {
   return (
-    <div className="flex flex-col gap-1.5">
+    <div className={\`flex flex-col gap-1.5 \${className}\`}>
       <label className="text-sm font-medium leading-none">
         {label}
         {required && <span className="text-red-500 ml-1">*</span>}
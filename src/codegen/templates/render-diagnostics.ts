@@ -0,0 +1,158 @@
+import type { Diagnostic } from "../../diagnostics";
+import type { FieldDescriptor } from "../../introspection";
+import type { ComponentConfig } from "../../mapping";
+
+interface VariantConfig {
+  value: string;
+  fields: FieldDescriptor[];
+  configs: Map<string, ComponentConfig>;
+}
+
+/**
+ * Reports resolved fields the templates cannot render: unions without a
+ * discriminator, and unions or arrays nested inside array items. Mirrors the
+ * branches of generateFieldJSX / generateFieldJSXTemplate, which emit a
+ * placeholder comment for these cases.
+ */
+export function collectRenderDiagnostics(
+  entries: [FieldDescriptor, ComponentConfig][],
+  diagnostics: Diagnostic[],
+): void {
+  for (const [field, config] of entries) {
+    walk(field, config, field.name, false, diagnostics);
+  }
+}
+
+function walk(
+  field: FieldDescriptor,
+  config: ComponentConfig,
+  path: string,
+  inArrayItem: boolean,
+  diagnostics: Diagnostic[],
+): void {
+  const props = config.componentProps;
+
+  if (config.component === "Fieldset") {
+    walkChildren(props, path, inArrayItem, diagnostics);
+    return;
+  }
+
+  if (config.component === "UnionSwitch") {
+    if (inArrayItem) {
+      diagnostics.push(nestingDiagnostic(field, path, "union"));
+    } else if (!props.discriminator) {
+      diagnostics.push(unionDiagnostic(field, path));
+    } else {
+      walkVariants(props, path, false, diagnostics);
+    }
+    return;
+  }
+
+  if (config.component !== "FieldArray" || field.type === "record") {
+    return;
+  }
+
+  const element = props.elementField as FieldDescriptor | undefined;
+  const elementConfig = props.elementConfig as ComponentConfig | undefined;
+  if (!element || !elementConfig || element.type === "recursive") {
+    return;
+  }
+
+  if (inArrayItem) {
+    diagnostics.push(nestingDiagnostic(field, path, "array"));
+    return;
+  }
+
+  const elementPath = `${path}.${element.name}`;
+  if (element.type === "object") {
+    walkChildren(elementConfig.componentProps, elementPath, true, diagnostics);
+  } else if (element.type === "union") {
+    if (!elementConfig.componentProps.discriminator) {
+      diagnostics.push(unionDiagnostic(element, elementPath));
+    } else {
+      walkVariants(
+        elementConfig.componentProps,
+        elementPath,
+        true,
+        diagnostics,
+      );
+    }
+  }
+}
+
+function walkChildren(
+  props: Record<string, unknown>,
+  path: string,
+  inArrayItem: boolean,
+  diagnostics: Diagnostic[],
+): void {
+  const childConfigs = props.childConfigs as
+    | Map<string, ComponentConfig>
+    | undefined;
+  const childFields = props.childFields as FieldDescriptor[] | undefined;
+  if (!childConfigs || !childFields) return;
+
+  for (const child of childFields) {
+    const childConfig = childConfigs.get(child.name);
+    if (childConfig && !child.ui?.hidden) {
+      walk(
+        child,
+        childConfig,
+        `${path}.${child.name}`,
+        inArrayItem,
+        diagnostics,
+      );
+    }
+  }
+}
+
+function walkVariants(
+  props: Record<string, unknown>,
+  path: string,
+  inArrayItem: boolean,
+  diagnostics: Diagnostic[],
+): void {
+  const discriminator = props.discriminator as string;
+  for (const variant of (props.variantConfigs as VariantConfig[]) ?? []) {
+    for (const vField of variant.fields) {
+      const vConfig = variant.configs.get(vField.name);
+      if (vConfig && vField.name !== discriminator && !vField.ui?.hidden) {
+        walk(
+          vField,
+          vConfig,
+          `${path}.${vField.name}`,
+          inArrayItem,
+          diagnostics,
+        );
+      }
+    }
+  }
+}
+
+function unionDiagnostic(field: FieldDescriptor, path: string): Diagnostic {
+  return {
+    code: "unsupported-union",
+    severity: "warning",
+    path,
+    schemaType: field.type,
+    message: "union without a discriminator is not rendered",
+    suggestion:
+      "Use z.discriminatedUnion() so the form can switch between variants",
+  };
+}
+
+function nestingDiagnostic(
+  field: FieldDescriptor,
+  path: string,
+  kind: "union" | "array",
+): Diagnostic {
+  return {
+    code: "unsupported-nesting",
+    severity: "warning",
+    path,
+    schemaType: field.type,
+    message: `${kind} fields inside array items are not rendered`,
+    suggestion:
+      "Move the field out of the array item, or render it with a custom mapping rule",
+  };
+}
@@ -0,0 +1,261 @@
+import type { FieldDescriptor, FormDescriptor } from "../../introspection";
+import type { ComponentConfig } from "../../mapping";
+import {
+  COMPOSITE_COMPONENTS,
+  escapeJSXText,
+  orderVisibleFields,
+} from "./field-components";
+import { inferTypeName } from "./form-wrapper";
+import { indent, indexedType, propertyAccess } from "./literal";
+import {
+  scalarValueExpression,
+  VIEW_OPTION_FORMATTER,
+  VIEW_VALUE_FORMATTER,
+} from "./view";
+
+export interface TableTemplateInput {
+  form: FormDescriptor;
+  fieldConfigs: Map<string, ComponentConfig>;
+  /**
+   * Dotted path of an array-of-objects field whose elements are the rows.
+   * When omitted, each row is a value of the root object schema.
+   */
+  field?: string;
+  /** Makes column headers toggle ascending/descending sorting */
+  sortable?: boolean;
+}
+
+/**
+ * Comparator the sortable table uses: empty values sort last, dates and
+ * numbers by value, everything else by locale-aware string comparison.
+ */
+export const TABLE_VALUE_COMPARATOR = `function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}`;
+
+interface TableSource {
+  /** Type of one row, e.g. Order or NonNullable<Order["items"]>[number] */
+  rowType: string;
+  fields: FieldDescriptor[];
+  configs: Map<string, ComponentConfig>;
+}
+
+/**
+ * Returns the name of the table component generated for a form:
+ * "UserForm" -> "UserTable", with `field` "items" -> "UserItemsTable".
+ */
+export function tableComponentName(formName: string, field?: string): string {
+  const base = formName.replace(/Form$/, "") || formName;
+  const suffix = (field ?? "")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.replace(/^./, (s) => s.toUpperCase()))
+    .join("");
+  return `${base}${suffix}Table`;
+}
+
+/**
+ * Generates a typed table component listing values of the form's type, or
+ * the elements of one of its array-of-objects fields. Columns are the visible
+ * scalar fields with their resolved labels; cells are formatted like the
+ * read-only view. An optional `rowActions` prop renders a trailing actions
+ * cell per row.
+ *
+ * @throws Error for top-level union schemas and when `field` does not name an
+ * array of objects
+ */
+export function generateTableFile(input: TableTemplateInput): string {
+  const { form, sortable = false } = input;
+  if (form.union) {
+    throw new Error("Tables are not supported for top-level union schemas");
+  }
+
+  const typeName = inferTypeName(form.schemaExportName);
+  const source = findTableSource(input, typeName);
+  const name = tableComponentName(form.name, input.field);
+  const rowTypeName = `${name.replace(/Table$/, "")}Row`;
+
+  const columns = orderVisibleFields(source.fields).flatMap((field) => {
+    const config = source.configs.get(field.name);
+    return config && !COMPOSITE_COMPONENTS.has(config.component)
+      ? [{ field, config }]
+      : [];
+  });
+  if (columns.length === 0) {
+    throw new Error(
+      `Table "${name}" has no columns: none of its fields are scalar`,
+    );
+  }
+
+  const headers = columns
+    .map(({ field, config }) => {
+      const label = escapeJSXText(config.fieldProps.label);
+      if (!sortable) {
+        return `<th className="px-2 py-1 text-left font-medium">${label}</th>`;
+      }
+      const key = JSON.stringify(field.name);
+      return `<th className="px-2 py-1 text-left font-medium" aria-sort={ariaSort(${key})}>
+  <button type="button" onClick={() => toggleSort(${key})}>
+    ${label}{sortIndicator(${key})}
+  </button>
+</th>`;
+    })
+    .join("\n");
+  const cells = columns
+    .map(
+      ({ field, config }) =>
+        `<td className="px-2 py-1">{${scalarValueExpression(field, config, `row${propertyAccess(field.name)}`)}}</td>`,
+    )
+    .join("\n");
+
+  const formatters = [VIEW_VALUE_FORMATTER];
+  if (cells.includes("formatOption(")) {
+    formatters.push(VIEW_OPTION_FORMATTER);
+  }
+  if (sortable) {
+    formatters.push(TABLE_VALUE_COMPARATOR);
+  }
+
+  const reactImport = sortable
+    ? "import { type ReactNode, useState } from 'react';"
+    : "import type { ReactNode } from 'react';";
+  const sortState = sortable
+    ? `
+  const [sort, setSort] = useState<{ key: keyof ${rowTypeName}; direction: 'asc' | 'desc' } | null>(null);
+  // Rows keep their index into \`rows\`, which rowActions receives
+  const entries = rows.map((row, index) => ({ row, index }));
+  const sortedRows = sort
+    ? entries.sort(
+        (a, b) => compareValues(a.row[sort.key], b.row[sort.key]) * (sort.direction === 'asc' ? 1 : -1),
+      )
+    : entries;
+
+  function toggleSort(key: keyof ${rowTypeName}) {
+    setSort((current) =>
+      current?.key === key && current.direction === 'asc'
+        ? { key, direction: 'desc' }
+        : { key, direction: 'asc' },
+    );
+  }
+
+  function ariaSort(key: keyof ${rowTypeName}) {
+    if (sort?.key !== key) return undefined;
+    return sort.direction === 'asc' ? 'ascending' : 'descending';
+  }
+
+  function sortIndicator(key: keyof ${rowTypeName}) {
+    if (sort?.key !== key) return '';
+    return sort.direction === 'asc' ? ' ↑' : ' ↓';
+  }
+`
+    : "";
+
+  return `${sortable ? "'use client';\n\n" : ""}${reactImport}
+import type { ${typeName} } from '${form.schemaImportPath}';
+
+type ${rowTypeName} = ${source.rowType};
+
+interface ${name}Props {
+  rows: ${rowTypeName}[];
+  /** Renders the actions cell of each row (e.g. edit and delete buttons) */
+  rowActions?: (row: ${rowTypeName}, index: number) => ReactNode;
+}
+
+${formatters.join("\n\n")}
+
+export function ${name}({ rows, rowActions }: ${name}Props) {${sortState}
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b">
+${indent(headers, 10)}
+          {rowActions && <th className="px-2 py-1 text-right font-medium">Actions</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {${sortable ? "sortedRows.map(({ row, index })" : "rows.map((row, index)"} => (
+          <tr key={index} className="border-b">
+${indent(cells, 12)}
+            {rowActions && <td className="px-2 py-1 text-right">{rowActions(row, index)}</td>}
+          </tr>
+        ))}
+        {rows.length === 0 && (
+          <tr>
+            <td colSpan={${columns.length} + (rowActions ? 1 : 0)} className="px-2 py-4 text-center text-muted-foreground">
+              No rows
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
+`;
+}
+
+/**
+ * Finds the fields and configs of a table's rows: the root fields, or the
+ * element fields of the array-of-objects field at `input.field`, reached
+ * through object fields.
+ */
+function findTableSource(
+  input: TableTemplateInput,
+  typeName: string,
+): TableSource {
+  const { form, fieldConfigs, field: fieldPath } = input;
+  if (!fieldPath) {
+    return { rowType: typeName, fields: form.fields, configs: fieldConfigs };
+  }
+
+  let fields = form.fields;
+  let configs = fieldConfigs;
+  let type = typeName;
+  const segments = fieldPath.split(".");
+
+  for (const [i, segment] of segments.entries()) {
+    const field = fields.find((f) => f.name === segment);
+    const config = configs.get(segment);
+    if (!field || !config) {
+      throw new Error(`Table field "${fieldPath}" does not exist`);
+    }
+
+    type = indexedType(type, JSON.stringify(segment), i > 0);
+    const props = config.componentProps;
+    const last = i === segments.length - 1;
+
+    if (!last) {
+      if (config.component !== "Fieldset" || field.type !== "object") {
+        throw new Error(
+          `Table field "${fieldPath}" must be reached through object fields`,
+        );
+      }
+      fields = props.childFields as FieldDescriptor[];
+      configs = props.childConfigs as Map<string, ComponentConfig>;
+      continue;
+    }
+
+    const elementConfig = props.elementConfig as ComponentConfig | undefined;
+    const elementProps = elementConfig?.componentProps;
+    if (
+      field.type !== "array" ||
+      elementConfig?.component !== "Fieldset" ||
+      !elementProps?.childFields ||
+      !elementProps.childConfigs
+    ) {
+      throw new Error(`Table field "${fieldPath}" is not an array of objects`);
+    }
+    return {
+      rowType: indexedType(type, "number"),
+      fields: elementProps.childFields as FieldDescriptor[],
+      configs: elementProps.childConfigs as Map<string, ComponentConfig>,
+    };
+  }
+
+  // Unreachable: the loop returns or throws on the last segment
+  throw new Error(`Table field "${fieldPath}" does not exist`);
+}
@@ -0,0 +1,558 @@
+import type {
+  FieldDescriptor,
+  FieldMetadata,
+  FormDescriptor,
+  FormUnion,
+} from "../../introspection";
+import type { ComponentConfig } from "../../mapping";
+import {
+  collectRecursiveRefs,
+  findRecursionTarget,
+  rootEntries,
+} from "./config-tree";
+import {
+  escapeJSXText,
+  formatOptionLabel,
+  orderVisibleFields,
+  recursiveComponentName,
+  variantKeysTest,
+} from "./field-components";
+import { inferTypeName } from "./form-wrapper";
+import {
+  discriminatorLiteral,
+  indent,
+  indexedType,
+  propertyAccess,
+  propertyKey,
+} from "./literal";
+
+export interface ViewTemplateInput {
+  form: FormDescriptor;
+  fieldConfigs: Map<string, ComponentConfig>;
+  /** Field configs for each entry of `form.union.variants`, in the same order */
+  variantConfigs?: Map<string, ComponentConfig>[];
+}
+
+interface VariantConfig {
+  value: string;
+  fields: FieldDescriptor[];
+  configs: Map<string, ComponentConfig>;
+}
+
+/**
+ * Formatter the view uses for scalar values.
+ */
+export const VIEW_VALUE_FORMATTER = `function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}`;
+
+/**
+ * Formatter for enum values, only emitted when the view shows an enum.
+ */
+export const VIEW_OPTION_FORMATTER = `function formatOption(value: unknown, labels: Record<string, string>): string {
+  return typeof value === 'string' ? (labels[value] ?? value) : formatValue(value);
+}`;
+
+/**
+ * Returns the name of the read-only view generated next to a form:
+ * "UserForm" -> "UserView", "Checkout" -> "CheckoutView".
+ */
+export function viewComponentName(formName: string): string {
+  return `${formName.replace(/Form$/, "") || formName}View`;
+}
+
+/**
+ * Generates a read-only component that displays a value of the form's type.
+ * It walks the same resolved configs as the form: scalars become definition
+ * list entries, objects nested lists, arrays of objects tables, other arrays
+ * and records lists, and unions show the fields of the active variant. Enum
+ * values use the option labels the form shows.
+ */
+export function generateViewFile(input: ViewTemplateInput): string {
+  const { form, fieldConfigs } = input;
+  const typeName = inferTypeName(form.schemaExportName);
+  const name = viewComponentName(form.name);
+
+  // A bare conditional expression is not a valid JSX root
+  const body = form.union
+    ? `<>\n${indent(rootUnionJSX(form.union, input.variantConfigs ?? []), 2)}\n</>`
+    : definitionListJSX(form.fields, fieldConfigs, "value", 0, true);
+  const recursiveComponents = generateRecursiveViews(
+    form,
+    fieldConfigs,
+    form.union
+      ? form.union.variants.flatMap((variant, i) =>
+          rootEntries(
+            variant.fields,
+            input.variantConfigs?.[i] ?? new Map<string, ComponentConfig>(),
+          ),
+        )
+      : rootEntries(form.fields, fieldConfigs),
+  );
+
+  const formatters = [VIEW_VALUE_FORMATTER];
+  if (`${body}${recursiveComponents}`.includes("formatOption(")) {
+    formatters.push(VIEW_OPTION_FORMATTER);
+  }
+
+  return `import type { ${typeName} } from '${form.schemaImportPath}';
+
+interface ${name}Props {
+  value: ${typeName};
+}
+
+${formatters.join("\n\n")}
+${recursiveComponents}
+export function ${name}({ value }: ${name}Props) {
+  return (
+${indent(body, 4)}
+  );
+}
+`;
+}
+
+/**
+ * Reads `name` from `base`. The root value is always present, so only nested
+ * reads are optional-chained: value.address?.["zip-code"].
+ */
+function readField(base: string, name: string, root: boolean): string {
+  const access = propertyAccess(name);
+  if (root) return `${base}${access}`;
+  return `${base}${access.startsWith(".") ? `?${access}` : `?.${access}`}`;
+}
+
+/**
+ * Renders visible fields as a definition list with one entry per field.
+ */
+function definitionListJSX(
+  fields: FieldDescriptor[],
+  configs: Map<string, ComponentConfig>,
+  base: string,
+  depth: number,
+  root = false,
+  skip?: string,
+): string {
+  const entries = orderVisibleFields(fields)
+    .filter((field) => field.name !== skip && configs.has(field.name))
+    .map((field) =>
+      entryJSX(
+        field,
+        configs.get(field.name) as ComponentConfig,
+        readField(base, field.name, root),
+        depth,
+      ),
+    );
+
+  return `<dl className="flex flex-col gap-3">
+${indent(entries.join("\n"), 2)}
+</dl>`;
+}
+
+function entryJSX(
+  field: FieldDescriptor,
+  config: ComponentConfig,
+  read: string,
+  depth: number,
+): string {
+  return `<div className="flex flex-col gap-1">
+  <dt className="text-sm text-muted-foreground">${escapeJSXText(config.fieldProps.label)}</dt>
+  <dd className="text-sm">
+${indent(valueJSX(field, config, read, depth), 4)}
+  </dd>
+</div>`;
+}
+
+/**
+ * Renders the value read by `read` according to its resolved component.
+ * `depth` keeps the item variables of nested lists apart.
+ */
+function valueJSX(
+  field: FieldDescriptor,
+  config: ComponentConfig,
+  read: string,
+  depth: number,
+): string {
+  const props = config.componentProps;
+
+  switch (config.component) {
+    case "Fieldset": {
+      const childFields = props.childFields as FieldDescriptor[] | undefined;
+      const childConfigs = props.childConfigs as
+        | Map<string, ComponentConfig>
+        | undefined;
+      if (!childFields || !childConfigs) return `{formatValue(${read})}`;
+      return `<div className="border-l pl-4">
+${indent(definitionListJSX(childFields, childConfigs, read, depth), 2)}
+</div>`;
+    }
+    case "FieldArray":
+      return field.type === "record"
+        ? recordJSX(config, read, depth)
+        : arrayJSX(config, read, depth);
+    case "UnionSwitch":
+      return unionJSX(config, read, depth);
+    case "RecursiveFieldset":
+      return typeof props.ref === "string"
+        ? `{${read} ? <${recursiveViewName(props.ref)} value={${read}} /> : '—'}`
+        : `{formatValue(${read})}`;
+    default:
+      return `{${scalarValueExpression(field, config, read)}}`;
+  }
+}
+
+/**
+ * Returns the expression that formats a scalar value for display. Enum values
+ * (Select and RadioGroup fields) show the option labels the form's Select
+ * shows; everything else goes through formatValue.
+ */
+export function scalarValueExpression(
+  field: FieldDescriptor,
+  config: ComponentConfig,
+  read: string,
+): string {
+  const props = config.componentProps;
+  const options =
+    config.component !== "Select" && config.component !== "RadioGroup"
+      ? []
+      : Array.isArray(props.options)
+        ? (props.options as string[])
+        : field.metadata.kind === "enum"
+          ? field.metadata.values
+          : [];
+  if (options.length === 0) return `formatValue(${read})`;
+
+  const labels = options
+    .map(
+      (option) =>
+        `${propertyKey(option)}: ${JSON.stringify(formatOptionLabel(option))}`,
+    )
+    .join(", ");
+  return `formatOption(${read}, { ${labels} })`;
+}
+
+/**
+ * Names the callback variables of a list nested `depth` levels deep, so inner
+ * lists do not shadow outer ones: item, item2, item3...
+ */
+function itemNames(depth: number): {
+  item: string;
+  index: string;
+  key: string;
+} {
+  const suffix = depth === 0 ? "" : String(depth + 1);
+  return {
+    item: `item${suffix}`,
+    index: `index${suffix}`,
+    key: `key${suffix}`,
+  };
+}
+
+/**
+ * Renders an array: a table with a column per visible sub-field when the
+ * elements are objects, a list otherwise.
+ */
+function arrayJSX(
+  config: ComponentConfig,
+  read: string,
+  depth: number,
+): string {
+  const elementField = config.componentProps.elementField as
+    | FieldDescriptor
+    | undefined;
+  const elementConfig = config.componentProps.elementConfig as
+    | ComponentConfig
+    | undefined;
+  if (!elementField || !elementConfig) return `{formatValue(${read})}`;
+
+  const { item, index } = itemNames(depth);
+  const childFields = elementConfig.componentProps.childFields as
+    | FieldDescriptor[]
+    | undefined;
+  const childConfigs = elementConfig.componentProps.childConfigs as
+    | Map<string, ComponentConfig>
+    | undefined;
+
+  if (elementConfig.component === "Fieldset" && childFields && childConfigs) {
+    const columns = orderVisibleFields(childFields).filter((child) =>
+      childConfigs.has(child.name),
+    );
+    const headers = columns
+      .map((child) => {
+        const label = (childConfigs.get(child.name) as ComponentConfig)
+          .fieldProps.label;
+        return `<th className="py-1 pr-4 text-left font-medium">${escapeJSXText(label)}</th>`;
+      })
+      .join("\n");
+    const cells = columns
+      .map(
+        (child) => `<td className="py-1 pr-4 align-top">
+${indent(valueJSX(child, childConfigs.get(child.name) as ComponentConfig, readField(item, child.name, true), depth + 1), 2)}
+</td>`,
+      )
+      .join("\n");
+
+    return `{${read}?.length ? (
+  <table className="w-full text-sm">
+    <thead>
+      <tr>
+${indent(headers, 8)}
+      </tr>
+    </thead>
+    <tbody>
+      {${read}.map((${item}, ${index}) => (
+        <tr key={${index}} className="border-t">
+${indent(cells, 10)}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+) : '—'}`;
+  }
+
+  return `{${read}?.length ? (
+  <ul className="list-disc pl-4">
+    {${read}.map((${item}, ${index}) => (
+      <li key={${index}}>
+${indent(valueJSX(elementField, elementConfig, item, depth + 1), 8)}
+      </li>
+    ))}
+  </ul>
+) : '—'}`;
+}
+
+/**
+ * Renders a record as a definition list keyed by the record's keys.
+ */
+function recordJSX(
+  config: ComponentConfig,
+  read: string,
+  depth: number,
+): string {
+  const valueField = config.componentProps.elementField as
+    | FieldDescriptor
+    | undefined;
+  const valueConfig = config.componentProps.elementConfig as
+    | ComponentConfig
+    | undefined;
+  if (!valueField || !valueConfig) return `{formatValue(${read})}`;
+
+  const { item, key } = itemNames(depth);
+  return `{${read} && Object.keys(${read}).length > 0 ? (
+  <dl className="flex flex-col gap-1">
+    {Object.entries(${read}).map(([${key}, ${item}]) => (
+      <div key={${key}} className="flex gap-2">
+        <dt className="text-muted-foreground">{${key}}</dt>
+        <dd>
+${indent(valueJSX(valueField, valueConfig, item, depth + 1), 10)}
+        </dd>
+      </div>
+    ))}
+  </dl>
+) : '—'}`;
+}
+
+/**
+ * Renders the fields of the active variant of a discriminated union.
+ */
+function unionJSX(
+  config: ComponentConfig,
+  read: string,
+  depth: number,
+): string {
+  const discriminator = config.componentProps.discriminator as
+    | string
+    | undefined;
+  const variants = config.componentProps.variantConfigs as
+    | VariantConfig[]
+    | undefined;
+  if (!discriminator || !variants) return `{formatValue(${read})}`;
+
+  const discriminatorRead = readField(read, discriminator, false);
+  return variantChainJSX(
+    variants.map((variant) => ({
+      test: `${discriminatorRead} === ${discriminatorLiteral(variant, discriminator)}`,
+      body: variantJSX(variant, discriminator, read, depth, false),
+    })),
+  );
+}
+
+/**
+ * Renders the active variant of a top-level union. Plain unions have no
+ * discriminator, so a variant is picked by the presence of its required keys.
+ */
+function rootUnionJSX(
+  union: FormUnion,
+  variantConfigs: Map<string, ComponentConfig>[],
+): string {
+  const { discriminator } = union;
+  const variants = union.variants.map((variant, i) => ({
+    value: variant.value,
+    fields: variant.fields,
+    configs: variantConfigs[i] ?? new Map<string, ComponentConfig>(),
+  }));
+
+  return variantChainJSX(
+    variants.map((variant) => {
+      const test = discriminator
+        ? `${readField("value", discriminator, true)} === ${discriminatorLiteral(variant, discriminator)}`
+        : variantKeysTest(variant.fields, "value");
+      return {
+        test,
+        body: variantJSX(variant, discriminator, "value", 0, true),
+      };
+    }),
+  );
+}
+
+/**
+ * Shows the variant's label followed by its other fields.
+ */
+function variantJSX(
+  variant: VariantConfig,
+  discriminator: string | undefined,
+  read: string,
+  depth: number,
+  root: boolean,
+): string {
+  const fields = definitionListJSX(
+    variant.fields,
+    variant.configs,
+    read,
+    depth,
+    root,
+    discriminator,
+  );
+  if (!discriminator) return fields;
+
+  const label =
+    variant.configs.get(discriminator)?.fieldProps.label ??
+    formatOptionLabel(discriminator);
+  return `<div className="flex flex-col gap-3">
+  <p className="text-sm font-medium">${escapeJSXText(label)}: ${escapeJSXText(formatOptionLabel(variant.value))}</p>
+${indent(fields, 2)}
+</div>`;
+}
+
+/**
+ * Chains variant tests into a conditional expression; the first match wins.
+ */
+function variantChainJSX(variants: { test: string; body: string }[]): string {
+  const branches = variants
+    .map(({ test, body }) => `${test} ? (\n${indent(body, 2)}\n) : `)
+    .join("");
+  return `{${branches}'—'}`;
+}
+
+function recursiveViewName(ref: string): string {
+  return recursiveComponentName(ref).replace(
+    /RecursiveFields$/,
+    "RecursiveView",
+  );
+}
+
+/**
+ * Generates one view component per recursion target referenced by a
+ * "recursive" field. Each renders the target object's fields and itself
+ * again one level deeper.
+ */
+function generateRecursiveViews(
+  form: FormDescriptor,
+  fieldConfigs: Map<string, ComponentConfig>,
+  entries: [FieldDescriptor, ComponentConfig][],
+): string {
+  const refs = new Set<string>();
+  for (const [, config] of entries) {
+    collectRecursiveRefs(config, refs);
+  }
+
+  if (refs.size === 0) {
+    return "";
+  }
+
+  const typeName = inferTypeName(form.schemaExportName);
+  const components: string[] = [];
+
+  for (const ref of [...refs].sort()) {
+    const target = findRecursionTarget(form, fieldConfigs, entries, ref);
+    if (!target) {
+      throw new Error(
+        `Recursive field references unknown ancestor "${ref}". ` +
+          "The ref must point at an object field in the form descriptor.",
+      );
+    }
+    const list = definitionListJSX(
+      target.fields,
+      target.configs,
+      "value",
+      0,
+      true,
+    );
+    components.push(`function ${recursiveViewName(ref)}({ value }: { value: ${refValueType(form, typeName, ref)} }) {
+  return (
+${indent(list, 4)}
+  );
+}`);
+  }
+
+  return `\n${components.join("\n\n")}\n`;
+}
+
+/**
+ * Builds the type of the object a recursive ref points at by indexing the
+ * form's type along the ref, e.g. "tree.children.item" ->
+ * `NonNullable<NonNullable<Form["tree"]>["children"]>[number]`. Union members
+ * are narrowed to the variants that have the key.
+ */
+function refValueType(
+  form: FormDescriptor,
+  typeName: string,
+  ref: string,
+): string {
+  let type = typeName;
+  let parent: FieldMetadata | undefined = form.union
+    ? { kind: "union", variants: form.union.variants }
+    : { kind: "object", fields: form.fields };
+  let nullable = false;
+
+  for (const segment of ref === "" ? [] : ref.split(".")) {
+    const key = JSON.stringify(segment);
+    let child: FieldDescriptor | undefined;
+    switch (parent?.kind) {
+      case "object":
+        child = parent.fields.find((f) => f.name === segment);
+        type = indexedType(type, key, nullable);
+        break;
+      case "array":
+        child = parent.element;
+        type = indexedType(type, "number", nullable);
+        break;
+      case "tuple":
+        child = parent.elements[Number(segment)];
+        type = indexedType(type, segment, nullable);
+        break;
+      case "record":
+        // Enum keys have a field each; other keys share the value descriptor
+        child = parent.fields?.find((f) => f.name === segment);
+        type = indexedType(type, child ? key : "string", nullable);
+        child ??= parent.valueDescriptor;
+        break;
+      case "union": {
+        child = parent.variants
+          .flatMap((variant) => variant.fields)
+          .find((f) => f.name === segment);
+        const member = `Extract<${nullable ? `NonNullable<${type}>` : type}, { ${propertyKey(segment)}?: unknown }>`;
+        type = indexedType(member, key, false);
+        break;
+      }
+    }
+    parent = child?.metadata;
+    nullable = true;
+  }
+  // Views render only once the value is present
+  return nullable ? `NonNullable<${type}>` : type;
+}
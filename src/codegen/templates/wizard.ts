@@ -0,0 +1,414 @@
+import type {
+  DraftStorageKind,
+  FieldDescriptor,
+  FormRefinement,
+  FormStep,
+} from "../../introspection";
+import type { ComponentConfig } from "../../mapping";
+import { escapeJSXText, orderVisibleFields } from "./field-components";
+import { propertyAccess, propertyKey, serializeLiteral } from "./literal";
+
+/**
+ * Groups dotted step paths by the field their first segment names, keeping
+ * the rest of each path ("" when the path names the field itself). A field
+ * whose own name contains dots matches the whole path. Paths matching no
+ * field are dropped; groups are ordered by first mention.
+ */
+export function groupPathsByField(
+  paths: string[],
+  fields: FieldDescriptor[],
+): Map<FieldDescriptor, string[]> {
+  const groups = new Map<FieldDescriptor, string[]>();
+  for (const path of paths) {
+    const exact = fields.find((f) => f.name === path);
+    const dot = path.indexOf(".");
+    const field =
+      exact ??
+      (dot === -1
+        ? undefined
+        : fields.find((f) => f.name === path.slice(0, dot)));
+    if (!field) continue;
+    const rest = exact ? "" : path.slice(dot + 1);
+    groups.set(field, [...(groups.get(field) ?? []), rest]);
+  }
+  return groups;
+}
+
+/**
+ * Looks up the fields along a dotted path, descending through object fields.
+ * Returns undefined when the path does not exist.
+ */
+export function findFieldChain(
+  fields: FieldDescriptor[],
+  path: string,
+): FieldDescriptor[] | undefined {
+  const [entry] = groupPathsByField([path], fields);
+  if (!entry) return undefined;
+  const [field, [rest]] = entry;
+  if (rest === "") return [field];
+  if (field.metadata.kind !== "object") return undefined;
+  const chain = findFieldChain(field.metadata.fields, rest);
+  return chain ? [field, ...chain] : undefined;
+}
+
+/**
+ * Returns the full paths of fields not covered by any of the step paths.
+ */
+export function findUnassignedPaths(
+  fields: FieldDescriptor[],
+  paths: string[],
+  parentPath: string,
+): string[] {
+  const groups = groupPathsByField(paths, fields);
+  return fields.flatMap((field) => {
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+    const rest = groups.get(field);
+    if (!rest) return [path];
+    if (rest.includes("") || field.metadata.kind !== "object") return [];
+    return findUnassignedPaths(field.metadata.fields, rest, path);
+  });
+}
+
+/**
+ * Narrows a Fieldset config to the sub-fields selected by `paths` (relative
+ * to the object), so a partly assigned object still renders in its own card.
+ */
+export function selectStepChildren(
+  config: ComponentConfig,
+  paths: string[],
+): ComponentConfig {
+  const childFields = config.componentProps.childFields as
+    | FieldDescriptor[]
+    | undefined;
+  const childConfigs = config.componentProps.childConfigs as
+    | Map<string, ComponentConfig>
+    | undefined;
+  if (paths.includes("") || !childFields || !childConfigs) {
+    return config;
+  }
+
+  const groups = groupPathsByField(paths, childFields);
+  const selected = childFields.filter((f) => groups.has(f));
+  const selectedConfigs = new Map<string, ComponentConfig>();
+  for (const child of selected) {
+    const childConfig = childConfigs.get(child.name);
+    if (childConfig) {
+      selectedConfigs.set(
+        child.name,
+        selectStepChildren(childConfig, groups.get(child) as string[]),
+      );
+    }
+  }
+
+  return {
+    ...config,
+    componentProps: {
+      ...config.componentProps,
+      childFields: selected,
+      childConfigs: selectedConfigs,
+    },
+  };
+}
+
+/**
+ * Builds an optional-chained read of nested field names from `values`:
+ * ["applicant", "first-name"] -> values.applicant?.["first-name"]
+ */
+function readValue(names: string[]): string {
+  const accesses = names.map((name, i) => {
+    const access = propertyAccess(name);
+    if (i === 0) return access;
+    return access.startsWith(".") ? `?${access}` : `?.${access}`;
+  });
+  return `values${accesses.join("")}`;
+}
+
+/**
+ * Generates `isStepActive(step, values)`, which reports whether a step's
+ * condition holds for the current values. Steps without a condition are
+ * always active. Condition paths must have been validated beforehand.
+ */
+export function generateStepConditions(
+  steps: FormStep[],
+  fields: FieldDescriptor[],
+  typeName: string,
+): string {
+  const cases = steps.flatMap((step, index) => {
+    if (!step.condition) return [];
+    const chain = findFieldChain(
+      fields,
+      step.condition.field,
+    ) as FieldDescriptor[];
+    const read = readValue(chain.map((f) => f.name));
+    const expected = Array.isArray(step.condition.equals)
+      ? step.condition.equals
+      : [step.condition.equals];
+    const test = expected
+      .map((value) => `${read} === ${serializeLiteral(value)}`)
+      .join(" || ");
+    return [`    case ${index}:\n      return ${test};`];
+  });
+
+  return `function isStepActive(step: number, values: Partial<${typeName}>): boolean {
+  switch (step) {
+${cases.join("\n")}
+    default:
+      return true;
+  }
+}`;
+}
+
+/**
+ * Formatter the review step uses to display entered values.
+ */
+export const REVIEW_VALUE_FORMATTER = `function formatReviewValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(formatReviewValue).join(', ') : '—';
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}`;
+
+interface ReviewEntry {
+  label: string;
+  read: string;
+}
+
+/**
+ * Lists the values a field contributes to the review: one entry per leaf,
+ * with objects expanded into their visible sub-fields.
+ */
+function collectReviewEntries(
+  config: ComponentConfig,
+  names: string[],
+): ReviewEntry[] {
+  const childFields = config.componentProps.childFields as
+    | FieldDescriptor[]
+    | undefined;
+  const childConfigs = config.componentProps.childConfigs as
+    | Map<string, ComponentConfig>
+    | undefined;
+
+  if (config.component === "Fieldset" && childFields && childConfigs) {
+    return orderVisibleFields(childFields).flatMap((child) => {
+      const childConfig = childConfigs.get(child.name);
+      return childConfig
+        ? collectReviewEntries(childConfig, [...names, child.name])
+        : [];
+    });
+  }
+
+  return [{ label: config.fieldProps.label, read: readValue(names) }];
+}
+
+/**
+ * Generates the content of the review step: a read-only summary of each
+ * step's values with an "Edit" button that jumps back to the step. Sections
+ * of conditional steps only show while the step is active.
+ */
+export function generateReviewBlock(
+  steps: FormStep[],
+  fields: FieldDescriptor[],
+  fieldConfigs: Map<string, ComponentConfig>,
+): string {
+  const sections = steps.map((step, index) => {
+    const entries = [...groupPathsByField(step.fields, fields)]
+      .filter(([field]) => fieldConfigs.has(field.name) && !field.ui?.hidden)
+      .flatMap(([field, paths]) =>
+        collectReviewEntries(
+          selectStepChildren(
+            fieldConfigs.get(field.name) as ComponentConfig,
+            paths,
+          ),
+          [field.name],
+        ),
+      );
+
+    const rows = entries
+      .map(
+        (entry) =>
+          `    <dt className="text-muted-foreground">${escapeJSXText(entry.label)}</dt>\n    <dd>{formatReviewValue(${entry.read})}</dd>`,
+      )
+      .join("\n");
+
+    const section = `<section className="flex flex-col gap-2">
+  <div className="flex items-center justify-between">
+    <h3 className="text-sm font-medium">${escapeJSXText(step.label)}</h3>
+    <Button type="button" variant="ghost" size="sm" onClick={() => setCurrentStep(${index})}>Edit</Button>
+  </div>
+  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+${rows}
+  </dl>
+</section>`;
+
+    if (!step.condition) return section;
+    const indented = section.replace(/^/gm, "  ");
+    return `{isStepActive(${index}, values) && (\n${indented}\n)}`;
+  });
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Generates `STEP_SCHEMAS`, the schema each step's values are validated
+ * against before advancing. Plain object roots are picked down to the
+ * fields the step touches; root refinements are kept on a step when every
+ * field they read is in it, so cross-field checks fire as soon as their
+ * fields are filled in. Refinements that read nothing observable, or read
+ * fields spread across steps, only run on submit. Roots that cannot be
+ * picked (refinements undefined) validate against the full schema, with
+ * issues outside the step ignored.
+ */
+export function generateStepSchemas(
+  steps: FormStep[],
+  fields: FieldDescriptor[],
+  schemaName: string,
+  refinements: FormRefinement[] | undefined,
+): string {
+  if (!refinements) {
+    return `const STEP_SCHEMAS = STEPS.map(() => ${schemaName});`;
+  }
+
+  const refined = refinements.length > 0;
+  const slices = steps.map((step) => {
+    const names = [...groupPathsByField(step.fields, fields).keys()].map(
+      (field) => field.name,
+    );
+    const mask = names.map((name) => `${propertyKey(name)}: true`).join(", ");
+    if (!refined) return `  ${schemaName}.pick({ ${mask} }),`;
+
+    const kept = refinements.flatMap((refinement, index) =>
+      refinement.fields &&
+      refinement.fields.length > 0 &&
+      refinement.fields.every((name) => names.includes(name))
+        ? [`ROOT_CHECKS[${index}]`]
+        : [],
+    );
+    const checks = kept.length > 0 ? `.check(${kept.join(", ")})` : "";
+    return `  UNREFINED_SCHEMA.pick({ ${mask} })${checks},`;
+  });
+
+  // .pick() refuses refined objects, so pick from a copy without the checks
+  const preamble = refined
+    ? `const ROOT_CHECKS = ${schemaName}.def.checks ?? [];
+const UNREFINED_SCHEMA = ${schemaName}.clone({ ...${schemaName}.def, checks: [] });
+
+`
+    : "";
+  return `${preamble}const STEP_SCHEMAS = [\n${slices.join("\n")}\n];`;
+}
+
+/**
+ * Helpers that map schema issues onto TanStack Form field names
+ * ("address.city", "items[0].name") and match them against step paths.
+ */
+export const STEP_ISSUE_HELPERS = `function issueFieldName(path: readonly PropertyKey[]): string {
+  return path.reduce<string>((name, key) => {
+    if (typeof key === 'number') return \`\${name}[\${key}]\`;
+    return name ? \`\${name}.\${String(key)}\` : String(key);
+  }, '');
+}
+
+function isInStep(name: string, stepFields: readonly string[]): boolean {
+  return stepFields.some(
+    (field) => name === field || name.startsWith(\`\${field}.\`) || name.startsWith(\`\${field}[\`),
+  );
+}`;
+
+/** Descriptor properties that do not affect the shape of saved values */
+const DRAFT_IGNORED_KEYS = new Set([
+  "label",
+  "description",
+  "ui",
+  "defaultValue",
+  "constraints",
+]);
+
+/**
+ * Derives the draft version from the shape of the fields (names, types,
+ * optionality, nesting) and the step ids, so drafts saved against an older
+ * schema are dropped instead of restored. Labels, hints and constraints do
+ * not change the version. Returns an 8-digit FNV-1a hash.
+ */
+export function draftVersion(
+  fields: FieldDescriptor[],
+  steps: FormStep[],
+): string {
+  const signature = JSON.stringify(
+    { fields, steps: steps.map((step) => step.id) },
+    (key, value) => (DRAFT_IGNORED_KEYS.has(key) ? undefined : value),
+  );
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < signature.length; i++) {
+    hash ^= signature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Generates the module-level draft helpers: the storage key and version,
+ * the `DraftStorage` adapter interface (satisfied by localStorage and
+ * sessionStorage) and functions that read and write drafts. Dates are tagged
+ * so they survive the JSON round trip.
+ */
+export function generateDraftHelpers(
+  formName: string,
+  version: string,
+  storage: DraftStorageKind,
+): string {
+  return `const DRAFT_KEY = ${JSON.stringify(`kelex-draft:${formName}`)};
+const DRAFT_VERSION = '${version}';
+
+export interface DraftStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+interface WizardDraft {
+  version: string;
+  step: number;
+  values: unknown;
+}
+
+function defaultDraftStorage(): DraftStorage | undefined {
+  try {
+    return typeof window === 'undefined' ? undefined : window.${storage}Storage;
+  } catch {
+    return undefined;
+  }
+}
+
+function readDraft(storage: DraftStorage): WizardDraft | undefined {
+  try {
+    const draft = JSON.parse(storage.getItem(DRAFT_KEY) ?? 'null', (_key, value) =>
+      value && typeof value === 'object' && typeof value.$date === 'string'
+        ? new Date(value.$date)
+        : value,
+    ) as WizardDraft | null;
+    if (draft?.version === DRAFT_VERSION) return draft;
+  } catch {
+    // Unreadable drafts are dropped like stale ones
+  }
+  storage.removeItem(DRAFT_KEY);
+  return undefined;
+}
+
+function writeDraft(storage: DraftStorage, draft: WizardDraft): void {
+  try {
+    storage.setItem(
+      DRAFT_KEY,
+      JSON.stringify(draft, function (this: Record<string, unknown>, key, value) {
+        const raw = this[key];
+        return raw instanceof Date ? { $date: raw.toISOString() } : value;
+      }),
+    );
+  } catch {
+    // A full or unavailable storage leaves the form working without drafts
+  }
+}`;
+}
@@ -0,0 +1,9 @@
+export {
+  CONFIG_FILE_NAMES,
+  defineConfig,
+  findConfigFile,
+  loadConfig,
+  mergeMappingConfig,
+} from "./loader";
+export { kelexConfigSchema, validateConfig } from "./schema";
+export type { KelexConfig, KelexTarget, MappingConfig } from "./types";
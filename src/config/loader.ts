@@ -0,0 +1,85 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { loadModule } from "../loader";
+import { validateConfig } from "./schema";
+import type { KelexConfig, MappingConfig } from "./types";
+
+/** File names probed, in order, when no config path is given */
+export const CONFIG_FILE_NAMES = [
+  "kelex.config.ts",
+  "kelex.config.mts",
+  "kelex.config.js",
+  "kelex.config.mjs",
+];
+
+/**
+ * Finds the first kelex config file in a directory.
+ * Returns undefined if none exists.
+ */
+export function findConfigFile(dir: string): string | undefined {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(dir, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Imports a config module and validates its default export.
+ * With `fresh`, re-reads the file and its imports instead of using the
+ * module cache.
+ *
+ * @throws Error if the file is missing or the config is invalid
+ */
+export async function loadConfig(
+  configPath: string,
+  fresh = false,
+): Promise<KelexConfig> {
+  const absoluteConfigPath = path.resolve(configPath);
+
+  if (!fs.existsSync(absoluteConfigPath)) {
+    throw new Error(`Config file not found: ${absoluteConfigPath}`);
+  }
+
+  const configModule = await loadModule(absoluteConfigPath, fresh);
+
+  if (configModule.default === undefined) {
+    throw new Error(`Config file ${configPath} has no default export`);
+  }
+
+  return validateConfig(configModule.default);
+}
+
+/**
+ * Layers a target's mapping config over the config-level one. Target rules
+ * take priority: prepended rules come first, appended rules last, and
+ * replacements and overrides win over the shared ones.
+ */
+export function mergeMappingConfig(
+  base: MappingConfig,
+  target: MappingConfig,
+): MappingConfig {
+  return {
+    rules: {
+      prepend: [
+        ...(target.rules?.prepend ?? []),
+        ...(base.rules?.prepend ?? []),
+      ],
+      append: [...(base.rules?.append ?? []), ...(target.rules?.append ?? [])],
+      replace: [
+        ...(base.rules?.replace ?? []),
+        ...(target.rules?.replace ?? []),
+      ],
+    },
+    overrides: { ...base.overrides, ...target.overrides },
+  };
+}
+
+/**
+ * Identity helper that types a kelex.config.ts default export.
+ */
+export function defineConfig(config: KelexConfig): KelexConfig {
+  return config;
+}
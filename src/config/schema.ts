@@ -0,0 +1,122 @@
+import { z } from "zod/v4";
+import type { ComponentType } from "../mapping";
+import type { KelexConfig } from "./types";
+
+const mappingRuleSchema = z.custom<unknown>(
+  (value) =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Record<string, unknown>).name === "string" &&
+    typeof (value as Record<string, unknown>).match === "function" &&
+    typeof (value as Record<string, unknown>).component === "string" &&
+    typeof (value as Record<string, unknown>).getProps === "function",
+  {
+    message: "expected a mapping rule with name, match, component and getProps",
+  },
+);
+
+const componentTypeSchema = z.enum([
+  "Input",
+  "Textarea",
+  "Select",
+  "Checkbox",
+  "RadioGroup",
+  "Slider",
+  "DatePicker",
+  "Fieldset",
+  "FieldArray",
+  "UnionSwitch",
+  "RecursiveFieldset",
+] satisfies ComponentType[]);
+
+const mappingConfigShape = {
+  rules: z
+    .strictObject({
+      prepend: z.array(mappingRuleSchema).optional(),
+      append: z.array(mappingRuleSchema).optional(),
+      replace: z.array(mappingRuleSchema).optional(),
+    })
+    .optional(),
+  overrides: z
+    .record(
+      z.string(),
+      z.strictObject({
+        component: componentTypeSchema.optional(),
+        componentProps: z.record(z.string(), z.unknown()).optional(),
+        fieldProps: z
+          .strictObject({
+            label: z.string().optional(),
+            description: z.string().optional(),
+            required: z.boolean().optional(),
+          })
+          .optional(),
+      }),
+    )
+    .optional(),
+};
+
+const conditionValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const stepSchema = z.strictObject({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  fields: z.array(z.string().min(1)).min(1),
+  condition: z
+    .strictObject({
+      field: z.string().min(1),
+      equals: z.union([conditionValueSchema, z.array(conditionValueSchema)]),
+    })
+    .optional(),
+});
+
+const targetSchema = z.strictObject({
+  schema: z.string().min(1),
+  export: z.string().min(1).optional(),
+  output: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  ui: z.string().min(1).optional(),
+  steps: z.union([z.literal("auto"), z.array(stepSchema)]).optional(),
+  refinementFields: z.array(z.array(z.string().min(1))).optional(),
+  review: z.boolean().optional(),
+  persist: z.enum(["local", "session"]).optional(),
+  dragHandles: z.boolean().optional(),
+  view: z.boolean().optional(),
+  table: z
+    .union([
+      z.boolean(),
+      z.strictObject({
+        field: z.string().min(1).optional(),
+        sortable: z.boolean().optional(),
+      }),
+    ])
+    .optional(),
+  fixtures: z.boolean().optional(),
+  ...mappingConfigShape,
+});
+
+/** Zod schema describing a valid kelex config */
+export const kelexConfigSchema = z.strictObject({
+  ui: z.string().min(1).optional(),
+  targets: z.array(targetSchema).optional(),
+  ...mappingConfigShape,
+});
+
+/**
+ * Validates a loaded config value.
+ *
+ * @throws Error listing every invalid key when the config does not match
+ */
+export function validateConfig(value: unknown): KelexConfig {
+  const result = kelexConfigSchema.safeParse(value);
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => {
+      const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+      return `  ${path}: ${issue.message}`;
+    });
+    throw new Error(`Invalid kelex config:\n${issues.join("\n")}`);
+  }
+
+  return result.data as KelexConfig;
+}
@@ -0,0 +1,63 @@
+import type { StepsOption, TableOptions } from "../codegen";
+import type { DraftStorageKind } from "../introspection";
+import type { FieldOverrides, MappingRuleOptions } from "../mapping";
+
+/** Mapping customizations shared by the config root and its targets */
+export interface MappingConfig {
+  /** Custom mapping rules layered on top of the defaults */
+  rules?: MappingRuleOptions;
+
+  /** Per-field overrides keyed by dot path */
+  overrides?: FieldOverrides;
+}
+
+/** A single form to generate */
+export interface KelexTarget extends MappingConfig {
+  /** Path to the schema module, relative to the config file */
+  schema: string;
+
+  /** Exported schema name (defaults to "schema", falling back to the default export) */
+  export?: string;
+
+  /** Output file path, relative to the config file (derived from the schema path if omitted) */
+  output?: string;
+
+  /** Form component name (derived from the export name if omitted) */
+  name?: string;
+
+  /** UI component import path (overrides the config-level `ui`) */
+  ui?: string;
+
+  /** Wizard steps, or "auto" for one step per top-level object field */
+  steps?: StepsOption;
+
+  /** Top-level fields each root refinement reads, in declaration order */
+  refinementFields?: string[][];
+
+  /** Adds a final read-only review step to the wizard */
+  review?: boolean;
+
+  /** Saves wizard drafts to localStorage ("local") or sessionStorage ("session") */
+  persist?: DraftStorageKind;
+
+  /** Gives array items a drag handle for reordering them by drag and drop */
+  dragHandles?: boolean;
+
+  /** Also writes a read-only view component next to the form */
+  view?: boolean;
+
+  /** Also writes a table component next to the form */
+  table?: boolean | TableOptions;
+
+  /** Also writes a fixture factory module next to the form */
+  fixtures?: boolean;
+}
+
+/** Contents of kelex.config.ts */
+export interface KelexConfig extends MappingConfig {
+  /** Default UI component import path for every target */
+  ui?: string;
+
+  /** Forms built by `kelex generate` without a schema argument */
+  targets?: KelexTarget[];
+}
@@ -0,0 +1,30 @@
+import type { Diagnostic, DiagnosticSeverity } from "./types";
+
+/** Severities ordered from least to most severe */
+export const DIAGNOSTIC_SEVERITIES: readonly DiagnosticSeverity[] = [
+  "warning",
+  "error",
+];
+
+/**
+ * Returns whether `severity` is at or above `threshold`.
+ */
+export function isAtLeastSeverity(
+  severity: DiagnosticSeverity,
+  threshold: DiagnosticSeverity,
+): boolean {
+  return (
+    DIAGNOSTIC_SEVERITIES.indexOf(severity) >=
+    DIAGNOSTIC_SEVERITIES.indexOf(threshold)
+  );
+}
+
+/**
+ * Formats a diagnostic as a one-line message:
+ * `Field "address.zip": unsupported type "bigint", treating as string`.
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return diagnostic.path
+    ? `Field "${diagnostic.path}": ${diagnostic.message}`
+    : diagnostic.message;
+}
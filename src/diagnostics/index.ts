@@ -0,0 +1,6 @@
+export {
+  DIAGNOSTIC_SEVERITIES,
+  formatDiagnostic,
+  isAtLeastSeverity,
+} from "./format";
+export type { Diagnostic, DiagnosticCode, DiagnosticSeverity } from "./types";
@@ -0,0 +1,49 @@
+/** How serious a diagnostic is, from least to most severe */
+export type DiagnosticSeverity = "warning" | "error";
+
+/** Stable identifiers for every diagnostic kelex reports */
+export type DiagnosticCode =
+  /** A field's Zod type has no form representation; it renders as a string */
+  | "unsupported-type"
+  /** A recursive reference that does not go through an object */
+  | "unsupported-recursion"
+  /** A .meta() UI hint with a value of the wrong type */
+  | "invalid-ui-hint"
+  /** A `widget` UI hint that does not fit the field type */
+  | "ignored-widget-hint"
+  /** An override path that names no field */
+  | "unmatched-override"
+  /** A field no mapping rule or override could resolve; it is skipped */
+  | "unresolved-field"
+  /** A union without a discriminator below the root; it is not rendered */
+  | "unsupported-union"
+  /** A composite nested where the templates cannot render it */
+  | "unsupported-nesting"
+  /** A .default() computed by a function, e.g. a timestamp; it is not generated */
+  | "dynamic-default"
+  /** A constraint generated fixtures cannot satisfy, such as a regex pattern */
+  | "unsupported-fixture-constraint"
+  /** A required field only a conditional wizard step renders */
+  | "required-field-in-conditional-step";
+
+/** A structured warning from introspection, mapping or code generation */
+export interface Diagnostic {
+  code: DiagnosticCode;
+
+  severity: DiagnosticSeverity;
+
+  /**
+   * Dot-separated field path built from descriptor names, e.g.
+   * "orders.item.price" ("" for diagnostics about the whole form)
+   */
+  path: string;
+
+  /** Zod def type of the field, when the diagnostic is about one */
+  schemaType?: string;
+
+  /** What happened */
+  message: string;
+
+  /** How to fix it */
+  suggestion?: string;
+}
@@ -0,0 +1 @@
+export { createUnifiedDiff, type UnifiedDiffOptions } from "./unified";
@@ -0,0 +1,172 @@
+export interface UnifiedDiffOptions {
+  /** Label for the original text (defaults to "a") */
+  fromFile?: string;
+
+  /** Label for the updated text (defaults to "b") */
+  toFile?: string;
+
+  /** Unchanged lines shown around each change (defaults to 3) */
+  context?: number;
+}
+
+interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+/** Above this many LCS cells the changed region is emitted as a block replace */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Splits text into lines. A missing final newline is recorded on the last
+ * line so it shows up as a change, printed the way diff(1) marks it.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += "\n\\ No newline at end of file";
+  }
+  return lines;
+}
+
+/**
+ * Line diff of two arrays: strips the common prefix and suffix, then runs an
+ * LCS over the remaining middle section.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a
+    .slice(0, start)
+    .map((text) => ({ op: " ", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    for (const text of midA) result.push({ op: "-", text });
+    for (const text of midB) result.push({ op: "+", text });
+  } else {
+    result.push(...lcsDiff(midA, midB));
+  }
+
+  for (const text of a.slice(endA)) {
+    result.push({ op: " ", text });
+  }
+  return result;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const width = b.length + 1;
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ op: "-", text: a[i++] });
+    } else {
+      result.push({ op: "+", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ op: "-", text: a[i++] });
+  while (j < b.length) result.push({ op: "+", text: b[j++] });
+  return result;
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range points at the line before it, per the unified format
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * Creates a unified diff between two texts.
+ * Returns an empty string when the texts are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  if (oldText === newText) return "";
+
+  const { fromFile = "a", toFile = "b", context = 3 } = options;
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+
+  // Line numbers (0-based) in the old and new text before each diff line
+  const oldIndex: number[] = [];
+  const newIndex: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    oldIndex.push(oldLine);
+    newIndex.push(newLine);
+    if (line.op !== "+") oldLine++;
+    if (line.op !== "-") newLine++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].op === " ") {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is within 2 * context lines
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    let scan = index;
+    while (scan < lines.length) {
+      if (lines[scan].op !== " ") {
+        hunkEnd = scan + 1;
+        scan++;
+      } else if (scan - hunkEnd < context * 2) {
+        scan++;
+      } else {
+        break;
+      }
+    }
+    hunkEnd = Math.min(lines.length, hunkEnd + context);
+
+    const hunk = lines.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((l) => l.op !== "+").length;
+    const newCount = hunk.filter((l) => l.op !== "-").length;
+    output.push(
+      `@@ -${hunkRange(oldIndex[hunkStart], oldCount)} +${hunkRange(newIndex[hunkStart], newCount)} @@`,
+    );
+    for (const line of hunk) {
+      output.push(`${line.op}${line.text}`);
+    }
+
+    index = hunkEnd;
+  }
+
+  return `${output.join("\n")}\n`;
+}
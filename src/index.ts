@@ -1,42 +1,97 @@
 // Codegen types
 export type {
+  FixturesTemplateInput,
   FormTemplateInput,
   GenerateOptions,
   GenerateResult,
+  StepsOption,
+  TableOptions,
+  TableTemplateInput,
+  ViewTemplateInput,
 } from "./codegen";
 
 // Codegen functions
 export {
+  deriveSteps,
+  fixtureFactoryName,
   generate,
   generateFieldJSX,
+  generateFixturesFile,
   generateFormFile,
+  generateTableFile,
+  generateViewFile,
   inferTypeName,
+  tableComponentName,
+  viewComponentName,
 } from "./codegen";
 
+// Config types
+export type { KelexConfig, KelexTarget, MappingConfig } from "./config";
+
+// Config functions
+export {
+  defineConfig,
+  findConfigFile,
+  kelexConfigSchema,
+  loadConfig,
+  validateConfig,
+} from "./config";
+
+// Diagnostics types
+export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+} from "./diagnostics";
+
+// Diagnostics functions
+export {
+  DIAGNOSTIC_SEVERITIES,
+  formatDiagnostic,
+  isAtLeastSeverity,
+} from "./diagnostics";
+
 // Introspection types
 export type {
+  DraftStorageKind,
   FieldConstraints,
   FieldDescriptor,
   FieldMetadata,
   FieldType,
+  FieldUIHints,
+  FieldWidget,
   FormDescriptor,
+  FormRefinement,
   FormStep,
+  FormUnion,
   IntrospectOptions,
+  StepCondition,
+  StepConditionValue,
+  UnionVariant,
   UnwrapResult,
 } from "./introspection";
 
 // Introspection functions
-export { extractConstraints, introspect, unwrapSchema } from "./introspection";
+export {
+  extractConstraints,
+  extractUIHints,
+  introspect,
+  unwrapSchema,
+} from "./introspection";
 
 // Mapping types
 export type {
   ComponentConfig,
   ComponentType,
+  FieldOverride,
+  FieldOverrides,
   MappingRule,
+  MappingRuleOptions,
 } from "./mapping";
 
 // Mapping functions
 export {
+  composeMappingRules,
   defaultMappingRules,
   findMatchingRule,
   resolveField,
@@ -8,6 +8,10 @@ interface ZodCheckDef {
   value?: number;
   format?: string;
   pattern?: RegExp;
+  length?: number;
+  prefix?: string;
+  suffix?: string;
+  includes?: string;
 }
 
 interface ZodCheck {
@@ -22,6 +26,8 @@ const KNOWN_FORMATS = new Set([
   "uuid",
   "cuid",
   "datetime",
+  "date",
+  "ipv4",
 ] as const);
 
 /**
@@ -49,7 +55,9 @@ export function extractConstraints(
       fmt === "url" ||
       fmt === "uuid" ||
       fmt === "cuid" ||
-      fmt === "datetime"
+      fmt === "datetime" ||
+      fmt === "date" ||
+      fmt === "ipv4"
     ) {
       constraints.format = fmt;
     }
@@ -86,9 +94,27 @@ export function extractConstraints(
         }
         break;
 
+      case "length_equals":
+        if (checkDef.length !== undefined) {
+          if (def.type === "array") {
+            constraints.minItems = checkDef.length;
+            constraints.maxItems = checkDef.length;
+          } else {
+            constraints.minLength = checkDef.length;
+            constraints.maxLength = checkDef.length;
+          }
+        }
+        break;
+
       case "string_format":
         if (checkDef.format === "regex" && checkDef.pattern) {
           constraints.pattern = checkDef.pattern.source;
+        } else if (checkDef.format === "starts_with") {
+          constraints.startsWith = checkDef.prefix;
+        } else if (checkDef.format === "ends_with") {
+          constraints.endsWith = checkDef.suffix;
+        } else if (checkDef.format === "includes") {
+          constraints.includes = checkDef.includes;
         } else if (
           checkDef.format &&
           KNOWN_FORMATS.has(
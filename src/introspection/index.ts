@@ -1,11 +1,20 @@
 export { extractConstraints } from "./checks";
 export { type IntrospectOptions, introspect } from "./introspect";
 export type {
+  DraftStorageKind,
   FieldConstraints,
   FieldDescriptor,
   FieldMetadata,
   FieldType,
+  FieldUIHints,
+  FieldWidget,
   FormDescriptor,
+  FormRefinement,
   FormStep,
+  FormUnion,
+  StepCondition,
+  StepConditionValue,
+  UnionVariant,
 } from "./types";
+export { extractUIHints } from "./ui-hints";
 export { type UnwrapResult, unwrapSchema } from "./unwrap";
@@ -1,11 +1,16 @@
 import type { $ZodType } from "zod/v4/core";
+import { type Diagnostic, formatDiagnostic } from "../diagnostics";
 import { extractConstraints } from "./checks";
+import { extractRefinements } from "./refinements";
 import type {
   FieldDescriptor,
   FieldMetadata,
   FieldType,
   FormDescriptor,
+  FormUnion,
+  UnionVariant,
 } from "./types";
+import { extractUIHints } from "./ui-hints";
 import { unwrapSchema } from "./unwrap";
 
 export interface IntrospectOptions {
@@ -60,6 +65,19 @@ interface ZodLiteralDef {
   values: unknown[];
 }
 
+/**
+ * State threaded through a single introspection pass.
+ */
+interface IntrospectContext {
+  diagnostics: Diagnostic[];
+  /**
+   * Composite schemas currently being introspected, keyed to the descriptor
+   * path they were entered at. A schema that appears again below itself is a
+   * recursive reference (z.lazy() or a getter-based shape).
+   */
+  ancestors: Map<$ZodType, string>;
+}
+
 const SCALAR_TYPES = ["string", "number", "boolean", "date", "enum"] as const;
 
 const COMPOSITE_TYPES = [
@@ -81,6 +99,10 @@ function isCompositeType(t: string): t is CompositeType {
   return (COMPOSITE_TYPES as readonly string[]).includes(t);
 }
 
+function joinPath(parentPath: string, name: string): string {
+  return parentPath ? `${parentPath}.${name}` : name;
+}
+
 /**
  * Converts a camelCase or PascalCase field name to a human-readable label.
  */
@@ -94,24 +116,21 @@ function nameToLabel(name: string): string {
 
 /**
  * Resolves a schema to its root, unwrapping intersections into a merged
- * object shape. Returns the resolved schema and any warnings.
+ * object shape.
  */
-function resolveRootSchema(schema: $ZodType): {
-  resolved: $ZodType;
-  warnings: string[];
-} {
+function resolveRootSchema(schema: $ZodType): $ZodType {
   const def = schema._zod.def as { type: string };
 
+  if (def.type === "lazy") {
+    return resolveRootSchema(unwrapSchema(schema).inner);
+  }
+
   if (def.type === "intersection") {
-    const shape = flattenIntersection(schema);
     // Build a synthetic object-like schema view
-    return {
-      resolved: buildSyntheticObjectSchema(shape),
-      warnings: [],
-    };
+    return buildSyntheticObjectSchema(flattenIntersection(schema));
   }
 
-  return { resolved: schema, warnings: [] };
+  return schema;
 }
 
 /**
@@ -153,7 +172,11 @@ function buildSyntheticObjectSchema(shape: Record<string, $ZodType>): $ZodType {
 /**
  * Builds FieldMetadata based on the field type.
  */
-function buildMetadata(inner: $ZodType, warnings: string[]): FieldMetadata {
+function buildMetadata(
+  inner: $ZodType,
+  ctx: IntrospectContext,
+  path: string,
+): FieldMetadata {
   const def = inner._zod.def as { type: string };
   const type = def.type;
 
@@ -163,26 +186,37 @@ function buildMetadata(inner: $ZodType, warnings: string[]): FieldMetadata {
     return { kind: "enum", values };
   }
 
+  if (type === "literal") {
+    const litDef = def as unknown as ZodLiteralDef;
+    const values = litDef.values.filter(
+      (value): value is string | number | boolean =>
+        typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean",
+    );
+    return { kind: "literal", values };
+  }
+
   if (type === "object") {
     const objDef = def as unknown as ZodObjectDef;
-    const fields = introspectShape(objDef.shape, warnings);
+    const fields = introspectShape(objDef.shape, ctx, path);
     return { kind: "object", fields };
   }
 
   if (type === "array") {
     const arrDef = def as unknown as ZodArrayDef;
-    const element = introspectField("item", arrDef.element, warnings);
+    const element = introspectField("item", arrDef.element, ctx, path);
     return { kind: "array", element };
   }
 
   if (type === "union") {
-    return buildUnionMetadata(def as unknown as ZodUnionDef, warnings);
+    return buildUnionMetadata(def as unknown as ZodUnionDef, ctx, path);
   }
 
   if (type === "tuple") {
     const tupDef = def as unknown as ZodTupleDef;
     const elements = tupDef.items.map((item, i) =>
-      introspectField(String(i), item, warnings),
+      introspectField(String(i), item, ctx, path),
     );
     return { kind: "tuple", elements };
   }
@@ -192,9 +226,30 @@ function buildMetadata(inner: $ZodType, warnings: string[]): FieldMetadata {
     const valueDescriptor = introspectField(
       "value",
       recDef.valueType,
-      warnings,
+      ctx,
+      path,
     );
-    return { kind: "record", valueDescriptor };
+    const keyDescriptor = introspectField("key", recDef.keyType, ctx, path);
+    // z.partialRecord() clones its key schema without the set of known keys
+    const partial =
+      keyDescriptor.type === "enum" && recDef.keyType._zod.values === undefined;
+    // Enum keys are known up front, so each gets a field of its own
+    const fields =
+      keyDescriptor.metadata.kind === "enum"
+        ? keyDescriptor.metadata.values.map((key) => ({
+            ...valueDescriptor,
+            name: key,
+            label: nameToLabel(key),
+            isOptional: partial || valueDescriptor.isOptional,
+          }))
+        : undefined;
+    return {
+      kind: "record",
+      valueDescriptor,
+      keyDescriptor,
+      ...(partial ? { partial } : {}),
+      ...(fields ? { fields } : {}),
+    };
   }
 
   return { kind: type as "string" | "number" | "boolean" | "date" };
@@ -205,10 +260,11 @@ function buildMetadata(inner: $ZodType, warnings: string[]): FieldMetadata {
  */
 function buildUnionMetadata(
   def: ZodUnionDef,
-  warnings: string[],
+  ctx: IntrospectContext,
+  path: string,
 ): FieldMetadata {
   const discriminator = def.discriminator;
-  const variants: { value: string; fields: FieldDescriptor[] }[] = [];
+  const variants: UnionVariant[] = [];
 
   for (const option of def.options) {
     const optDef = option._zod.def as { type: string };
@@ -226,18 +282,19 @@ function buildUnionMetadata(
         }
       }
 
-      const fields = introspectShape(objDef.shape, warnings);
+      const fields = introspectShape(objDef.shape, ctx, path);
       variants.push({ value, fields });
     } else if (optDef.type === "object") {
       const objDef = optDef as unknown as ZodObjectDef;
-      const fields = introspectShape(objDef.shape, warnings);
+      const fields = introspectShape(objDef.shape, ctx, path);
       variants.push({ value: `variant_${variants.length}`, fields });
     } else {
       // Non-object union option -- wrap as a single-field variant
       const field = introspectField(
         `option_${variants.length}`,
         option,
-        warnings,
+        ctx,
+        path,
       );
       variants.push({
         value: `variant_${variants.length}`,
@@ -258,12 +315,13 @@ function buildUnionMetadata(
  */
 function introspectShape(
   shape: Record<string, $ZodType>,
-  warnings: string[],
+  ctx: IntrospectContext,
+  parentPath: string,
 ): FieldDescriptor[] {
   const fields: FieldDescriptor[] = [];
 
   for (const [name, fieldSchema] of Object.entries(shape)) {
-    fields.push(introspectField(name, fieldSchema, warnings));
+    fields.push(introspectField(name, fieldSchema, ctx, parentPath));
   }
 
   return fields;
@@ -310,16 +368,67 @@ function resolveType(inner: $ZodType): string {
 function introspectField(
   name: string,
   fieldSchema: $ZodType,
-  warnings: string[],
+  ctx: IntrospectContext,
+  parentPath: string,
 ): FieldDescriptor {
-  const { inner, isOptional, isNullable } = unwrapSchema(fieldSchema);
+  const {
+    inner,
+    isOptional,
+    isNullable,
+    defaultValue,
+    prefault,
+    dynamicDefault,
+    meta,
+  } = unwrapSchema(fieldSchema);
   const type = resolveType(inner);
+  const path = joinPath(parentPath, name);
+
+  // A schema that is already being introspected higher up is a cycle
+  const ancestorPath = ctx.ancestors.get(inner);
+  if (ancestorPath !== undefined) {
+    if (type === "object") {
+      return {
+        name,
+        label: nameToLabel(name),
+        type: "recursive",
+        isOptional,
+        isNullable,
+        constraints: {},
+        metadata: { kind: "recursive", ref: ancestorPath },
+      };
+    }
+
+    ctx.diagnostics.push({
+      code: "unsupported-recursion",
+      severity: "warning",
+      path,
+      schemaType: type,
+      message: `recursive "${type}" schema is only supported through objects, treating as string`,
+      suggestion:
+        "Make the recursive reference point at a z.object() so it renders as a sub-form",
+    });
+    return {
+      name,
+      label: nameToLabel(name),
+      type: "string",
+      isOptional,
+      isNullable,
+      constraints: {},
+      metadata: { kind: "string" },
+    };
+  }
 
   // Check if it's a supported type
   if (!isScalarType(type) && !isCompositeType(type)) {
-    warnings.push(
-      `Field "${name}": unsupported type "${type}", treating as string`,
-    );
+    ctx.diagnostics.push({
+      code: "unsupported-type",
+      severity: "warning",
+      path,
+      schemaType: type,
+      message: `unsupported type "${type}", treating as string`,
+      suggestion:
+        "Use a supported type, or map the field with an override or custom mapping rule",
+    });
     return {
       name,
       label: nameToLabel(name),
@@ -333,8 +442,45 @@ function introspectField(
 
   const fieldType = type as FieldType;
   const constraints = extractConstraints(inner);
-  const metadata = buildMetadata(inner, warnings);
-  const description = (inner as { description?: string }).description;
+  const isComposite = isCompositeType(type);
+  if (isComposite) {
+    ctx.ancestors.set(inner, path);
+  }
+  let metadata: FieldMetadata;
+  try {
+    metadata = buildMetadata(inner, ctx, path);
+  } finally {
+    if (isComposite) {
+      ctx.ancestors.delete(inner);
+    }
+  }
+  const description =
+    typeof meta?.description === "string" ? meta.description : undefined;
+  if (dynamicDefault) {
+    ctx.diagnostics.push({
+      code: "dynamic-default",
+      severity: "warning",
+      path,
+      schemaType: type,
+      message:
+        "default computed by a function is left out of generated default values and written schemas",
+      suggestion:
+        "Pass the value through the form's defaultValues prop, or declare a constant default",
+    });
+  }
+
+  const invalidHints: string[] = [];
+  const ui = extractUIHints(meta, invalidHints);
+  for (const key of invalidHints) {
+    ctx.diagnostics.push({
+      code: "invalid-ui-hint",
+      severity: "warning",
+      path,
+      schemaType: type,
+      message: `ignoring invalid UI hint "${key}"`,
+      suggestion: `Check the type of "${key}" in .meta()`,
+    });
+  }
 
   const field: FieldDescriptor = {
     name,
@@ -350,38 +496,98 @@ function introspectField(
     field.description = description;
   }
 
+  if (defaultValue !== undefined) {
+    field.defaultValue = defaultValue;
+    if (prefault) field.prefault = true;
+  }
+
+  if (ui) {
+    field.ui = ui;
+  }
+
   return field;
 }
 
+/**
+ * Introspects a top-level union into the form's root variants. Every option
+ * must be an object, since each variant renders as its own set of fields.
+ */
+function introspectRootUnion(
+  schema: $ZodType,
+  ctx: IntrospectContext,
+): FormUnion {
+  const def = schema._zod.def as unknown as ZodUnionDef;
+
+  for (const option of def.options) {
+    const optDef = option._zod.def as { type: string };
+    if (optDef.type !== "object") {
+      throw new Error(
+        `kelex only supports unions of z.object() schemas at the top level, got a "${optDef.type}" option`,
+      );
+    }
+  }
+
+  const metadata = buildUnionMetadata(def, ctx, "");
+  if (metadata.kind !== "union") {
+    throw new Error("Expected union metadata for a top-level union schema");
+  }
+
+  return metadata.discriminator
+    ? { discriminator: metadata.discriminator, variants: metadata.variants }
+    : { variants: metadata.variants };
+}
+
 /**
  * Introspects a Zod object schema and returns a FormDescriptor.
- * Accepts z.object(), z.intersection(), and z.object().check() at the top level.
+ * Accepts z.object(), z.intersection(), z.lazy() and z.object().check() at the
+ * top level. Recursive references back to an ancestor object are represented
+ * as "recursive" fields instead of being expanded. A top-level z.union() or
+ * z.discriminatedUnion() of objects produces a descriptor with `union` set
+ * and no root fields.
  */
 export function introspect(
   schema: $ZodType,
   options: IntrospectOptions,
 ): FormDescriptor {
-  const warnings: string[] = [];
-
   // Resolve root schema (handles intersection -> merged object)
-  const { resolved, warnings: resolveWarnings } = resolveRootSchema(schema);
-  warnings.push(...resolveWarnings);
+  const resolved = resolveRootSchema(schema);
 
   const def = resolved._zod.def as ZodObjectDef;
+  const diagnostics: Diagnostic[] = [];
+  const ctx: IntrospectContext = {
+    diagnostics,
+    ancestors: new Map([[resolved, ""]]),
+  };
+
+  if (def.type === "union") {
+    const union = introspectRootUnion(resolved, ctx);
+    return {
+      name: options.formName,
+      fields: [],
+      union,
+      schemaImportPath: options.schemaImportPath,
+      schemaExportName: options.schemaExportName,
+      warnings: diagnostics.map(formatDiagnostic),
+      diagnostics,
+    };
+  }
 
   if (def.type !== "object") {
     throw new Error(
-      `kelex only supports z.object() schemas at the top level, got "${def.type}"`,
+      `kelex only supports z.object() schemas at the top level (or unions of them), got "${def.type}"`,
     );
   }
 
-  const fields = introspectShape(def.shape, warnings);
+  const fields = introspectShape(def.shape, ctx, "");
 
   return {
     name: options.formName,
     fields,
+    // Lazy and intersection roots resolve to a different schema without a shape
+    ...(resolved === schema ? { refinements: extractRefinements(schema) } : {}),
     schemaImportPath: options.schemaImportPath,
     schemaExportName: options.schemaExportName,
-    warnings,
+    warnings: diagnostics.map(formatDiagnostic),
+    diagnostics,
   };
 }
@@ -0,0 +1,29 @@
+import type { $ZodType } from "zod/v4/core";
+import type { FormRefinement } from "./types";
+
+interface ZodRefinementCheck {
+  _zod?: {
+    def?: { path?: PropertyKey[] };
+  };
+}
+
+/**
+ * Lists the refinements (.refine(), .superRefine(), .check()) declared on a
+ * root object schema. A refinement scoped with `path` is attributed to the
+ * top-level field the path starts at; the fields of any other refinement are
+ * unknown. Refinement callbacks are never run.
+ */
+export function extractRefinements(schema: $ZodType): FormRefinement[] {
+  const def = schema._zod.def as unknown as {
+    shape: Record<string, $ZodType>;
+    checks?: ZodRefinementCheck[];
+  };
+  const fieldNames = new Set(Object.keys(def.shape));
+
+  return (def.checks ?? []).map((check) => {
+    const field = check._zod?.def?.path?.[0];
+    return typeof field === "string" && fieldNames.has(field)
+      ? { fields: [field] }
+      : {};
+  });
+}
@@ -1,3 +1,5 @@
+import type { Diagnostic } from "../diagnostics";
+
 /** Supported field types after unwrapping */
 export type FieldType =
   | "string"
@@ -9,7 +11,8 @@ export type FieldType =
   | "array"
   | "union"
   | "tuple"
-  | "record";
+  | "record"
+  | "recursive";
 
 /** Validation constraints extracted from Zod checks */
 export interface FieldConstraints {
@@ -17,7 +20,10 @@ export interface FieldConstraints {
   minLength?: number;
   maxLength?: number;
   pattern?: string;
-  format?: "email" | "url" | "uuid" | "cuid" | "datetime";
+  format?: "email" | "url" | "uuid" | "cuid" | "datetime" | "date" | "ipv4";
+  startsWith?: string;
+  endsWith?: string;
+  includes?: string;
 
   // Number constraints
   min?: number;
@@ -30,6 +36,43 @@ export interface FieldConstraints {
   maxItems?: number;
 }
 
+/** Components a field can request through the `widget` UI hint */
+export type FieldWidget =
+  | "Input"
+  | "Textarea"
+  | "Select"
+  | "Checkbox"
+  | "RadioGroup"
+  | "Slider"
+  | "DatePicker";
+
+/**
+ * UI hints read from a schema's .meta() / z.globalRegistry entry.
+ * Example: z.string().meta({ placeholder: "you@example.com", autocomplete: "email" })
+ */
+export interface FieldUIHints {
+  /** Placeholder text for inputs, textareas and selects */
+  placeholder?: string;
+
+  /** Help text shown under the label (takes precedence over description) */
+  helpText?: string;
+
+  /** Component to render instead of the type-based default */
+  widget?: FieldWidget;
+
+  /** Render order among sibling fields (CSS order semantics, default 0) */
+  order?: number;
+
+  /** Keep the field in form state but do not render it */
+  hidden?: boolean;
+
+  /** Columns of a 12-column grid the field spans (siblings default to 12) */
+  colSpan?: number;
+
+  /** HTML autocomplete token, e.g. "email" or "postal-code" */
+  autocomplete?: string;
+}
+
 /** Type-specific metadata */
 export type FieldMetadata =
   | { kind: "string" }
@@ -37,15 +80,49 @@ export type FieldMetadata =
   | { kind: "boolean" }
   | { kind: "date" }
   | { kind: "enum"; values: readonly string[] }
+  /** z.literal(); the field's type is the JS type of the first value */
+  | { kind: "literal"; values: readonly (string | number | boolean)[] }
   | { kind: "object"; fields: FieldDescriptor[] }
   | { kind: "array"; element: FieldDescriptor }
   | {
       kind: "union";
       discriminator?: string;
-      variants: { value: string; fields: FieldDescriptor[] }[];
+      variants: UnionVariant[];
     }
   | { kind: "tuple"; elements: FieldDescriptor[] }
-  | { kind: "record"; valueDescriptor: FieldDescriptor };
+  | {
+      kind: "record";
+      valueDescriptor: FieldDescriptor;
+      /**
+       * Descriptor of the key schema (named "key"). Unset means any string,
+       * as for descriptors built without one.
+       */
+      keyDescriptor?: FieldDescriptor;
+      /** Set for z.partialRecord(): enum keys may be left out */
+      partial?: boolean;
+      /**
+       * For enum keys, one value descriptor per key, named and labeled after
+       * the key. Optional when the record is partial.
+       */
+      fields?: FieldDescriptor[];
+    }
+  | {
+      kind: "recursive";
+      /**
+       * Dot-separated path of the ancestor object this field refers back to,
+       * built from descriptor names ("" for the root form object).
+       */
+      ref: string;
+    };
+
+/**
+ * One option of a union. `value` is the discriminator literal as a string, or
+ * "variant_N" for unions without a discriminator.
+ */
+export interface UnionVariant {
+  value: string;
+  fields: FieldDescriptor[];
+}
 
 /** Single field descriptor */
 export interface FieldDescriptor {
@@ -58,6 +135,9 @@ export interface FieldDescriptor {
   /** Description from schema.describe() */
   description?: string;
 
+  /** UI hints from .meta() */
+  ui?: FieldUIHints;
+
   /** Core type after unwrapping optional/nullable */
   type: FieldType;
 
@@ -67,6 +147,18 @@ export interface FieldDescriptor {
   /** Whether wrapped in z.nullable() */
   isNullable: boolean;
 
+  /**
+   * Value declared with .default() / .prefault(). Function defaults are
+   * evaluated once during introspection.
+   */
+  defaultValue?: unknown;
+
+  /**
+   * Set when defaultValue comes from .prefault(), whose value is parsed by
+   * the inner schema instead of being returned as is.
+   */
+  prefault?: boolean;
+
   /** Validation constraints */
   constraints: FieldConstraints;
 
@@ -82,6 +174,18 @@ export interface FieldDescriptor {
   schemaRef?: string;
 }
 
+/** Value a step condition compares a field against */
+export type StepConditionValue = string | number | boolean;
+
+/** Makes a wizard step active only while a field holds one of the given values */
+export interface StepCondition {
+  /** Dotted path of the field to test, e.g. "kind" or "applicant.type" */
+  field: string;
+
+  /** Value, or list of values, for which the step is shown */
+  equals: StepConditionValue | StepConditionValue[];
+}
+
 /** A single step in a multi-step (wizard) form */
 export interface FormStep {
   /** Unique identifier for the step */
@@ -93,27 +197,66 @@ export interface FormStep {
   /** Optional description for the step */
   description?: string;
 
-  /** Field names belonging to this step */
+  /** Field paths belonging to this step ("address" or "address.city") */
   fields: string[];
+
+  /** When set, the step is skipped unless the condition holds */
+  condition?: StepCondition;
+}
+
+/** Variants of a form generated from a top-level union schema */
+export interface FormUnion {
+  /** Key shared by every variant, set for z.discriminatedUnion() */
+  discriminator?: string;
+
+  /** Object options of the union, in declaration order */
+  variants: UnionVariant[];
 }
 
+/** Refinement declared on the root z.object(), e.g. with .refine() */
+export interface FormRefinement {
+  /** Top-level fields the refinement reads; undefined when they could not be determined */
+  fields?: string[];
+}
+
+/** Browser storage that wizard drafts are saved to by default */
+export type DraftStorageKind = "local" | "session";
+
 /** Complete form descriptor */
 export interface FormDescriptor {
   /** Form name for the generated component */
   name: string;
 
-  /** All fields in order */
+  /** All fields in order (empty when the root schema is a union) */
   fields: FieldDescriptor[];
 
+  /** Root variants, present when the top-level schema is a union of objects */
+  union?: FormUnion;
+
+  /**
+   * Refinements of the root object in declaration order. Only set when the
+   * root schema is a plain z.object(), whose shape can be sliced per step.
+   */
+  refinements?: FormRefinement[];
+
   /** Import path for the schema */
   schemaImportPath: string;
 
   /** Exported schema name */
   schemaExportName: string;
 
-  /** Warnings from introspection (e.g., skipped features) */
+  /** Warnings from introspection (e.g., skipped features), formatted as text */
   warnings: string[];
 
+  /** Structured form of `warnings`, one diagnostic per warning */
+  diagnostics: Diagnostic[];
+
   /** Steps for multi-step (wizard) form generation. When undefined, a single-step form is generated. */
   steps?: FormStep[];
+
+  /** Adds a final read-only review step to wizard forms */
+  review?: boolean;
+
+  /** Saves wizard progress as a draft in this browser storage */
+  persist?: DraftStorageKind;
 }
@@ -0,0 +1,60 @@
+import type { FieldUIHints, FieldWidget } from "./types";
+
+const WIDGETS = new Set<FieldWidget>([
+  "Input",
+  "Textarea",
+  "Select",
+  "Checkbox",
+  "RadioGroup",
+  "Slider",
+  "DatePicker",
+]);
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Extracts typed UI hints from a schema's registry metadata.
+ * Keys with the wrong type are skipped and their names pushed to `invalidKeys`.
+ * Returns undefined when no hint is present.
+ */
+export function extractUIHints(
+  meta: Record<string, unknown> | undefined,
+  invalidKeys?: string[],
+): FieldUIHints | undefined {
+  if (!meta) {
+    return undefined;
+  }
+
+  const hints: FieldUIHints = {};
+
+  function read<K extends keyof FieldUIHints>(
+    key: K,
+    isValid: (value: unknown) => value is FieldUIHints[K],
+  ): void {
+    const value = meta?.[key];
+    if (value === undefined) return;
+    if (isValid(value)) {
+      hints[key] = value;
+    } else {
+      invalidKeys?.push(key);
+    }
+  }
+
+  read("placeholder", isNonEmptyString);
+  read("helpText", isNonEmptyString);
+  read("autocomplete", isNonEmptyString);
+  read("widget", (v): v is FieldWidget => WIDGETS.has(v as FieldWidget));
+  read(
+    "order",
+    (v): v is number => typeof v === "number" && Number.isFinite(v),
+  );
+  read("hidden", (v): v is boolean => typeof v === "boolean");
+  read(
+    "colSpan",
+    (v): v is number => typeof v === "number" && Number.isInteger(v) && v > 0,
+  );
+
+  return Object.keys(hints).length > 0 ? hints : undefined;
+}
@@ -1,4 +1,4 @@
-import type { $ZodType } from "zod/v4/core";
+import { type $ZodType, globalRegistry } from "zod/v4/core";
 
 export interface UnwrapResult {
   /** The innermost non-wrapper schema */
@@ -7,6 +7,20 @@ export interface UnwrapResult {
   isOptional: boolean;
   /** Whether z.nullable() was present */
   isNullable: boolean;
+  /** Value declared by the outermost .default() / .prefault() wrapper */
+  defaultValue?: unknown;
+  /** Whether that wrapper is .prefault() */
+  prefault?: boolean;
+  /**
+   * Whether that wrapper computes a new value on every parse, e.g.
+   * `.default(() => new Date())`; its value is left out of `defaultValue`
+   */
+  dynamicDefault?: boolean;
+  /**
+   * Registry metadata (.meta() / .describe()) merged across every wrapper
+   * layer; outer layers win over inner ones.
+   */
+  meta?: Record<string, unknown>;
 }
 
 /** Type guard to check if schema has unwrap method */
@@ -42,8 +56,52 @@ function isValidZod4Schema(schema: unknown): schema is $ZodType {
 }
 
 /**
- * Unwraps optional and nullable wrappers from a Zod schema.
- * Handles: z.optional(), z.nullable(), z.nullish() (optional + nullable)
+ * Merges a schema's registry metadata under the metadata collected so far.
+ */
+function mergeMeta(
+  collected: Record<string, unknown> | undefined,
+  schema: $ZodType,
+): Record<string, unknown> | undefined {
+  const layer = globalRegistry.get(schema) as
+    | Record<string, unknown>
+    | undefined;
+  if (!layer) return collected;
+  return { ...layer, ...collected };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Compares two reads of a default. Zod shallow-clones plain object and array
+ * defaults on each read, so those are compared by content; anything else
+ * (including a Date) must be the very same value.
+ */
+function sameDefault(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => Object.is(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && Object.is(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Unwraps optional, nullable, default and lazy wrappers from a Zod schema.
+ * Handles: z.optional(), z.nullable(), z.nullish() (optional + nullable),
+ * .default() / .prefault() (the outermost declared value is recorded unless
+ * a function computes a new one on every read),
+ * z.lazy() (resolved through the cached inner type so recursive references
+ * keep their identity)
  */
 export function unwrapSchema(schema: $ZodType): UnwrapResult {
   if (!isValidZod4Schema(schema)) {
@@ -53,16 +111,48 @@ export function unwrapSchema(schema: $ZodType): UnwrapResult {
   let current = schema;
   let isOptional = false;
   let isNullable = false;
+  let hasDefault = false;
+  let defaultValue: unknown;
+  let prefault = false;
+  let dynamicDefault = false;
+  let meta: Record<string, unknown> | undefined;
 
-  // Unwrap nested optional/nullable wrappers
+  // Unwrap nested optional/nullable/default/prefault/lazy wrappers
   while (
     current._zod.def.type === "optional" ||
-    current._zod.def.type === "nullable"
+    current._zod.def.type === "nullable" ||
+    current._zod.def.type === "default" ||
+    current._zod.def.type === "prefault" ||
+    current._zod.def.type === "lazy"
   ) {
+    meta = mergeMeta(meta, current);
+
+    if (current._zod.def.type === "lazy") {
+      const innerType = (current._zod as { innerType?: unknown }).innerType;
+      if (!isValidZod4Schema(innerType)) {
+        throw new Error("lazy schema did not resolve to a valid Zod 4 schema");
+      }
+      current = innerType;
+      continue;
+    }
+
     if (current._zod.def.type === "optional") {
       isOptional = true;
-    } else {
+    } else if (current._zod.def.type === "nullable") {
       isNullable = true;
+    } else if (!hasDefault) {
+      // Constant and function defaults are both read through a getter that
+      // calls the function; a function computing a new value each time
+      // (a timestamp, an id) shows up as two reads that differ
+      hasDefault = true;
+      prefault = current._zod.def.type === "prefault";
+      const def = current._zod.def as { defaultValue?: unknown };
+      const value = def.defaultValue;
+      if (sameDefault(value, def.defaultValue)) {
+        defaultValue = value;
+      } else {
+        dynamicDefault = true;
+      }
     }
 
     if (!hasUnwrap(current)) {
@@ -71,9 +161,15 @@ export function unwrapSchema(schema: $ZodType): UnwrapResult {
     current = current.unwrap();
   }
 
+  meta = mergeMeta(meta, current);
+
   return {
     inner: current,
     isOptional,
     isNullable,
+    ...(defaultValue !== undefined ? { defaultValue } : {}),
+    ...(defaultValue !== undefined && prefault ? { prefault } : {}),
+    ...(dynamicDefault ? { dynamicDefault } : {}),
+    ...(meta ? { meta } : {}),
   };
 }
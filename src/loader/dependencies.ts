@@ -0,0 +1,39 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ImportResolver } from "./resolve";
+import { createImportResolver } from "./typescript";
+
+/** Static imports, re-exports and literal dynamic imports */
+const IMPORT_PATTERN =
+  /(?:\bimport\s*(?:[\w*{}\s,$]+\s*from\s*)?|\bexport\s*[\w*{}\s,$]*\s*from\s*|\bimport\s*\(\s*)["']([^"']+)["']/g;
+
+/**
+ * Collects a module and every local file it transitively imports, including
+ * imports through tsconfig path aliases. Package imports are not followed.
+ * The entry is always included.
+ */
+export function collectDependencies(
+  entryPath: string,
+  resolveImport: ImportResolver = createImportResolver(entryPath),
+): Set<string> {
+  const seen = new Set<string>();
+  const pending = [path.resolve(entryPath)];
+
+  while (pending.length > 0) {
+    const filePath = pending.pop() as string;
+    if (seen.has(filePath)) continue;
+    seen.add(filePath);
+
+    if (!fs.existsSync(filePath)) continue;
+    const source = fs.readFileSync(filePath, "utf-8");
+
+    for (const match of source.matchAll(IMPORT_PATTERN)) {
+      const resolved = resolveImport(match[1], filePath);
+      if (resolved && !seen.has(resolved)) {
+        pending.push(resolved);
+      }
+    }
+  }
+
+  return seen;
+}
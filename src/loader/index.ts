@@ -0,0 +1,15 @@
+export { collectDependencies } from "./dependencies";
+export { loadModule } from "./module-loader";
+export { type ImportResolver, resolveLocalImport } from "./resolve";
+export {
+  type AliasMatch,
+  type PathMappings,
+  readPathMappings,
+  resolveAlias,
+} from "./tsconfig";
+export {
+  compileModuleGraph,
+  createImportResolver,
+  isTypeScriptFile,
+  requireTypeScript,
+} from "./typescript";
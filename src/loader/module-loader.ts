@@ -0,0 +1,96 @@
+import * as fs from "node:fs";
+import { register } from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { compileModuleGraph, isTypeScriptFile } from "./typescript";
+
+const VERSION_PARAM = "kelex-v";
+
+/**
+ * Resolve hook that propagates the version query of a versioned parent module
+ * to the local files it imports, so a fresh import re-evaluates the whole
+ * graph instead of only the entry module. Packages under node_modules keep
+ * their cached instances.
+ */
+const VERSION_HOOK = `
+export async function resolve(specifier, context, nextResolve) {
+  const result = await nextResolve(specifier, context);
+  const match = context.parentURL && /[?&]${VERSION_PARAM}=(\\d+)/.exec(context.parentURL);
+  if (
+    !match ||
+    !result.url.startsWith("file:") ||
+    result.url.includes("/node_modules/") ||
+    /[?&]${VERSION_PARAM}=/.test(result.url)
+  ) {
+    return result;
+  }
+  const separator = result.url.includes("?") ? "&" : "?";
+  return { ...result, url: result.url + separator + "${VERSION_PARAM}=" + match[1] };
+}
+`;
+
+let hookRegistered = false;
+let version = 0;
+let buildCount = 0;
+
+function registerVersionHook(): void {
+  if (hookRegistered) return;
+  register(`data:text/javascript,${encodeURIComponent(VERSION_HOOK)}`);
+  hookRegistered = true;
+}
+
+/**
+ * Creates an empty directory for one compilation of a TypeScript module
+ * graph. It lives under the node_modules closest to the entry so compiled
+ * files resolve the project's packages; the OS temp dir is the fallback.
+ */
+function createBuildDir(entryPath: string): string {
+  buildCount += 1;
+  const name = `${process.pid}-${buildCount}`;
+
+  for (let dir = path.dirname(entryPath); ; dir = path.dirname(dir)) {
+    const nodeModules = path.join(dir, "node_modules");
+    if (fs.existsSync(nodeModules)) {
+      return path.join(nodeModules, ".cache", "kelex", name);
+    }
+    if (path.dirname(dir) === dir) break;
+  }
+  return path.join(os.tmpdir(), "kelex", name);
+}
+
+/**
+ * Dynamically imports a module by file path.
+ *
+ * TypeScript modules (.ts, .tsx, .mts) are transpiled together with their
+ * local imports, resolving tsconfig `paths` and `baseUrl`; every load
+ * compiles the current sources, so they are always fresh.
+ *
+ * With `fresh`, JavaScript modules bypass Node's ES module cache for the
+ * module and every local file it imports, picking up edits made since the
+ * last load.
+ */
+export async function loadModule(
+  filePath: string,
+  fresh = false,
+): Promise<Record<string, unknown>> {
+  if (isTypeScriptFile(filePath)) {
+    const buildDir = createBuildDir(filePath);
+    try {
+      const compiled = compileModuleGraph(filePath, buildDir);
+      return await import(pathToFileURL(compiled).href);
+    } finally {
+      fs.rmSync(buildDir, { recursive: true, force: true });
+    }
+  }
+
+  const url = pathToFileURL(filePath).href;
+
+  if (!fresh) {
+    return import(url);
+  }
+
+  registerVersionHook();
+  version += 1;
+  return import(`${url}?${VERSION_PARAM}=${version}`);
+}
@@ -0,0 +1,71 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/** Resolves an import specifier to a local source file, or undefined */
+export type ImportResolver = (
+  specifier: string,
+  fromFile: string,
+) => string | undefined;
+
+const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+/** TypeScript allows importing a .ts file through its emitted .js name */
+const EMITTED_TO_SOURCE: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+function isFile(filePath: string): boolean {
+  return fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+}
+
+/**
+ * Resolves an absolute module path the way TypeScript does: the exact file,
+ * then TypeScript extension substitution, implicit extensions and index files.
+ */
+export function resolveSourceFile(basePath: string): string | undefined {
+  const ext = path.extname(basePath);
+  const candidates = [basePath];
+
+  for (const sourceExt of EMITTED_TO_SOURCE[ext] ?? []) {
+    candidates.push(basePath.slice(0, -ext.length) + sourceExt);
+  }
+  for (const sourceExt of SOURCE_EXTENSIONS) {
+    candidates.push(basePath + sourceExt);
+  }
+  for (const sourceExt of SOURCE_EXTENSIONS) {
+    candidates.push(path.join(basePath, `index${sourceExt}`));
+  }
+
+  return candidates.find(isFile);
+}
+
+/**
+ * Resolves a relative or absolute import specifier to a source file.
+ * Returns undefined for bare (package) specifiers and unresolvable paths.
+ */
+export function resolveLocalImport(
+  specifier: string,
+  fromFile: string,
+): string | undefined {
+  if (!isLocalSpecifier(specifier)) {
+    return undefined;
+  }
+  return resolveSourceFile(path.resolve(path.dirname(fromFile), specifier));
+}
+
+/** Whether a specifier is a relative or absolute path rather than a package */
+export function isLocalSpecifier(specifier: string): boolean {
+  return specifier.startsWith(".") || path.isAbsolute(specifier);
+}
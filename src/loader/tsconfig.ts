@@ -0,0 +1,131 @@
+import * as path from "node:path";
+import type * as TS from "typescript";
+import { resolveSourceFile } from "./resolve";
+
+/** Module resolution settings read from a tsconfig.json */
+export interface PathMappings {
+  /** The tsconfig.json the settings were read from */
+  configPath: string;
+
+  /** Absolute baseUrl, when set */
+  baseUrl?: string;
+
+  /** Directory `paths` targets are relative to */
+  pathsBase: string;
+
+  /** `paths` patterns and their target patterns */
+  paths: Record<string, string[]>;
+
+  /** All compiler options, after following `extends` */
+  compilerOptions: TS.CompilerOptions;
+}
+
+/** Result of matching a specifier against tsconfig paths */
+export interface AliasMatch {
+  /** The `paths` pattern that matched, or "baseUrl" */
+  pattern: string;
+
+  /** The resolved source file, if any candidate exists */
+  file?: string;
+}
+
+/**
+ * Reads compiler options from a tsconfig.json, following `extends`.
+ * Only options are parsed; the project's file list is not enumerated.
+ *
+ * @throws Error if the tsconfig cannot be read or parsed
+ */
+export function readPathMappings(
+  ts: typeof TS,
+  configPath: string,
+): PathMappings {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(
+      `Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`,
+    );
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(
+    config,
+    { ...ts.sys, readDirectory: () => [] },
+    path.dirname(configPath),
+    undefined,
+    configPath,
+  );
+  const options = parsed.options;
+  // pathsBasePath is set by TypeScript to the directory of the config that
+  // declared `paths`, which differs from configPath when it was inherited
+  const pathsBasePath = (options as { pathsBasePath?: string }).pathsBasePath;
+
+  return {
+    configPath,
+    baseUrl: options.baseUrl,
+    pathsBase: options.baseUrl ?? pathsBasePath ?? path.dirname(configPath),
+    paths: options.paths ?? {},
+    compilerOptions: options,
+  };
+}
+
+/**
+ * Matches a bare specifier against tsconfig `paths` (longest prefix wins, as
+ * in TypeScript) and then `baseUrl`. Returns undefined when neither applies.
+ */
+export function resolveAlias(
+  specifier: string,
+  mappings: PathMappings,
+): AliasMatch | undefined {
+  let best:
+    | { pattern: string; captured: string; prefixLength: number }
+    | undefined;
+
+  for (const pattern of Object.keys(mappings.paths)) {
+    const star = pattern.indexOf("*");
+    if (star === -1) {
+      // Exact patterns take priority over any wildcard
+      if (pattern === specifier) {
+        best = {
+          pattern,
+          captured: "",
+          prefixLength: Number.POSITIVE_INFINITY,
+        };
+      }
+      continue;
+    }
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      best = {
+        pattern,
+        captured: specifier.slice(
+          prefix.length,
+          specifier.length - suffix.length,
+        ),
+        prefixLength: prefix.length,
+      };
+    }
+  }
+
+  if (best) {
+    for (const target of mappings.paths[best.pattern]) {
+      const file = resolveSourceFile(
+        path.resolve(mappings.pathsBase, target.replace("*", best.captured)),
+      );
+      if (file) return { pattern: best.pattern, file };
+    }
+    return { pattern: best.pattern };
+  }
+
+  if (mappings.baseUrl) {
+    const file = resolveSourceFile(path.resolve(mappings.baseUrl, specifier));
+    if (file) return { pattern: "baseUrl", file };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,256 @@
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import type * as TS from "typescript";
+import {
+  type ImportResolver,
+  isLocalSpecifier,
+  resolveLocalImport,
+} from "./resolve";
+import { type PathMappings, readPathMappings, resolveAlias } from "./tsconfig";
+
+const TYPESCRIPT_FILE = /\.(ts|tsx|mts)$/;
+
+/** Local modules compiled along with the entry; others are imported as-is */
+const COMPILED_FILE = /\.(ts|tsx|mts|js|jsx|mjs)$/;
+
+/** Whether a path is a TypeScript module kelex transpiles itself */
+export function isTypeScriptFile(filePath: string): boolean {
+  return TYPESCRIPT_FILE.test(filePath) && !filePath.endsWith(".d.ts");
+}
+
+/**
+ * Loads the TypeScript compiler, preferring the copy installed in the project
+ * that contains `fromFile` so its version matches the project's tsconfig.
+ *
+ * @throws Error if typescript is not installed
+ */
+export function requireTypeScript(fromFile: string): typeof TS {
+  for (const base of [fromFile, import.meta.url]) {
+    try {
+      return createRequire(base)("typescript");
+    } catch {
+      // Try the next location
+    }
+  }
+  throw new Error(
+    `Loading TypeScript files requires the "typescript" package. Install it in the project containing ${fromFile}.`,
+  );
+}
+
+/**
+ * Reads the tsconfig.json closest to a file, or returns undefined when there
+ * is none.
+ */
+export function findPathMappings(
+  ts: typeof TS,
+  filePath: string,
+): PathMappings | undefined {
+  const configPath = ts.findConfigFile(
+    path.dirname(filePath),
+    ts.sys.fileExists,
+  );
+  return configPath ? readPathMappings(ts, configPath) : undefined;
+}
+
+/**
+ * Creates a resolver for the local imports of a module graph: relative paths
+ * plus, for TypeScript entries, the `paths` and `baseUrl` of the nearest
+ * tsconfig.json. Aliases are skipped when typescript is not installed.
+ */
+export function createImportResolver(entryPath: string): ImportResolver {
+  let mappings: PathMappings | undefined;
+  if (isTypeScriptFile(entryPath)) {
+    try {
+      mappings = findPathMappings(requireTypeScript(entryPath), entryPath);
+    } catch {
+      mappings = undefined;
+    }
+  }
+
+  return (specifier, fromFile) =>
+    resolveLocalImport(specifier, fromFile) ??
+    (mappings && !isLocalSpecifier(specifier)
+      ? resolveAlias(specifier, mappings)?.file
+      : undefined);
+}
+
+/**
+ * Rewrites the specifiers of static imports, re-exports and literal dynamic
+ * imports. Runs after TypeScript's own transforms so elided type-only
+ * imports are never resolved.
+ */
+function specifierTransformer(
+  ts: typeof TS,
+  rewrite: (specifier: string) => string,
+): TS.TransformerFactory<TS.SourceFile> {
+  return (context) => (sourceFile) => {
+    const { factory } = context;
+
+    const visit = (node: TS.Node): TS.Node => {
+      if (
+        ts.isImportDeclaration(node) &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        return factory.updateImportDeclaration(
+          node,
+          node.modifiers,
+          node.importClause,
+          factory.createStringLiteral(rewrite(node.moduleSpecifier.text)),
+          node.attributes,
+        );
+      }
+      if (
+        ts.isExportDeclaration(node) &&
+        node.moduleSpecifier &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        return factory.updateExportDeclaration(
+          node,
+          node.modifiers,
+          node.isTypeOnly,
+          node.exportClause,
+          factory.createStringLiteral(rewrite(node.moduleSpecifier.text)),
+          node.attributes,
+        );
+      }
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments.length > 0 &&
+        ts.isStringLiteral(node.arguments[0])
+      ) {
+        return factory.updateCallExpression(
+          node,
+          node.expression,
+          node.typeArguments,
+          [
+            factory.createStringLiteral(rewrite(node.arguments[0].text)),
+            ...node.arguments.slice(1),
+          ],
+        );
+      }
+      return ts.visitEachChild(node, visit, context);
+    };
+
+    return ts.visitNode(sourceFile, visit) as TS.SourceFile;
+  };
+}
+
+function formatDiagnostic(ts: typeof TS, diagnostic: TS.Diagnostic): string {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return message;
+  }
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start,
+  );
+  return `${diagnostic.file.fileName}:${line + 1}:${character + 1} - ${message}`;
+}
+
+/**
+ * Transpiles a module and every local module it imports into `outDir` as ES
+ * modules, rewriting relative and tsconfig-aliased imports to the compiled
+ * files. Package imports are left untouched and resolve from the original
+ * project when `outDir` sits inside its node_modules.
+ * Returns the path of the compiled entry.
+ *
+ * @throws Error naming the importing file when an import cannot be resolved
+ *   or a module has syntax errors
+ */
+export function compileModuleGraph(entryPath: string, outDir: string): string {
+  const ts = requireTypeScript(entryPath);
+  const mappings = findPathMappings(ts, entryPath);
+  const compilerOptions: TS.CompilerOptions = {
+    ...mappings?.compilerOptions,
+    module: ts.ModuleKind.ESNext,
+    target: ts.ScriptTarget.ES2022,
+    jsx:
+      mappings?.compilerOptions.jsx === undefined ||
+      mappings.compilerOptions.jsx === ts.JsxEmit.Preserve
+        ? ts.JsxEmit.ReactJSX
+        : mappings.compilerOptions.jsx,
+    verbatimModuleSyntax: false,
+    isolatedModules: true,
+    declaration: false,
+    sourceMap: false,
+    inlineSourceMap: false,
+    noEmit: false,
+    emitDeclarationOnly: false,
+    // Project layout options do not apply to single-file transpilation
+    rootDir: undefined,
+    rootDirs: undefined,
+    outDir: undefined,
+    outFile: undefined,
+    composite: false,
+    incremental: false,
+  };
+
+  const outputs = new Map<string, string>();
+  const pending: string[] = [];
+
+  const outputFor = (sourcePath: string): string => {
+    let outputPath = outputs.get(sourcePath);
+    if (!outputPath) {
+      const base = path.basename(sourcePath).replace(/\.[^.]+$/, "");
+      outputPath = path.join(outDir, `${outputs.size}-${base}.mjs`);
+      outputs.set(sourcePath, outputPath);
+      pending.push(sourcePath);
+    }
+    return outputPath;
+  };
+
+  const entry = path.resolve(entryPath);
+  outputFor(entry);
+  fs.mkdirSync(outDir, { recursive: true });
+
+  while (pending.length > 0) {
+    const sourcePath = pending.pop() as string;
+
+    const rewrite = (specifier: string): string => {
+      const local = isLocalSpecifier(specifier);
+      const alias =
+        !local && mappings ? resolveAlias(specifier, mappings) : undefined;
+      if (!local && !alias) {
+        return specifier;
+      }
+
+      const file = local
+        ? resolveLocalImport(specifier, sourcePath)
+        : alias?.file;
+      if (!file) {
+        const via =
+          alias && mappings
+            ? ` (tsconfig paths "${alias.pattern}" in ${mappings.configPath})`
+            : "";
+        throw new Error(
+          `Cannot resolve "${specifier}" imported from ${sourcePath}${via}`,
+        );
+      }
+      return pathToFileURL(COMPILED_FILE.test(file) ? outputFor(file) : file)
+        .href;
+    };
+
+    const result = ts.transpileModule(fs.readFileSync(sourcePath, "utf-8"), {
+      compilerOptions,
+      fileName: sourcePath,
+      reportDiagnostics: true,
+      transformers: { after: [specifierTransformer(ts, rewrite)] },
+    });
+
+    // Only syntax errors in the file matter; option diagnostics are noise here
+    const errors = (result.diagnostics ?? []).filter(
+      (d) => d.file && d.category === ts.DiagnosticCategory.Error,
+    );
+    if (errors.length > 0) {
+      throw new Error(
+        `Failed to compile ${sourcePath}:\n${errors.map((d) => `  ${formatDiagnostic(ts, d)}`).join("\n")}`,
+      );
+    }
+
+    fs.writeFileSync(outputs.get(sourcePath) as string, result.outputText);
+  }
+
+  return outputs.get(entry) as string;
+}
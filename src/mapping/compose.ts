@@ -0,0 +1,27 @@
+import { defaultMappingRules } from "./default-map";
+import type { MappingRule, MappingRuleOptions } from "./types";
+
+/**
+ * Builds a rule list from a base list (the defaults unless given) and
+ * prepend/append/replace customizations.
+ *
+ * @throws Error if a replacement names a rule that is not in the base list
+ */
+export function composeMappingRules(
+  options: MappingRuleOptions = {},
+  base: MappingRule[] = defaultMappingRules,
+): MappingRule[] {
+  const replacements = new Map<string, MappingRule>();
+  for (const rule of options.replace ?? []) {
+    if (!base.some((r) => r.name === rule.name)) {
+      throw new Error(`Cannot replace unknown mapping rule "${rule.name}"`);
+    }
+    replacements.set(rule.name, rule);
+  }
+
+  return [
+    ...(options.prepend ?? []),
+    ...base.map((rule) => replacements.get(rule.name) ?? rule),
+    ...(options.append ?? []),
+  ];
+}
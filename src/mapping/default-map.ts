@@ -1,11 +1,92 @@
 import type { FieldDescriptor } from "../introspection";
 import type { MappingRule } from "./types";
 
+/**
+ * Returns the input type for a string field based on its format.
+ */
+function stringInputType(f: FieldDescriptor): string {
+  if (f.constraints.format === "email") return "email";
+  if (f.constraints.format === "url") return "url";
+  return "text";
+}
+
+/**
+ * Rules honoring an explicit `widget` UI hint from .meta(). Each applies only
+ * when the requested component can render the field's type; otherwise the
+ * type-based rules below take over.
+ */
+const widgetRules: MappingRule[] = [
+  {
+    name: "widget-input",
+    match: (f) =>
+      f.ui?.widget === "Input" && (f.type === "string" || f.type === "number"),
+    component: "Input",
+    getProps: (f) =>
+      f.type === "number"
+        ? {
+            type: "number",
+            min: f.constraints.min,
+            max: f.constraints.max,
+            step: f.constraints.step,
+          }
+        : {
+            type: stringInputType(f),
+            minLength: f.constraints.minLength,
+            maxLength: f.constraints.maxLength,
+            pattern: f.constraints.pattern,
+          },
+  },
+  {
+    name: "widget-textarea",
+    match: (f) => f.ui?.widget === "Textarea" && f.type === "string",
+    component: "Textarea",
+    getProps: (f) => ({ maxLength: f.constraints.maxLength }),
+  },
+  {
+    name: "widget-select",
+    match: (f) => f.ui?.widget === "Select" && f.metadata.kind === "enum",
+    component: "Select",
+    getProps: (f) =>
+      f.metadata.kind === "enum" ? { options: f.metadata.values } : {},
+  },
+  {
+    name: "widget-radio-group",
+    match: (f) => f.ui?.widget === "RadioGroup" && f.metadata.kind === "enum",
+    component: "RadioGroup",
+    getProps: (f) =>
+      f.metadata.kind === "enum" ? { options: f.metadata.values } : {},
+  },
+  {
+    name: "widget-checkbox",
+    match: (f) => f.ui?.widget === "Checkbox" && f.type === "boolean",
+    component: "Checkbox",
+    getProps: () => ({}),
+  },
+  {
+    name: "widget-slider",
+    match: (f) => f.ui?.widget === "Slider" && f.type === "number",
+    component: "Slider",
+    getProps: (f) => ({
+      min: f.constraints.min ?? 0,
+      max: f.constraints.max ?? 100,
+      step: f.constraints.step ?? 1,
+    }),
+  },
+  {
+    name: "widget-date-picker",
+    match: (f) => f.ui?.widget === "DatePicker" && f.type === "date",
+    component: "DatePicker",
+    getProps: () => ({}),
+  },
+];
+
 /**
  * Default mapping rules applied in order.
- * First matching rule wins.
+ * First matching rule wins. Widget hints are consulted before type-based rules.
  */
 export const defaultMappingRules: MappingRule[] = [
+  ...widgetRules,
+
   // Composite types first (before scalar rules)
 
   // 1. Object -> Fieldset
@@ -40,7 +121,16 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: () => ({}),
   },
 
-  // 5. Record -> FieldArray (key-value pairs)
+  // 5. Record with enum keys -> Fieldset (one field per key)
+  {
+    name: "record-enum-fieldset",
+    match: (f) =>
+      f.metadata.kind === "record" && f.metadata.fields !== undefined,
+    component: "Fieldset",
+    getProps: () => ({}),
+  },
+
+  // 6. Record -> FieldArray (key-value pairs)
   {
     name: "record-field-array",
     match: (f) => f.type === "record",
@@ -48,9 +138,22 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: () => ({}),
   },
 
+  // 7. Recursive -> RecursiveFieldset (renders the ancestor's sub-form)
+  {
+    name: "recursive-fieldset",
+    match: (f) => f.type === "recursive",
+    component: "RecursiveFieldset",
+    getProps: (f) => {
+      if (f.metadata.kind === "recursive") {
+        return { ref: f.metadata.ref };
+      }
+      return {};
+    },
+  },
+
   // Scalar types
 
-  // 6. Boolean -> Checkbox
+  // 8. Boolean -> Checkbox
   {
     name: "boolean-checkbox",
     match: (f) => f.type === "boolean",
@@ -58,7 +161,7 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: () => ({}),
   },
 
-  // 7. Enum (<=4 values) -> RadioGroup
+  // 9. Enum (<=4 values) -> RadioGroup
   {
     name: "enum-radio-group",
     match: (f) =>
@@ -74,7 +177,7 @@ export const defaultMappingRules: MappingRule[] = [
     },
   },
 
-  // 8. Enum (>4 values) -> Select
+  // 10. Enum (>4 values) -> Select
   {
     name: "enum-select",
     match: (f) => f.type === "enum",
@@ -87,7 +190,7 @@ export const defaultMappingRules: MappingRule[] = [
     },
   },
 
-  // 9. Date -> DatePicker
+  // 11. Date -> DatePicker
   {
     name: "date-picker",
     match: (f) => f.type === "date",
@@ -95,7 +198,7 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: () => ({}),
   },
 
-  // 10. Number (bounded range <=100) -> Slider
+  // 12. Number (bounded range <=100) -> Slider
   {
     name: "number-slider",
     match: (f) => {
@@ -112,7 +215,7 @@ export const defaultMappingRules: MappingRule[] = [
     }),
   },
 
-  // 11. Number -> Input[number]
+  // 13. Number -> Input[number]
   {
     name: "number-input",
     match: (f) => f.type === "number",
@@ -125,7 +228,7 @@ export const defaultMappingRules: MappingRule[] = [
     }),
   },
 
-  // 12. String (email) -> Input[email]
+  // 14. String (email) -> Input[email]
   {
     name: "string-email",
     match: (f) => f.type === "string" && f.constraints.format === "email",
@@ -133,7 +236,7 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: () => ({ type: "email" }),
   },
 
-  // 13. String (url) -> Input[url]
+  // 15. String (url) -> Input[url]
   {
     name: "string-url",
     match: (f) => f.type === "string" && f.constraints.format === "url",
@@ -141,7 +244,7 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: () => ({ type: "url" }),
   },
 
-  // 14. String (long, maxLength > 100) -> Textarea
+  // 16. String (long, maxLength > 100) -> Textarea
   {
     name: "string-textarea",
     match: (f) => {
@@ -153,7 +256,7 @@ export const defaultMappingRules: MappingRule[] = [
     getProps: (f) => ({ maxLength: f.constraints.maxLength }),
   },
 
-  // 15. String (default) -> Input[text]
+  // 17. String (default) -> Input[text]
   {
     name: "string-default",
     match: (f) => f.type === "string",
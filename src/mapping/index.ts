@@ -1,3 +1,11 @@
+export { composeMappingRules } from "./compose";
 export { defaultMappingRules, findMatchingRule } from "./default-map";
 export { resolveField } from "./resolver";
-export type { ComponentConfig, ComponentType, MappingRule } from "./types";
+export type {
+  ComponentConfig,
+  ComponentType,
+  FieldOverride,
+  FieldOverrides,
+  MappingRule,
+  MappingRuleOptions,
+} from "./types";
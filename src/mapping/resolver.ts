@@ -1,40 +1,67 @@
+import type { Diagnostic } from "../diagnostics";
 import type { FieldDescriptor } from "../introspection";
 import { defaultMappingRules, findMatchingRule } from "./default-map";
-import type { ComponentConfig, MappingRule } from "./types";
+import type { ComponentConfig, FieldOverrides, MappingRule } from "./types";
 
 /**
  * Resolves a FieldDescriptor to a ComponentConfig using mapping rules.
  * For composite types, recursively resolves child fields and attaches
  * child configs via componentProps.
  *
- * @throws Error if no rule matches the field
+ * Overrides are looked up by the field's dot path, built from `parentPath`
+ * and the descriptor names below it. Non-fatal problems, such as a `widget`
+ * UI hint the matched rule could not honor, are pushed to `diagnostics`.
+ *
+ * @throws Error if no rule matches the field and no override names a component,
+ * or if an override renders a Select or RadioGroup without options
  */
 export function resolveField(
   field: FieldDescriptor,
   rules: MappingRule[] = defaultMappingRules,
+  overrides: FieldOverrides = {},
+  parentPath = "",
+  diagnostics: Diagnostic[] = [],
 ): ComponentConfig {
+  const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+  const override = Object.hasOwn(overrides, path) ? overrides[path] : undefined;
   const matchedRule = findMatchingRule(field, rules);
+  const component = override?.component ?? matchedRule?.component;
 
-  if (!matchedRule) {
+  if (!component) {
     throw new Error(
       `No mapping rule matched field "${field.name}" of type "${field.type}"`,
     );
   }
 
-  const props = matchedRule.getProps(field);
+  const widget = field.ui?.widget;
+  if (widget && !override?.component && component !== widget) {
+    diagnostics.push({
+      code: "ignored-widget-hint",
+      severity: "warning",
+      path,
+      schemaType: field.type,
+      message: `widget hint "${widget}" does not apply to "${field.type}" fields, rendering ${component}`,
+      suggestion: `Remove the hint or override the field with { component: "${widget}" }`,
+    });
+  }
+
+  const resolve = (child: FieldDescriptor) =>
+    resolveField(child, rules, overrides, path, diagnostics);
+
+  const props = matchedRule?.getProps(field) ?? {};
 
   // For composite types, recursively resolve children
   if (field.type === "object" && field.metadata.kind === "object") {
     const childConfigs = new Map<string, ComponentConfig>();
     for (const child of field.metadata.fields) {
-      childConfigs.set(child.name, resolveField(child, rules));
+      childConfigs.set(child.name, resolve(child));
     }
     props.childConfigs = childConfigs;
     props.childFields = field.metadata.fields;
   }
 
   if (field.type === "array" && field.metadata.kind === "array") {
-    const elementConfig = resolveField(field.metadata.element, rules);
+    const elementConfig = resolve(field.metadata.element);
     props.elementConfig = elementConfig;
     props.elementField = field.metadata.element;
   }
@@ -48,7 +75,7 @@ export function resolveField(
     for (const variant of field.metadata.variants) {
       const configs = new Map<string, ComponentConfig>();
       for (const vField of variant.fields) {
-        configs.set(vField.name, resolveField(vField, rules));
+        configs.set(vField.name, resolve(vField));
       }
       variantConfigs.push({
         value: variant.value,
@@ -63,25 +90,69 @@ export function resolveField(
   if (field.type === "tuple" && field.metadata.kind === "tuple") {
     const childConfigs = new Map<string, ComponentConfig>();
     for (const elem of field.metadata.elements) {
-      childConfigs.set(elem.name, resolveField(elem, rules));
+      childConfigs.set(elem.name, resolve(elem));
     }
     props.childConfigs = childConfigs;
     props.childFields = field.metadata.elements;
   }
 
   if (field.type === "record" && field.metadata.kind === "record") {
-    const valueConfig = resolveField(field.metadata.valueDescriptor, rules);
-    props.elementConfig = valueConfig;
-    props.elementField = field.metadata.valueDescriptor;
+    const { fields, valueDescriptor } = field.metadata;
+    if (fields) {
+      const childConfigs = new Map<string, ComponentConfig>();
+      for (const child of fields) {
+        childConfigs.set(child.name, resolve(child));
+      }
+      props.childConfigs = childConfigs;
+      props.childFields = fields;
+    } else {
+      const valueConfig = resolve(valueDescriptor);
+      props.elementConfig = valueConfig;
+      props.elementField = valueDescriptor;
+    }
+  }
+
+  // UI hints that translate directly into component props
+  if (field.ui?.placeholder !== undefined) {
+    props.placeholder = field.ui.placeholder;
+  }
+  if (field.ui?.autocomplete !== undefined) {
+    props.autoComplete = field.ui.autocomplete;
+  }
+
+  // Recursive references are not expanded: codegen renders the ancestor's
+  // sub-form component, so only the ref is carried through
+  if (field.type === "recursive" && field.metadata.kind === "recursive") {
+    props.ref = field.metadata.ref;
+  }
+
+  const componentProps = { ...props, ...override?.componentProps };
+
+  // An override component takes the matched rule's props, which only carry
+  // options when the field is an enum
+  if (
+    override?.component &&
+    (component === "Select" || component === "RadioGroup")
+  ) {
+    if (field.metadata.kind === "enum" && !override.componentProps?.options) {
+      componentProps.options = field.metadata.values;
+    }
+    const { options } = componentProps;
+    if (!Array.isArray(options) || options.length === 0) {
+      throw new Error(
+        `Override for "${path}" renders ${component} but provides no componentProps.options`,
+      );
+    }
   }
 
   return {
-    component: matchedRule.component,
-    componentProps: props,
+    component,
+    componentProps,
     fieldProps: {
       label: field.label,
-      description: field.description,
+      description: field.ui?.helpText ?? field.description,
       required: !field.isOptional,
+      ...override?.fieldProps,
     },
   };
 }
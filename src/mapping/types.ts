@@ -11,7 +11,8 @@ export type ComponentType =
   | "DatePicker"
   | "Fieldset"
   | "FieldArray"
-  | "UnionSwitch";
+  | "UnionSwitch"
+  | "RecursiveFieldset";
 
 /** Configuration for rendering a single field */
 export interface ComponentConfig {
@@ -43,3 +44,38 @@ export interface MappingRule {
   /** Returns component-specific props */
   getProps: (field: FieldDescriptor) => Record<string, unknown>;
 }
+
+/**
+ * Customizations layered on top of a base rule list.
+ * Rules are matched in order, so `prepend` rules take priority over the base
+ * rules and `append` rules only apply when nothing else matched.
+ */
+export interface MappingRuleOptions {
+  /** Rules checked before the base rules */
+  prepend?: MappingRule[];
+
+  /** Rules checked after the base rules */
+  append?: MappingRule[];
+
+  /** Rules that take the place of the base rule with the same name */
+  replace?: MappingRule[];
+}
+
+/** Per-field adjustments applied after a rule has matched */
+export interface FieldOverride {
+  /** Component to render instead of the matched rule's component */
+  component?: ComponentType;
+
+  /** Props merged over the matched rule's props */
+  componentProps?: Record<string, unknown>;
+
+  /** Field wrapper props merged over the resolved ones */
+  fieldProps?: Partial<ComponentConfig["fieldProps"]>;
+}
+
+/**
+ * Overrides keyed by field path: field names joined with ".", using the same
+ * names as the FieldDescriptor tree (array elements are "item", record values
+ * "value", tuple elements their index). Example: "address.country".
+ */
+export type FieldOverrides = Record<string, FieldOverride>;
@@ -1,4 +1,5 @@
-import type { FieldDescriptor } from "../introspection";
+import { propertyKey, serializeLiteral } from "../codegen";
+import type { FieldDescriptor, UnionVariant } from "../introspection";
 
 const VALID_IDENTIFIER = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
 
@@ -53,6 +54,17 @@ export function emitField(field: FieldDescriptor): string {
     expr += ".optional()";
   }
 
+  if (field.defaultValue !== undefined) {
+    const literal = serializeLiteral(field.defaultValue);
+    if (literal === undefined) {
+      throw new Error(
+        `Default value for field "${field.name}" cannot be emitted as a literal. ` +
+          "Only primitives, dates, arrays and plain objects are supported.",
+      );
+    }
+    expr += `.${field.prefault ? "prefault" : "default"}(${literal})`;
+  }
+
   if (field.description) {
     expr += `.describe(${JSON.stringify(field.description)})`;
   }
@@ -61,6 +73,11 @@ export function emitField(field: FieldDescriptor): string {
 }
 
 function emitBaseExpression(field: FieldDescriptor): string {
+  // Literals introspect as the type of their value; keep them literals
+  if (field.metadata.kind === "literal") {
+    return emitLiteral(field.metadata.values);
+  }
+
   switch (field.type) {
     case "string":
       return emitString(field);
@@ -87,6 +104,13 @@ function emitBaseExpression(field: FieldDescriptor): string {
   }
 }
 
+function emitLiteral(values: readonly (string | number | boolean)[]): string {
+  const items = values.map((value) => JSON.stringify(value));
+  return items.length === 1
+    ? `z.literal(${items[0]})`
+    : `z.literal([${items.join(", ")}])`;
+}
+
 function emitString(field: FieldDescriptor): string {
   const { constraints } = field;
 
@@ -108,6 +132,12 @@ function emitString(field: FieldDescriptor): string {
     case "datetime":
       base = "z.iso.datetime()";
       break;
+    case "date":
+      base = "z.iso.date()";
+      break;
+    case "ipv4":
+      base = "z.ipv4()";
+      break;
     default:
       base = "z.string()";
       break;
@@ -122,6 +152,15 @@ function emitString(field: FieldDescriptor): string {
   if (constraints.pattern !== undefined) {
     base += `.regex(/${constraints.pattern}/)`;
   }
+  if (constraints.startsWith !== undefined) {
+    base += `.startsWith(${JSON.stringify(constraints.startsWith)})`;
+  }
+  if (constraints.endsWith !== undefined) {
+    base += `.endsWith(${JSON.stringify(constraints.endsWith)})`;
+  }
+  if (constraints.includes !== undefined) {
+    base += `.includes(${JSON.stringify(constraints.includes)})`;
+  }
 
   return base;
 }
@@ -201,12 +240,9 @@ function emitObject(field: FieldDescriptor): string {
     );
   }
 
-  const entries = field.metadata.fields.map((child) => {
-    const key = VALID_IDENTIFIER.test(child.name)
-      ? child.name
-      : JSON.stringify(child.name);
-    return `${key}: ${emitField(child)}`;
-  });
+  const entries = field.metadata.fields.map(
+    (child) => `${propertyKey(child.name)}: ${emitField(child)}`,
+  );
   return `z.object({ ${entries.join(", ")} })`;
 }
 
@@ -217,8 +253,10 @@ function emitRecord(field: FieldDescriptor): string {
     );
   }
 
+  const { keyDescriptor, partial } = field.metadata;
+  const keyExpr = keyDescriptor ? emitField(keyDescriptor) : "z.string()";
   const valueExpr = emitField(field.metadata.valueDescriptor);
-  return `z.record(z.string(), ${valueExpr})`;
+  return `${partial ? "z.partialRecord" : "z.record"}(${keyExpr}, ${valueExpr})`;
 }
 
 function emitUnion(field: FieldDescriptor): string {
@@ -228,8 +266,20 @@ function emitUnion(field: FieldDescriptor): string {
     );
   }
 
-  const { discriminator, variants } = field.metadata;
+  return emitUnionVariants(
+    field.metadata.discriminator,
+    field.metadata.variants,
+  );
+}
 
+/**
+ * Emits a z.discriminatedUnion() when a discriminator is given, otherwise a
+ * z.union(). Also used for top-level union form descriptors.
+ */
+export function emitUnionVariants(
+  discriminator: string | undefined,
+  variants: UnionVariant[],
+): string {
   if (discriminator !== undefined) {
     return emitDiscriminatedUnion(discriminator, variants);
   }
@@ -239,15 +289,15 @@ function emitUnion(field: FieldDescriptor): string {
 
 function emitDiscriminatedUnion(
   discriminator: string,
-  variants: { value: string; fields: FieldDescriptor[] }[],
+  variants: UnionVariant[],
 ): string {
   const variantExprs = variants.map((variant) => {
     const entries = variant.fields.map((child) => {
       // The discriminator field introspects as a plain string; reconstruct as z.literal(value).
       if (child.name === discriminator) {
-        return `${child.name}: z.literal(${JSON.stringify(variant.value)})`;
+        return `${propertyKey(child.name)}: z.literal(${JSON.stringify(variant.value)})`;
       }
-      return `${child.name}: ${emitField(child)}`;
+      return `${propertyKey(child.name)}: ${emitField(child)}`;
     });
     return `z.object({ ${entries.join(", ")} })`;
   });
@@ -255,9 +305,7 @@ function emitDiscriminatedUnion(
   return `z.discriminatedUnion(${JSON.stringify(discriminator)}, [${variantExprs.join(", ")}])`;
 }
 
-function emitPlainUnion(
-  variants: { value: string; fields: FieldDescriptor[] }[],
-): string {
+function emitPlainUnion(variants: UnionVariant[]): string {
   const optionExprs = variants.map((variant) => {
     // Heuristic: the introspector wraps non-object union members in synthetic
     // single-field objects named "variant_N" / "option_N" (see introspect.ts
@@ -273,7 +321,7 @@ function emitPlainUnion(
     }
 
     const entries = variant.fields.map(
-      (child) => `${child.name}: ${emitField(child)}`,
+      (child) => `${propertyKey(child.name)}: ${emitField(child)}`,
     );
     return `z.object({ ${entries.join(", ")} })`;
   });
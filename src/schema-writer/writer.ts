@@ -1,6 +1,6 @@
-import { inferTypeName } from "../codegen";
+import { inferTypeName, propertyKey } from "../codegen";
 import type { FieldDescriptor, FormDescriptor } from "../introspection";
-import { emitField } from "./field-emitter";
+import { emitField, emitUnionVariants } from "./field-emitter";
 import type {
   EmbeddedSchema,
   SchemaWriterOptions,
@@ -37,20 +37,34 @@ export function writeSchema(options: SchemaWriterOptions): SchemaWriterResult {
  * Emits a single schema declaration block:
  *   export const fooSchema = z.object({ ... });
  *   export type Foo = z.infer<typeof fooSchema>;
+ * Descriptors with a root `union` emit the union expression instead.
  */
 function emitSchemaDeclaration(form: FormDescriptor): string[] {
+  const typeName = inferTypeName(form.schemaExportName);
+  const typeLine = `export type ${typeName} = z.infer<typeof ${form.schemaExportName}>;`;
+
+  if (form.union) {
+    const unionExpr = emitUnionVariants(
+      form.union.discriminator,
+      form.union.variants,
+    );
+    return [
+      `export const ${form.schemaExportName} = ${unionExpr};`,
+      "",
+      typeLine,
+    ];
+  }
+
   const fieldEntries = form.fields.map(
-    (field) => `  ${field.name}: ${emitField(field)},`,
+    (field) => `  ${propertyKey(field.name)}: ${emitField(field)},`,
   );
 
-  const typeName = inferTypeName(form.schemaExportName);
-
   return [
     `export const ${form.schemaExportName} = z.object({`,
     ...fieldEntries,
     "});",
     "",
-    `export type ${typeName} = z.infer<typeof ${form.schemaExportName}>;`,
+    typeLine,
   ];
 }
 
@@ -83,6 +97,9 @@ function collectSchemaRefs(form: FormDescriptor): Set<string> {
   }
 
   walk(form.fields);
+  for (const variant of form.union?.variants ?? []) {
+    walk(variant.fields);
+  }
   return refs;
 }
 
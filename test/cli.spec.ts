@@ -121,6 +121,134 @@ describe("CLI", () => {
       expect(content).toContain("from '@custom/ui'");
     });
 
+    it("imports .mts schemas through their .mjs output", () => {
+      const schemaPath = path.join(TEST_OUTPUT_DIR, "user-schema.mts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+      fs.mkdirSync(TEST_OUTPUT_DIR, { recursive: true });
+      fs.copyFileSync(path.join(FIXTURES_PATH, "user-schema.ts"), schemaPath);
+
+      runCli(["generate", schemaPath, "-o", outputPath, "-s", "userSchema"]);
+
+      const content = fs.readFileSync(outputPath, "utf-8");
+      expect(content).toContain("from './user-schema.mjs';");
+    });
+
+    it("applies mapping rules and overrides from --config", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const configPath = path.join(FIXTURES_PATH, "mapping-config.mjs");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "config-form.tsx");
+
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--config",
+        configPath,
+      ]);
+
+      const content = fs.readFileSync(outputPath, "utf-8");
+      expect(content).not.toContain("<Textarea");
+      expect(content).not.toContain("<RadioGroup");
+      expect(content).toContain("<Select.Item");
+    });
+
+    it("writes a read-only view next to the form with --view", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--view",
+      ]);
+
+      const viewPath = path.join(TEST_OUTPUT_DIR, "user-view.tsx");
+      const content = fs.readFileSync(viewPath, "utf-8");
+      expect(content).toContain("export function UserView({ value }");
+      expect(content).toContain("import type { User } from");
+    });
+
+    it("writes a sortable table next to the form with --table", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--table",
+        "--sortable",
+      ]);
+
+      const tablePath = path.join(TEST_OUTPUT_DIR, "user-table.tsx");
+      const content = fs.readFileSync(tablePath, "utf-8");
+      expect(content).toContain(
+        "export function UserTable({ rows, rowActions }",
+      );
+      expect(content).toContain("function toggleSort(");
+    });
+
+    it("writes a fixtures module next to the form with --fixtures", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--fixtures",
+      ]);
+
+      const fixturesPath = path.join(TEST_OUTPUT_DIR, "user-fixtures.ts");
+      const content = fs.readFileSync(fixturesPath, "utf-8");
+      expect(content).toContain("export function makeUser(");
+    });
+
+    it("adds drag handles to array items with --drag-handles", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "diagnostics-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "order-form.tsx");
+
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "orderSchema",
+        "--drag-handles",
+      ]);
+
+      const content = fs.readFileSync(outputPath, "utf-8");
+      expect(content).toContain("<ArrayItemActions");
+      expect(content).toContain("function DragHandle(");
+    });
+
+    it("shows error for non-existent config file", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const { stderr } = runCliWithError([
+        "generate",
+        schemaPath,
+        "-s",
+        "userSchema",
+        "--config",
+        "/nonexistent/kelex.mjs",
+      ]);
+      expect(stderr).toContain("Config file not found");
+    });
+
     it("shows error for non-existent file", () => {
       const { stderr } = runCliWithError([
         "generate",
@@ -141,6 +269,241 @@ describe("CLI", () => {
     });
   });
 
+  describe("strict mode", () => {
+    const schemaPath = path.join(FIXTURES_PATH, "diagnostics-schema.ts");
+
+    it("prints diagnostics with full paths and codes", () => {
+      const outputPath = path.join(TEST_OUTPUT_DIR, "order-form.tsx");
+
+      const result = runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "orderSchema",
+      ]);
+
+      expect(result).toContain(
+        'Field "lines.item.quantity": unsupported type "bigint", treating as string [unsupported-type]',
+      );
+      expect(fs.existsSync(outputPath)).toBe(true);
+    });
+
+    it("fails without writing when --strict finds a warning", () => {
+      const outputPath = path.join(TEST_OUTPUT_DIR, "order-form.tsx");
+
+      const { stderr } = runCliWithError([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "orderSchema",
+        "--strict",
+      ]);
+
+      expect(stderr).toContain(
+        '1 diagnostic(s) at or above "warning" severity (--strict)',
+      );
+      expect(fs.existsSync(outputPath)).toBe(false);
+    });
+
+    it("passes when diagnostics are below the --strict severity", () => {
+      const outputPath = path.join(TEST_OUTPUT_DIR, "order-form.tsx");
+
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "orderSchema",
+        "--strict",
+        "error",
+      ]);
+
+      expect(fs.existsSync(outputPath)).toBe(true);
+    });
+
+    it("rejects unknown severities", () => {
+      const { stderr } = runCliWithError([
+        "generate",
+        schemaPath,
+        "-s",
+        "orderSchema",
+        "--strict",
+        "fatal",
+      ]);
+
+      expect(stderr).toContain('Invalid --strict severity "fatal"');
+    });
+  });
+
+  describe("wizard steps", () => {
+    const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+    const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+
+    it("generates a wizard from --steps", () => {
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--steps",
+        "Name:firstName,lastName;Account Settings:email,age,role,newsletter,birthDate,bio,priority",
+      ]);
+
+      const content = fs.readFileSync(outputPath, "utf-8");
+      expect(content).toContain(
+        '{ id: "name", label: "Name", fields: ["firstName", "lastName"] },',
+      );
+      expect(content).toContain('id: "account-settings"');
+    });
+
+    it("adds a review step with --review", () => {
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--steps",
+        "Name:firstName,lastName;Details:email,age,role,newsletter,birthDate,bio,priority",
+        "--review",
+      ]);
+
+      const content = fs.readFileSync(outputPath, "utf-8");
+      expect(content).toContain("{isLastStep && (<>");
+    });
+
+    it("persists wizard drafts with --persist", () => {
+      runCli([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--steps",
+        "auto",
+        "--persist",
+        "local",
+      ]);
+
+      const content = fs.readFileSync(outputPath, "utf-8");
+      expect(content).toContain("window.localStorage;");
+    });
+
+    it("rejects unknown --persist storage", () => {
+      const { stderr } = runCliWithError([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--steps",
+        "auto",
+        "--persist",
+        "cookie",
+      ]);
+
+      expect(stderr).toContain('Invalid --persist storage "cookie"');
+    });
+
+    it("rejects malformed --steps entries", () => {
+      const { stderr } = runCliWithError([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--steps",
+        "firstName,lastName",
+      ]);
+
+      expect(stderr).toContain('Invalid --steps entry "firstName,lastName"');
+    });
+  });
+
+  describe("config targets", () => {
+    it("generates every target when no schema path is given", () => {
+      const configPath = path.join(FIXTURES_PATH, "config/kelex.config.mjs");
+
+      const result = runCli(["generate", "--config", configPath]);
+
+      expect(result).toContain("Generated");
+      const content = fs.readFileSync(
+        path.join(TEST_OUTPUT_DIR, "user-form.tsx"),
+        "utf-8",
+      );
+      expect(content).toContain("export function UserForm");
+      expect(content).toContain("from '@/components/ui'");
+    });
+
+    it("reports invalid configs", () => {
+      const configPath = path.join(FIXTURES_PATH, "config/invalid.config.mjs");
+
+      const { stderr } = runCliWithError(["generate", "--config", configPath]);
+
+      expect(stderr).toContain("Invalid kelex config");
+    });
+  });
+
+  describe("check command", () => {
+    it("passes when generated files are up to date", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+      const args = [schemaPath, "-o", outputPath, "-s", "userSchema"];
+
+      runCli(["generate", ...args]);
+      const result = runCli(["check", ...args]);
+
+      expect(result).toContain("Up to date");
+    });
+
+    it("fails with a diff when a generated file is stale", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "user-form.tsx");
+      const args = [schemaPath, "-o", outputPath, "-s", "userSchema"];
+
+      runCli(["generate", ...args]);
+      const original = fs.readFileSync(outputPath, "utf-8");
+      fs.writeFileSync(outputPath, original.replace("UserForm", "StaleForm"));
+
+      const { stdout, stderr } = runCliWithError(["check", ...args]);
+
+      expect(stdout).toContain("Out of date");
+      expect(stdout).toContain("-interface StaleFormProps {");
+      expect(stdout).toContain("+interface UserFormProps {");
+      expect(stderr).toContain("out of date");
+      expect(fs.readFileSync(outputPath, "utf-8")).toContain("StaleForm");
+    });
+
+    it("reports missing files with generate --check", () => {
+      const schemaPath = path.join(FIXTURES_PATH, "user-schema.ts");
+      const outputPath = path.join(TEST_OUTPUT_DIR, "missing-form.tsx");
+
+      const { stdout } = runCliWithError([
+        "generate",
+        schemaPath,
+        "-o",
+        outputPath,
+        "-s",
+        "userSchema",
+        "--check",
+      ]);
+
+      expect(stdout).toContain("Missing");
+      expect(fs.existsSync(outputPath)).toBe(false);
+    });
+  });
+
   describe("help", () => {
     it("shows help for generate command", () => {
       const result = runCli(["generate", "--help"]);
@@ -150,6 +513,8 @@ describe("CLI", () => {
       expect(result).toContain("--name");
       expect(result).toContain("--schema");
       expect(result).toContain("--ui");
+      expect(result).toContain("--config");
+      expect(result).toContain("--watch");
     });
 
     it("shows version", () => {
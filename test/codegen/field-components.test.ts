@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { generateFieldJSX } from "../../src/codegen/templates/field-components";
+import {
+  generateFieldJSX,
+  generateRecursiveFieldsComponent,
+  generateRootUnionJSX,
+  orderVisibleFields,
+  recursiveComponentName,
+} from "../../src/codegen/templates/field-components";
 import type { FieldDescriptor } from "../../src/introspection";
 import type { ComponentConfig } from "../../src/mapping";
 
@@ -370,6 +376,555 @@ describe("generateFieldJSX", () => {
     });
   });
 
+  describe("value coercion", () => {
+    it("stores number inputs as numbers and empty inputs as undefined", () => {
+      const field = createField({
+        type: "number",
+        metadata: { kind: "number" },
+      });
+      const config = createConfig({ componentProps: { type: "number" } });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain(
+        'onChange={(e) => field.handleChange(e.target.value === "" ? undefined : e.target.valueAsNumber)}',
+      );
+    });
+
+    it("uses Number() for number fields rendered as non-number inputs", () => {
+      const field = createField({
+        type: "number",
+        metadata: { kind: "number" },
+      });
+      const config = createConfig({ componentProps: { type: "text" } });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain(": Number(e.target.value))}");
+    });
+
+    it("clears nullable numbers to null", () => {
+      const field = createField({
+        type: "number",
+        isNullable: true,
+        metadata: { kind: "number" },
+      });
+      const config = createConfig({ componentProps: { type: "number" } });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain(
+        'e.target.value === "" ? null : e.target.valueAsNumber',
+      );
+    });
+
+    it("stores empty optional strings as undefined", () => {
+      const field = createField({ isOptional: true });
+
+      const inputJSX = generateFieldJSX(field, createConfig());
+      const textareaJSX = generateFieldJSX(
+        field,
+        createConfig({ component: "Textarea", componentProps: {} }),
+      );
+
+      for (const jsx of [inputJSX, textareaJSX]) {
+        expect(jsx).toContain(
+          'onChange={(e) => field.handleChange(e.target.value === "" ? undefined : e.target.value)}',
+        );
+      }
+    });
+
+    it("stores empty nullable strings as null", () => {
+      const field = createField({ isNullable: true });
+
+      const jsx = generateFieldJSX(field, createConfig());
+
+      expect(jsx).toContain('e.target.value === "" ? null : e.target.value');
+    });
+
+    it("converts date inputs between ISO strings and Dates", () => {
+      const field = createField({ type: "date", metadata: { kind: "date" } });
+      const config = createConfig({ componentProps: { type: "date" } });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain(
+        'value={field.state.value instanceof Date ? field.state.value.toISOString().slice(0, 10) : ""}',
+      );
+      expect(jsx).toContain(
+        "onChange={(e) => field.handleChange(e.target.value ? new Date(e.target.value) : undefined)}",
+      );
+    });
+
+    it("clears nullable DatePicker values to null", () => {
+      const field = createField({
+        type: "date",
+        isNullable: true,
+        metadata: { kind: "date" },
+      });
+      const config = createConfig({
+        component: "DatePicker",
+        componentProps: {},
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain("value={field.state.value ?? undefined}");
+      expect(jsx).toContain(
+        "onValueChange={(date) => field.handleChange(date ?? null)}",
+      );
+    });
+
+    it("coerces number fields inside array items", () => {
+      const price = createField({
+        name: "price",
+        type: "number",
+        metadata: { kind: "number" },
+      });
+      const element = createField({
+        name: "item",
+        type: "object",
+        metadata: { kind: "object", fields: [price] },
+      });
+      const field = createField({
+        name: "lines",
+        type: "array",
+        metadata: { kind: "array", element },
+      });
+      const config = createConfig({
+        component: "FieldArray",
+        componentProps: {
+          elementField: element,
+          elementConfig: createConfig({
+            component: "Fieldset",
+            componentProps: {
+              childFields: [price],
+              childConfigs: new Map([
+                ["price", createConfig({ componentProps: { type: "number" } })],
+              ]),
+            },
+          }),
+        },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain(`name={\`lines[\${i}].price\`}`);
+      expect(jsx).toContain("e.target.valueAsNumber");
+    });
+
+    it("coerces simple array items and record values by element type", () => {
+      const numberElement = createField({
+        name: "item",
+        type: "number",
+        metadata: { kind: "number" },
+      });
+      const arrayJSX = generateFieldJSX(
+        createField({
+          name: "scores",
+          type: "array",
+          metadata: { kind: "array", element: numberElement },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: {
+            elementField: numberElement,
+            elementConfig: createConfig(),
+          },
+        }),
+      );
+      const valueField = createField({
+        name: "value",
+        isOptional: true,
+      });
+      const recordJSX = generateFieldJSX(
+        createField({
+          name: "labels",
+          type: "record",
+          metadata: { kind: "record", valueDescriptor: valueField },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: {
+            elementField: valueField,
+            elementConfig: createConfig(),
+          },
+        }),
+      );
+
+      expect(arrayJSX).toContain(
+        'field.handleChange(e.target.value === "" ? undefined : Number(e.target.value))',
+      );
+      expect(recordJSX).toContain(
+        'field.handleChange(e.target.value === "" ? undefined : e.target.value)',
+      );
+    });
+  });
+
+  describe("simple arrays", () => {
+    function simpleArrayJSX(
+      element: FieldDescriptor,
+      elementConfig: ComponentConfig,
+    ): string {
+      return generateFieldJSX(
+        createField({
+          name: "values",
+          type: "array",
+          metadata: { kind: "array", element },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: { elementField: element, elementConfig },
+          fieldProps: { label: "Values", required: true },
+        }),
+      );
+    }
+
+    it("renders items with the element's component", () => {
+      const element = createField({
+        name: "item",
+        type: "number",
+        metadata: { kind: "number" },
+      });
+
+      const jsx = simpleArrayJSX(
+        element,
+        createConfig({
+          component: "Slider",
+          componentProps: { min: 1, max: 5, step: 1 },
+        }),
+      );
+
+      expect(jsx).toContain("<Slider");
+      expect(jsx).toContain("value={[field.state.value ?? 1]}");
+      expect(jsx).not.toContain("<Input");
+      expect(jsx).toContain("arrayField.pushValue(1)");
+    });
+
+    it("seeds new items with a value of the element type", () => {
+      const boolean = createField({
+        name: "item",
+        type: "boolean",
+        metadata: { kind: "boolean" },
+      });
+      const date = createField({
+        name: "item",
+        type: "date",
+        metadata: { kind: "date" },
+      });
+      const role = createField({
+        name: "item",
+        type: "enum",
+        metadata: { kind: "enum", values: ["admin", "user"] },
+      });
+
+      expect(
+        simpleArrayJSX(boolean, createConfig({ component: "Checkbox" })),
+      ).toContain("arrayField.pushValue(false)");
+      expect(
+        simpleArrayJSX(
+          date,
+          createConfig({ component: "DatePicker", componentProps: {} }),
+        ),
+      ).toContain("arrayField.pushValue(new Date())");
+      expect(
+        simpleArrayJSX(
+          role,
+          createConfig({
+            component: "Select",
+            componentProps: { options: ["admin", "user"] },
+          }),
+        ),
+      ).toContain('arrayField.pushValue("admin")');
+      expect(
+        simpleArrayJSX(createField({ name: "item" }), createConfig()),
+      ).toContain('arrayField.pushValue("")');
+    });
+
+    it("keeps radio ids unique per item and per array", () => {
+      const element = createField({
+        name: "item",
+        type: "enum",
+        metadata: { kind: "enum", values: ["yes", "no"] },
+      });
+
+      const jsx = simpleArrayJSX(
+        element,
+        createConfig({
+          component: "RadioGroup",
+          componentProps: { options: ["yes", "no"] },
+        }),
+      );
+
+      expect(jsx).toContain(
+        `<RadioGroup.Item value="yes" id={\`values-yes-\${i}\`} />`,
+      );
+      expect(jsx).toContain(
+        `<Label htmlFor={\`values-yes-\${i}\`}>Yes</Label>`,
+      );
+      expect(jsx).not.toContain("item-yes");
+    });
+  });
+
+  describe("array item actions", () => {
+    it("lets simple array items be moved, inserted, duplicated and removed", () => {
+      const element = createField({ name: "item" });
+      const jsx = generateFieldJSX(
+        createField({
+          name: "tags",
+          type: "array",
+          metadata: { kind: "array", element },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: {
+            elementField: element,
+            elementConfig: createConfig(),
+          },
+        }),
+      );
+
+      expect(jsx).toContain(".map((item, i, items) => (");
+      expect(jsx).toContain(
+        '<ArrayItem key={i} name="tags" index={i} count={items.length} onMove={(from, to) => arrayField.moveValue(from, to)} className="flex items-center gap-2">',
+      );
+      expect(jsx).toContain("<ArrayItemActions");
+      expect(jsx).toContain(`label={\`Item \${i + 1}\`}`);
+      expect(jsx).toContain('onInsert={() => arrayField.insertValue(i, "")}');
+      expect(jsx).toContain(
+        "onDuplicate={() => arrayField.insertValue(i + 1, structuredClone(item))}",
+      );
+      expect(jsx).toContain("onRemove={() => arrayField.removeValue(i)}");
+    });
+
+    it("enforces minItems and maxItems and shows array-level errors", () => {
+      const element = createField({ name: "item" });
+      const array = (constraints: FieldDescriptor["constraints"]) =>
+        generateFieldJSX(
+          createField({
+            name: "tags",
+            type: "array",
+            constraints,
+            metadata: { kind: "array", element },
+          }),
+          createConfig({
+            component: "FieldArray",
+            componentProps: {
+              elementField: element,
+              elementConfig: createConfig(),
+            },
+            fieldProps: { label: "Tags", required: true },
+          }),
+        );
+
+      const bounded = array({ minItems: 1, maxItems: 5 });
+      const unbounded = array({});
+
+      expect(bounded).toContain("min={1}");
+      expect(bounded).toContain("max={5}");
+      expect(bounded).toContain(
+        'disabled={(arrayField.state.value ?? []).length >= 5} onClick={() => arrayField.pushValue("")}>Add Tags</Button>',
+      );
+      expect(bounded).toContain(
+        "{(arrayField.state.value ?? []).length} of 5</span>",
+      );
+      expect(array({ minItems: 2 })).toContain(
+        "{(arrayField.state.value ?? []).length} (at least 2)</span>",
+      );
+      expect(unbounded).not.toContain("min={");
+      expect(unbounded).not.toContain("disabled={(arrayField");
+      expect(unbounded).toContain(
+        '{arrayField.state.meta.errors?.[0] && <p className="text-sm text-red-500">{arrayField.state.meta.errors[0]}</p>}',
+      );
+    });
+
+    it("labels object items after the element", () => {
+      const element = createField({
+        name: "item",
+        label: "Stop",
+        type: "object",
+        metadata: { kind: "object", fields: [] },
+      });
+      const jsx = generateFieldJSX(
+        createField({
+          name: "stops",
+          type: "array",
+          metadata: { kind: "array", element },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: {
+            elementField: element,
+            elementConfig: createConfig({
+              component: "Fieldset",
+              componentProps: { childFields: [], childConfigs: new Map() },
+            }),
+          },
+        }),
+      );
+
+      expect(jsx).toContain('<ArrayItem key={i} name="stops"');
+      expect(jsx).toContain(`label={\`Stop \${i + 1}\`}`);
+      expect(jsx).toContain("onInsert={() => arrayField.insertValue(i, {})}");
+    });
+
+    it("starts new object items from the element's defaults", () => {
+      const name = createField({ name: "name" });
+      const element = createField({
+        name: "item",
+        type: "object",
+        metadata: { kind: "object", fields: [name] },
+      });
+      const jsx = generateFieldJSX(
+        createField({
+          name: "stops",
+          type: "array",
+          metadata: { kind: "array", element },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: {
+            elementField: element,
+            elementConfig: createConfig({
+              component: "Fieldset",
+              componentProps: {
+                childFields: [name],
+                childConfigs: new Map([["name", createConfig()]]),
+              },
+            }),
+          },
+        }),
+      );
+
+      expect(jsx).toMatch(/insertValue\(i, \{\s+name: "",\s+\}\)/);
+      expect(jsx).toMatch(/pushValue\(\{\s+name: "",\s+\}\)/);
+    });
+
+    it("starts new union items on the first variant", () => {
+      const kind = createField({
+        name: "kind",
+        metadata: { kind: "literal", values: ["circle"] },
+      });
+      const radius = createField({
+        name: "radius",
+        type: "number",
+        metadata: { kind: "number" },
+      });
+      const element = createField({ name: "item", type: "union" });
+      const jsx = generateFieldJSX(
+        createField({
+          name: "shapes",
+          type: "array",
+          metadata: { kind: "array", element },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: {
+            elementField: element,
+            elementConfig: createConfig({
+              component: "UnionSwitch",
+              componentProps: {
+                discriminator: "kind",
+                variantConfigs: [
+                  {
+                    value: "circle",
+                    fields: [kind, radius],
+                    configs: new Map([
+                      ["kind", createConfig()],
+                      ["radius", createConfig()],
+                    ]),
+                  },
+                ],
+              },
+            }),
+          },
+        }),
+      );
+
+      expect(jsx).toMatch(
+        /pushValue\(\{\s+kind: "circle",\s+radius: 0,\s+\}\)/,
+      );
+    });
+  });
+
+  describe("records", () => {
+    function recordJSX(
+      keyDescriptor: FieldDescriptor | undefined,
+      valueConfig: ComponentConfig = createConfig(),
+      value: FieldDescriptor = createField({ name: "value" }),
+    ): string {
+      return generateFieldJSX(
+        createField({
+          name: "headers",
+          type: "record",
+          metadata: { kind: "record", valueDescriptor: value, keyDescriptor },
+        }),
+        createConfig({
+          component: "FieldArray",
+          componentProps: { elementField: value, elementConfig: valueConfig },
+          fieldProps: { label: "Headers", required: true },
+        }),
+      );
+    }
+
+    it("renders key, value and remove controls per entry", () => {
+      const jsx = recordJSX(undefined);
+
+      expect(jsx).toContain(
+        "{Object.keys(recordField.state.value ?? {}).map((key, _, keys) => (",
+      );
+      expect(jsx).toContain("<RecordKeyInput");
+      expect(jsx).toContain(
+        "onCommit={(next) => recordField.handleChange(renameKey(recordField.state.value, key, next))}",
+      );
+      expect(jsx).toContain(`name={\`headers.\${key}\`}`);
+      expect(jsx).toContain(
+        "onClick={() => recordField.handleChange(omitKey(recordField.state.value, key))}",
+      );
+      expect(jsx).toContain("validate={() => undefined}");
+    });
+
+    it("adds entries seeded with the value's default", () => {
+      const value = createField({
+        name: "value",
+        type: "boolean",
+        metadata: { kind: "boolean" },
+      });
+
+      const jsx = recordJSX(
+        undefined,
+        createConfig({ component: "Checkbox" }),
+        value,
+      );
+
+      expect(jsx).toContain("<AddRecordEntry");
+      expect(jsx).toContain(
+        "onCommit={(key) => recordField.handleChange({ ...recordField.state.value, [key]: false })}",
+      );
+      expect(jsx).toContain("<Checkbox");
+      expect(jsx).not.toContain("<Input");
+    });
+
+    it("validates keys against the key schema", () => {
+      const stringKey = createField({
+        name: "key",
+        constraints: { minLength: 2, maxLength: 40, pattern: "^x-" },
+      });
+      const enumKey = createField({
+        name: "key",
+        type: "enum",
+        metadata: { kind: "enum", values: ["en", "nl"] },
+      });
+
+      expect(recordJSX(stringKey)).toContain(
+        'validate={(value) => value.length < 2 ? "Must be at least 2 characters" : value.length > 40 ? "Must be at most 40 characters" : !new RegExp("^x-").test(value) ? "Must match /^x-/" : undefined}',
+      );
+      expect(recordJSX(enumKey)).toContain(
+        'validate={(value) => !["en","nl"].includes(value) ? "Must be one of: en, nl" : undefined}',
+      );
+    });
+  });
+
   describe("option label formatting", () => {
     it("capitalizes first letter", () => {
       const field = createField();
@@ -407,4 +962,347 @@ describe("generateFieldJSX", () => {
       expect(jsx).toContain(">Super admin</Select.Item>");
     });
   });
+
+  describe("UI hints", () => {
+    it("emits placeholder and autoComplete on Input", () => {
+      const field = createField();
+      const config = createConfig({
+        componentProps: {
+          type: "email",
+          placeholder: "you@example.com",
+          autoComplete: "email",
+        },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain('placeholder="you@example.com"');
+      expect(jsx).toContain('autoComplete="email"');
+    });
+
+    it("emits placeholder on Textarea", () => {
+      const field = createField();
+      const config = createConfig({
+        component: "Textarea",
+        componentProps: { placeholder: "Tell us more" },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain('placeholder="Tell us more"');
+    });
+
+    it("uses the placeholder hint for Select", () => {
+      const field = createField();
+      const config = createConfig({
+        component: "Select",
+        componentProps: { options: ["a"], placeholder: "Choose a role" },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain('<Select.Value placeholder="Choose a role" />');
+    });
+
+    it("falls back to the default Select placeholder", () => {
+      const field = createField();
+      const config = createConfig({
+        component: "Select",
+        componentProps: { options: ["a"] },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain('<Select.Value placeholder="Select..." />');
+    });
+
+    it("lays out a fieldset on a grid when a child has a colSpan hint", () => {
+      const city = createField({ name: "city", ui: { colSpan: 8 } });
+      const zip = createField({ name: "zip" });
+      const field = createField({ name: "address", type: "object" });
+      const config = createConfig({
+        component: "Fieldset",
+        componentProps: {
+          childFields: [city, zip],
+          childConfigs: new Map([
+            ["city", createConfig()],
+            ["zip", createConfig()],
+          ]),
+        },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain('<div className="grid grid-cols-12 gap-3">');
+      expect(jsx).toMatch(/col-span-8">\s*<form\.Field\s+name="address\.city"/);
+      expect(jsx).toMatch(/col-span-12">\s*<form\.Field\s+name="address\.zip"/);
+    });
+
+    it("stacks fields without colSpan hints", () => {
+      const field = createField({ name: "address", type: "object" });
+      const config = createConfig({
+        component: "Fieldset",
+        componentProps: {
+          childFields: [createField({ name: "city" })],
+          childConfigs: new Map([["city", createConfig()]]),
+        },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).not.toContain("grid");
+      expect(jsx).not.toContain("col-span");
+    });
+
+    it("skips hidden children and orders visible ones in a fieldset", () => {
+      const first = createField({ name: "first", ui: { order: 2 } });
+      const second = createField({ name: "second", ui: { order: 1 } });
+      const secret = createField({ name: "secret", ui: { hidden: true } });
+      const field = createField({ name: "profile", type: "object" });
+      const config = createConfig({
+        component: "Fieldset",
+        componentProps: {
+          childFields: [first, second, secret],
+          childConfigs: new Map([
+            ["first", createConfig()],
+            ["second", createConfig()],
+            ["secret", createConfig()],
+          ]),
+        },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).not.toContain("profile.secret");
+      expect(jsx.indexOf("profile.second")).toBeLessThan(
+        jsx.indexOf("profile.first"),
+      );
+    });
+  });
+
+  describe("recursive fields", () => {
+    const recursiveElement = createField({
+      name: "item",
+      label: "Item",
+      type: "recursive",
+      metadata: { kind: "recursive", ref: "" },
+    });
+    const recursiveConfig = createConfig({
+      component: "RecursiveFieldset",
+      componentProps: { ref: "" },
+      fieldProps: { label: "Item", required: true },
+    });
+
+    it("renders an array of recursive items through the sub-form component", () => {
+      const field = createField({
+        name: "replies",
+        type: "array",
+        metadata: { kind: "array", element: recursiveElement },
+      });
+      const config = createConfig({
+        component: "FieldArray",
+        componentProps: {
+          elementConfig: recursiveConfig,
+          elementField: recursiveElement,
+        },
+        fieldProps: { label: "Replies", required: true },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain('<form.Field name={`replies`} mode="array">');
+      expect(jsx).toContain(
+        `<RootRecursiveFields form={form} path={\`replies[\${childIndex}]\`} />`,
+      );
+      expect(jsx).toContain("arrayField.removeValue(childIndex)");
+      expect(jsx).toContain("arrayField.pushValue({})");
+      expect(jsx).toContain(
+        "onDuplicate={() => arrayField.insertValue(childIndex + 1, structuredClone(item))}",
+      );
+    });
+
+    it("renders a direct recursive field with add and remove toggles", () => {
+      const field = createField({
+        name: "parent",
+        type: "recursive",
+        isNullable: true,
+        metadata: { kind: "recursive", ref: "tree" },
+      });
+      const config = createConfig({
+        component: "RecursiveFieldset",
+        componentProps: { ref: "tree" },
+        fieldProps: { label: "Parent", required: false },
+      });
+
+      const jsx = generateFieldJSX(field, config);
+
+      expect(jsx).toContain("subField.handleChange(null)");
+      expect(jsx).toContain("subField.handleChange({})");
+      expect(jsx).toContain(
+        "<TreeRecursiveFields form={form} path={`parent`} />",
+      );
+    });
+
+    it("generates a sub-form component that renders itself one level deeper", () => {
+      const text = createField({ name: "text", label: "Text" });
+      const replies = createField({
+        name: "replies",
+        label: "Replies",
+        type: "array",
+        metadata: { kind: "array", element: recursiveElement },
+      });
+      const configs = new Map<string, ComponentConfig>([
+        [
+          "text",
+          createConfig({ fieldProps: { label: "Text", required: true } }),
+        ],
+        [
+          "replies",
+          createConfig({
+            component: "FieldArray",
+            componentProps: {
+              elementConfig: recursiveConfig,
+              elementField: recursiveElement,
+            },
+            fieldProps: { label: "Replies", required: true },
+          }),
+        ],
+      ]);
+
+      const component = generateRecursiveFieldsComponent(
+        "",
+        [text, replies],
+        configs,
+        "CommentFormApi",
+      );
+
+      expect(component).toContain(
+        "function RootRecursiveFields({ form, path }: { form: CommentFormApi; path: string })",
+      );
+      expect(component).toContain(`name={\`\${path}.text\`}`);
+      expect(component).toContain(
+        `<RootRecursiveFields form={form} path={\`\${path}.replies[\${childIndex}]\`} />`,
+      );
+    });
+
+    it("derives component names from the ref path", () => {
+      expect(recursiveComponentName("")).toBe("RootRecursiveFields");
+      expect(recursiveComponentName("menu")).toBe("MenuRecursiveFields");
+      expect(recursiveComponentName("items.item")).toBe(
+        "ItemsItemRecursiveFields",
+      );
+      expect(recursiveComponentName("2fa")).toBe("Root2faRecursiveFields");
+    });
+  });
+});
+
+describe("arbitrary object keys", () => {
+  it("brackets non-identifier keys in union selectors", () => {
+    const kind = createField({ name: "kind-of" });
+    const card = createField({ name: "card-number" });
+    const field = createField({
+      name: "billing-info",
+      type: "union",
+      metadata: {
+        kind: "union",
+        discriminator: "kind-of",
+        variants: [{ value: "card", fields: [kind, card] }],
+      },
+    });
+    const config = createConfig({
+      component: "UnionSwitch",
+      componentProps: {
+        discriminator: "kind-of",
+        variantConfigs: [
+          {
+            value: "card",
+            fields: [kind, card],
+            configs: new Map([["card-number", createConfig()]]),
+          },
+        ],
+      },
+    });
+
+    const jsx = generateFieldJSX(field, config);
+
+    expect(jsx).toContain(
+      'selector={(state) => state.values["billing-info"]["kind-of"]}',
+    );
+    expect(jsx).toContain('{(kindOfValue) => kindOfValue === "card" && (');
+    expect(jsx).toContain('name="billing-info.card-number"');
+  });
+
+  it("uses a safe identifier for root union discriminators", () => {
+    const jsx = generateRootUnionJSX("2fa-method", [
+      { value: "sms", fields: [], configs: new Map() },
+    ]);
+
+    expect(jsx).toContain('selector={(state) => state.values["2fa-method"]}');
+    expect(jsx).toContain('{(_2faMethodValue) => _2faMethodValue === "sms"');
+  });
+
+  it("escapes keys inside template literal paths", () => {
+    const key = "price`$" + "{usd}";
+    const element = createField({
+      name: "item",
+      type: "object",
+      metadata: {
+        kind: "object",
+        fields: [createField({ name: key })],
+      },
+    });
+    const field = createField({
+      name: "line items",
+      type: "array",
+      metadata: { kind: "array", element },
+    });
+    const config = createConfig({
+      component: "FieldArray",
+      componentProps: {
+        elementConfig: createConfig({
+          component: "Fieldset",
+          componentProps: {
+            childConfigs: new Map([[key, createConfig()]]),
+            childFields:
+              element.metadata.kind === "object" ? element.metadata.fields : [],
+          },
+        }),
+        elementField: element,
+      },
+    });
+
+    const jsx = generateFieldJSX(field, config);
+
+    expect(jsx).toContain(`name={\`line items[\${i}].price\\\`\\\${usd}\`}`);
+  });
+
+  it("sanitizes RadioGroup ids", () => {
+    const field = createField({ name: "contact method" });
+    const config = createConfig({
+      component: "RadioGroup",
+      componentProps: { options: ["by phone", "e-mail"] },
+    });
+
+    const jsx = generateFieldJSX(field, config);
+
+    expect(jsx).toContain('id="contact-method-by-phone"');
+    expect(jsx).toContain('htmlFor="contact-method-e-mail"');
+  });
+});
+
+describe("orderVisibleFields", () => {
+  it("keeps schema order for fields without an order hint", () => {
+    const fields = [
+      createField({ name: "a" }),
+      createField({ name: "b", ui: { order: -1 } }),
+      createField({ name: "c" }),
+      createField({ name: "d", ui: { hidden: true } }),
+    ];
+
+    expect(orderVisibleFields(fields).map((f) => f.name)).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
 });
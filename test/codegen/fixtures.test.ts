@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import {
+  fixtureFactoryName,
+  generateFixturesFile,
+} from "../../src/codegen/templates/fixtures";
+import type { Diagnostic } from "../../src/diagnostics";
+import { introspect } from "../../src/introspection";
+import { evaluateFixtureFactory } from "../helpers/evaluate-fixtures";
+
+function generateFixtures(
+  schema: z.ZodType,
+  diagnostics?: Diagnostic[],
+): string {
+  const form = introspect(schema, {
+    formName: "UserForm",
+    schemaImportPath: "./schema",
+    schemaExportName: "userSchema",
+  });
+  return generateFixturesFile({ form, diagnostics });
+}
+
+/** Asserts that the factory returns schema-valid values for many seeds */
+function expectValidFixtures(schema: z.ZodType): void {
+  const make = evaluateFixtureFactory(generateFixtures(schema), "makeUser");
+  for (let seed = 1; seed <= 50; seed++) {
+    const result = schema.safeParse(make({}, seed));
+    expect(result.error?.issues).toBeUndefined();
+  }
+}
+
+const userSchema = z.object({
+  name: z.string().min(2).max(20),
+  email: z.email(),
+  id: z.uuid(),
+  ref: z.cuid(),
+  website: z.url().optional(),
+  updatedAt: z.iso.datetime(),
+  age: z.number().int().positive().max(120),
+  price: z.number().min(0).max(10).multipleOf(0.5),
+  score: z.number(),
+  active: z.boolean(),
+  birthday: z.date(),
+  role: z.enum(["admin", "user"]),
+  tags: z.array(z.string()).min(2).max(4),
+  address: z.object({ city: z.string(), zip: z.string().nullable() }),
+  point: z.tuple([z.number(), z.number()]),
+  settings: z.record(z.string(), z.boolean()),
+  contact: z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("phone"), phone: z.string() }),
+    z.object({ kind: z.literal("mail"), mail: z.email() }),
+  ]),
+});
+
+describe("fixtureFactoryName", () => {
+  it("derives the factory name from the schema export", () => {
+    expect(fixtureFactoryName("userSchema")).toBe("makeUser");
+    expect(fixtureFactoryName("orderLineSchema")).toBe("makeOrderLine");
+  });
+});
+
+describe("generateFixturesFile", () => {
+  it("generates a typed factory with only the helpers it uses", () => {
+    const output = generateFixtures(
+      z.object({ name: z.string(), active: z.boolean() }),
+    );
+
+    expect(output).toContain("import type { User } from './schema';");
+    expect(output).toContain(
+      "export function makeUser(overrides: Partial<User> = {}, seed = 1): User {",
+    );
+    expect(output).toContain("    name: fakeString(random, 3, 12),");
+    expect(output).toContain("    active: random() < 0.5,");
+    expect(output).toContain("    ...overrides,");
+    expect(output).not.toContain("function fakeEmail");
+    expect(output).not.toContain("function fakeDate");
+  });
+
+  it("produces values that satisfy the schema's constraints", () => {
+    expectValidFixtures(userSchema);
+  });
+
+  it("maps constraints to generator bounds", () => {
+    const output = generateFixtures(userSchema);
+
+    expect(output).toContain("name: fakeString(random, 2, 20),");
+    expect(output).toContain("age: fakeInt(random, 1, 119),");
+    expect(output).toContain("price: fakeInt(random, 1, 19) * 0.5,");
+    expect(output).toContain('role: pick(random, ["admin","user"] as const),');
+    expect(output).toContain(
+      "tags: fakeArray(random, 2, 4, () => (fakeString(random, 3, 12))),",
+    );
+    expect(output).toContain('kind: "mail" as const,');
+  });
+
+  it("is deterministic per seed and applies overrides", () => {
+    const make = evaluateFixtureFactory(
+      generateFixtures(userSchema),
+      "makeUser",
+    );
+
+    expect(make({}, 7)).toEqual(make({}, 7));
+    expect(make({}, 7)).not.toEqual(make({}, 8));
+    expect(make({ name: "Ada" }, 7)).toEqual({
+      ...(make({}, 7) as object),
+      name: "Ada",
+    });
+  });
+
+  it("emits literals and honors formats, exact lengths and affixes", () => {
+    const schema = z.object({
+      kind: z.literal("x"),
+      level: z.literal([1, 2]),
+      day: z.iso.date(),
+      host: z.ipv4(),
+      code: z.string().length(6),
+      key: z.string().startsWith("sk_").endsWith("!").max(10),
+      tags: z.array(z.string()).length(2),
+    });
+    const output = generateFixtures(schema);
+
+    expect(output).toContain('    kind: "x" as const,');
+    expect(output).toContain("    level: pick(random, [1,2] as const),");
+    expect(output).toContain(
+      "    day: fakeDate(random).toISOString().slice(0, 10),",
+    );
+    expect(output).toContain("    code: fakeString(random, 6, 6),");
+    expect(output).toContain(
+      '    key: "sk_" + fakeString(random, 0, 6) + "!",',
+    );
+    expectValidFixtures(schema);
+  });
+
+  it("generates record keys from the key schema", () => {
+    const schema = z.object({
+      headers: z.record(z.string().min(4).max(10), z.string()),
+      labels: z.record(z.enum(["en", "nl"]), z.string()),
+    });
+    const output = generateFixtures(schema);
+
+    expect(output).toContain(
+      "headers: { [fakeString(random, 4, 10)]: fakeString(random, 3, 12) },",
+    );
+    expect(output).toContain(
+      "labels: { en: fakeString(random, 3, 12), nl: fakeString(random, 3, 12) },",
+    );
+    expectValidFixtures(schema);
+  });
+
+  it("picks a variant for top-level unions", () => {
+    const schema = z.discriminatedUnion("type", [
+      z.object({ type: z.literal("a"), count: z.number().int() }),
+      z.object({ type: z.literal("b"), label: z.string() }),
+    ]);
+    const output = generateFixtures(schema);
+
+    expect(output).toContain("  const value = pick(random, [");
+    expect(output).toContain("  return { ...value, ...overrides } as User;");
+    expectValidFixtures(schema);
+  });
+
+  it("stops at recursive references", () => {
+    interface Category {
+      name: string;
+      children: Category[];
+      parent?: Category;
+    }
+    const schema: z.ZodType<Category> = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(schema);
+      },
+      get parent() {
+        return schema.optional();
+      },
+    });
+    const output = generateFixtures(schema);
+
+    expect(output).toContain("    children: [],");
+    expect(output).not.toContain("parent:");
+    expectValidFixtures(schema);
+  });
+
+  it("uses a pattern field's default and reports patterns without one", () => {
+    const diagnostics: Diagnostic[] = [];
+    const output = generateFixtures(
+      z.object({
+        zip: z.string().regex(/^\d{5}$/),
+        code: z
+          .string()
+          .regex(/^[A-Z]{3}$/)
+          .default("ABC"),
+      }),
+      diagnostics,
+    );
+
+    expect(output).toContain('    code: "ABC",');
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "unsupported-fixture-constraint",
+        severity: "warning",
+        path: "zip",
+      }),
+    ]);
+  });
+});
@@ -3,12 +3,14 @@ import {
   generateFormFile,
   inferTypeName,
 } from "../../src/codegen/templates/form-wrapper";
+import type { Diagnostic } from "../../src/diagnostics";
 import type {
   FieldDescriptor,
   FormDescriptor,
   FormStep,
 } from "../../src/introspection";
 import type { ComponentConfig } from "../../src/mapping";
+import { renderForm } from "../helpers/render-form";
 
 function createField(
   overrides: Partial<FieldDescriptor> = {},
@@ -46,6 +48,7 @@ function createForm(overrides: Partial<FormDescriptor> = {}): FormDescriptor {
     schemaImportPath: "./schema",
     schemaExportName: "testSchema",
     warnings: [],
+    diagnostics: [],
     ...overrides,
   };
 }
@@ -227,6 +230,100 @@ describe("generateFormFile", () => {
       expect(output).toContain("Label,");
     });
 
+    it("emits the record editor components once when a record is rendered", () => {
+      const value = createField({ name: "value" });
+      const record = (name: string) =>
+        createField({
+          name,
+          type: "record",
+          metadata: { kind: "record", valueDescriptor: value },
+        });
+      const recordConfig = createConfig({
+        component: "FieldArray",
+        componentProps: { elementField: value, elementConfig: createConfig() },
+      });
+      const form = createForm({
+        fields: [record("headers"), record("labels")],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["headers", recordConfig],
+        ["labels", recordConfig],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain("import { useState } from 'react';");
+      expect(output.match(/function RecordKeyInput\(/g)).toHaveLength(1);
+      expect(output).toContain("function AddRecordEntry(");
+      expect(output).toContain("function renameKey<");
+    });
+
+    it("omits the record editor components without records", () => {
+      const form = createForm({ fields: [createField({ name: "email" })] });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["email", createConfig()],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).not.toContain("from 'react'");
+      expect(output).not.toContain("RecordKeyInput");
+    });
+
+    it("emits the array item components once when arrays are rendered", () => {
+      const element = createField({ name: "item" });
+      const array = (name: string) =>
+        createField({
+          name,
+          type: "array",
+          metadata: { kind: "array", element },
+        });
+      const arrayConfig = createConfig({
+        component: "FieldArray",
+        componentProps: {
+          elementField: element,
+          elementConfig: createConfig(),
+        },
+      });
+      const form = createForm({ fields: [array("tags"), array("aliases")] });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["tags", arrayConfig],
+        ["aliases", arrayConfig],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+      const withHandles = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+        dragHandles: true,
+      });
+
+      expect(output).toContain("import type { ReactNode } from 'react';");
+      expect(output.match(/function ArrayItem\(/g)).toHaveLength(1);
+      expect(output).toContain("function ArrayItemActions(");
+      expect(output).toContain("function moveItem(");
+      expect(output).not.toContain("DragHandle");
+      expect(output).not.toContain("onDrop");
+      expect(withHandles).toContain(
+        "<DragHandle name={props.name} index={index} />",
+      );
+      expect(withHandles).toContain("function DragHandle(");
+      expect(withHandles).toContain("onDrop={(event) => {");
+    });
+
     it("uses custom UI import path", () => {
       const form = createForm();
       const fieldConfigs = new Map<string, ComponentConfig>();
@@ -308,6 +405,83 @@ describe("generateFormFile", () => {
       expect(output).toContain('name: "",');
     });
 
+    it("quotes keys that are not valid identifiers", () => {
+      const headers = createField({
+        name: "headers",
+        type: "object",
+        metadata: {
+          kind: "object",
+          fields: [createField({ name: "Content-Type" })],
+        },
+      });
+      const form = createForm({
+        fields: [
+          createField({ name: "first-name" }),
+          createField({ name: "2fa", type: "boolean" }),
+          headers,
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["first-name", createConfig()],
+        ["2fa", createConfig({ component: "Checkbox" })],
+        [
+          "headers",
+          createConfig({
+            component: "Fieldset",
+            componentProps: {
+              childConfigs: new Map([["Content-Type", createConfig()]]),
+            },
+          }),
+        ],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain('"first-name": "",');
+      expect(output).toContain('"2fa": false,');
+      expect(output).toContain('"Content-Type": "",');
+      expect(output).toContain('name="first-name"');
+    });
+
+    it("leaves optional string, number and enum fields unset", () => {
+      const form = createForm({
+        fields: [
+          createField({ name: "nickname", isOptional: true }),
+          createField({
+            name: "age",
+            type: "number",
+            isOptional: true,
+            metadata: { kind: "number" },
+          }),
+          createField({
+            name: "size",
+            type: "enum",
+            isOptional: true,
+            metadata: { kind: "enum", values: ["s", "m"] },
+          }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["nickname", createConfig()],
+        ["age", createConfig()],
+        ["size", createConfig()],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain("nickname: undefined,");
+      expect(output).toContain("age: undefined,");
+      expect(output).toContain("size: undefined,");
+    });
+
     it("uses 0 for number fields", () => {
       const form = createForm({
         fields: [
@@ -406,6 +580,71 @@ describe("generateFormFile", () => {
       expect(output).toContain("birthDate: undefined,");
     });
 
+    it("starts arrays with minItems items", () => {
+      const tag = createField({ name: "item" });
+      const city = createField({ name: "city" });
+      const stop = createField({
+        name: "item",
+        type: "object",
+        metadata: { kind: "object", fields: [city] },
+      });
+      const form = createForm({
+        fields: [
+          createField({
+            name: "tags",
+            type: "array",
+            constraints: { minItems: 2 },
+            metadata: { kind: "array", element: tag },
+          }),
+          createField({
+            name: "stops",
+            type: "array",
+            constraints: { minItems: 1 },
+            metadata: { kind: "array", element: stop },
+          }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        [
+          "tags",
+          createConfig({
+            component: "FieldArray",
+            componentProps: {
+              elementField: tag,
+              elementConfig: createConfig(),
+            },
+          }),
+        ],
+        [
+          "stops",
+          createConfig({
+            component: "FieldArray",
+            componentProps: {
+              elementField: stop,
+              elementConfig: createConfig({
+                component: "Fieldset",
+                componentProps: {
+                  childFields: [city],
+                  childConfigs: new Map([["city", createConfig()]]),
+                },
+              }),
+            },
+          }),
+        ],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain('tags: ["", ""],');
+      expect(output).toContain(
+        'stops: [\n        {\n          city: "",\n        },\n      ],',
+      );
+    });
+
     it("uses first enum value for enum fields", () => {
       const form = createForm({
         fields: [
@@ -436,6 +675,140 @@ describe("generateFormFile", () => {
     });
   });
 
+  describe("schema-declared default values", () => {
+    it("uses the declared default instead of the type default", () => {
+      const form = createForm({
+        fields: [
+          createField({ name: "name", type: "string", defaultValue: "Anon" }),
+          createField({
+            name: "retries",
+            type: "number",
+            metadata: { kind: "number" },
+            defaultValue: 3,
+          }),
+          createField({
+            name: "role",
+            type: "enum",
+            metadata: { kind: "enum", values: ["admin", "user"] },
+            defaultValue: "user",
+          }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["name", createConfig()],
+        ["retries", createConfig({ componentProps: { min: 1 } })],
+        [
+          "role",
+          createConfig({
+            component: "RadioGroup",
+            componentProps: { options: ["admin", "user"] },
+          }),
+        ],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain('name: "Anon",');
+      expect(output).toContain("retries: 3,");
+      expect(output).toContain('role: "user",');
+    });
+
+    it("serializes object, array and date defaults as literals", () => {
+      const form = createForm({
+        fields: [
+          createField({
+            name: "prefs",
+            type: "object",
+            metadata: { kind: "object", fields: [] },
+            defaultValue: { theme: "dark", "font-size": 14 },
+          }),
+          createField({
+            name: "tags",
+            type: "array",
+            metadata: { kind: "array", element: createField() },
+            defaultValue: ["a"],
+          }),
+          createField({
+            name: "since",
+            type: "date",
+            metadata: { kind: "date" },
+            defaultValue: new Date("2024-01-02T00:00:00.000Z"),
+          }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["prefs", createConfig({ component: "Fieldset" })],
+        ["tags", createConfig({ component: "FieldArray" })],
+        ["since", createConfig({ component: "DatePicker" })],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain('prefs: { theme: "dark", "font-size": 14 },');
+      expect(output).toContain('tags: ["a"],');
+      expect(output).toContain('since: new Date("2024-01-02T00:00:00.000Z"),');
+    });
+
+    it("uses declared defaults of nested object children", () => {
+      const form = createForm({
+        fields: [
+          createField({
+            name: "settings",
+            type: "object",
+            metadata: {
+              kind: "object",
+              fields: [createField({ name: "theme", defaultValue: "dark" })],
+            },
+          }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        [
+          "settings",
+          createConfig({
+            component: "Fieldset",
+            componentProps: {
+              childConfigs: new Map([["theme", createConfig()]]),
+            },
+          }),
+        ],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain('theme: "dark",');
+    });
+
+    it("falls back to the type default when the value has no literal form", () => {
+      const form = createForm({
+        fields: [createField({ name: "name", defaultValue: new Map() })],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["name", createConfig()],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).toContain('name: "",');
+    });
+  });
+
   describe("form setup", () => {
     it("uses schema as validator", () => {
       const form = createForm({ schemaExportName: "userSchema" });
@@ -531,6 +904,35 @@ describe("generateFormFile", () => {
     });
   });
 
+  describe("UI hints", () => {
+    it("orders fields by hint and omits hidden fields from the JSX", () => {
+      const form = createForm({
+        fields: [
+          createField({ name: "name" }),
+          createField({ name: "tenantId", ui: { hidden: true } }),
+          createField({ name: "email", ui: { order: -1 } }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["name", createConfig()],
+        ["tenantId", createConfig()],
+        ["email", createConfig()],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).not.toContain('name="tenantId"');
+      expect(output).toContain('tenantId: ""');
+      expect(output.indexOf('name="email"')).toBeLessThan(
+        output.indexOf('name="name"'),
+      );
+    });
+  });
+
   describe("full output", () => {
     it("generates complete valid form component", () => {
       const form = createForm({
@@ -583,66 +985,272 @@ describe("generateFormFile", () => {
 
       const output = generateFormFile({
         form,
-        fieldConfigs,
-        uiImportPath: "@/components/ui",
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      // Verify structure
+      expect(output).toContain("'use client';");
+      expect(output).toContain(
+        "import { useForm } from '@tanstack/react-form';",
+      );
+      expect(output).toContain(
+        "import { userSchema, type User } from './schema';",
+      );
+      expect(output).toContain("interface UserFormProps {");
+      expect(output).toContain("export function UserForm(");
+      expect(output).toContain('email: "",');
+      expect(output).toContain('role: "admin",');
+      expect(output).toContain("active: false,");
+      expect(output).toContain('<Button type="submit">Submit</Button>');
+    });
+  });
+
+  describe("backward compatibility", () => {
+    it("generates single-step form when steps is undefined", () => {
+      const form = createForm({
+        fields: [createField({ name: "name" })],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["name", createConfig()],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).not.toContain("useState");
+      expect(output).not.toContain("currentStep");
+      expect(output).not.toContain("STEPS");
+      expect(output).not.toContain("handleNext");
+      expect(output).toContain('<Button type="submit">Submit</Button>');
+    });
+
+    it("generates single-step form when steps is empty array", () => {
+      const form = createForm({
+        fields: [createField({ name: "name" })],
+        steps: [],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        ["name", createConfig()],
+      ]);
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs,
+        uiImportPath: "@/components/ui",
+      });
+
+      expect(output).not.toContain("useState");
+      expect(output).not.toContain("currentStep");
+    });
+  });
+
+  describe("recursive fields", () => {
+    it("throws when a recursive ref does not point at an object", () => {
+      const element = createField({
+        name: "item",
+        type: "recursive",
+        metadata: { kind: "recursive", ref: "missing" },
+      });
+      const form = createForm({
+        fields: [
+          createField({
+            name: "nodes",
+            type: "array",
+            metadata: { kind: "array", element },
+          }),
+        ],
+      });
+      const fieldConfigs = new Map<string, ComponentConfig>([
+        [
+          "nodes",
+          createConfig({
+            component: "FieldArray",
+            componentProps: {
+              elementField: element,
+              elementConfig: createConfig({
+                component: "RecursiveFieldset",
+                componentProps: { ref: "missing" },
+              }),
+            },
+          }),
+        ],
+      ]);
+
+      expect(() =>
+        generateFormFile({ form, fieldConfigs, uiImportPath: "@/ui" }),
+      ).toThrow('Recursive field references unknown ancestor "missing"');
+    });
+  });
+
+  describe("top-level union forms", () => {
+    function createUnionForm(discriminator?: string): {
+      form: FormDescriptor;
+      variantConfigs: Map<string, ComponentConfig>[];
+    } {
+      const methodField = () =>
+        createField({ name: "method", label: "Method" });
+      const cardFields = [
+        ...(discriminator ? [methodField()] : []),
+        createField({ name: "number", label: "Number" }),
+      ];
+      const paypalFields = [
+        ...(discriminator ? [methodField()] : []),
+        createField({ name: "email", label: "Email" }),
+      ];
+      const form = createForm({
+        name: "PaymentForm",
+        schemaExportName: "paymentSchema",
+        union: {
+          ...(discriminator ? { discriminator } : {}),
+          variants: [
+            { value: discriminator ? "card" : "variant_0", fields: cardFields },
+            {
+              value: discriminator ? "paypal" : "variant_1",
+              fields: paypalFields,
+            },
+          ],
+        },
+      });
+      const variantConfigs = [cardFields, paypalFields].map(
+        (fields) =>
+          new Map(
+            fields.map((f) => [
+              f.name,
+              createConfig({ fieldProps: { label: f.label, required: true } }),
+            ]),
+          ),
+      );
+      return { form, variantConfigs };
+    }
+
+    it("emits per-variant default values with the discriminator set", () => {
+      const { form, variantConfigs } = createUnionForm("method");
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs: new Map(),
+        variantConfigs,
+        uiImportPath: "@/ui",
+      });
+
+      expect(output).toContain(
+        "const VARIANT_DEFAULTS: Record<string, Partial<Payment>> = {",
+      );
+      expect(output).toContain(
+        '  card: {\n    method: "card",\n    number: "",\n  },',
+      );
+      expect(output).toContain(
+        '  paypal: {\n    method: "paypal",\n    email: "",\n  },',
+      );
+      expect(output).toContain(
+        'defaultValues: initialValues ?? VARIANT_DEFAULTS["card"],',
+      );
+    });
+
+    it("renders the discriminator as a Select that resets to variant defaults", () => {
+      const { form, variantConfigs } = createUnionForm("method");
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs: new Map(),
+        variantConfigs,
+        uiImportPath: "@/ui",
       });
 
-      // Verify structure
-      expect(output).toContain("'use client';");
+      expect(output).toContain('name="method"');
       expect(output).toContain(
-        "import { useForm } from '@tanstack/react-form';",
+        "onValueChange={(value) => form.reset(VARIANT_DEFAULTS[value])}",
       );
       expect(output).toContain(
-        "import { userSchema, type User } from './schema';",
+        '<Select.Item value="paypal">Paypal</Select.Item>',
       );
-      expect(output).toContain("interface UserFormProps {");
-      expect(output).toContain("export function UserForm(");
-      expect(output).toContain('email: "",');
-      expect(output).toContain('role: "admin",');
-      expect(output).toContain("active: false,");
-      expect(output).toContain('<Button type="submit">Submit</Button>');
+      expect(output).toContain('{(methodValue) => methodValue === "card" && (');
+      expect(output).toContain('name="number"');
+      expect(output).toContain('name="email"');
+      expect(output).toContain("  Select,");
+      expect(output).not.toContain("useState");
     });
-  });
 
-  describe("backward compatibility", () => {
-    it("generates single-step form when steps is undefined", () => {
+    it("compares number discriminators against bare literals", () => {
       const form = createForm({
-        fields: [createField({ name: "name" })],
+        union: {
+          discriminator: "version",
+          variants: [
+            {
+              value: "1",
+              fields: [createField({ name: "version", type: "number" })],
+            },
+          ],
+        },
       });
-      const fieldConfigs = new Map<string, ComponentConfig>([
-        ["name", createConfig()],
-      ]);
 
       const output = generateFormFile({
         form,
-        fieldConfigs,
-        uiImportPath: "@/components/ui",
+        fieldConfigs: new Map(),
+        variantConfigs: [new Map()],
+        uiImportPath: "@/ui",
       });
 
-      expect(output).not.toContain("useState");
-      expect(output).not.toContain("currentStep");
-      expect(output).not.toContain("STEPS");
-      expect(output).not.toContain("handleNext");
-      expect(output).toContain('<Button type="submit">Submit</Button>');
+      expect(output).toContain('  "1": {\n    version: 1,\n  },');
+      expect(output).toContain("versionValue === 1 &&");
     });
 
-    it("generates single-step form when steps is empty array", () => {
-      const form = createForm({
-        fields: [createField({ name: "name" })],
-        steps: [],
+    it("tracks the selected variant in state for plain unions", () => {
+      const { form, variantConfigs } = createUnionForm();
+
+      const output = generateFormFile({
+        form,
+        fieldConfigs: new Map(),
+        variantConfigs,
+        uiImportPath: "@/ui",
       });
-      const fieldConfigs = new Map<string, ComponentConfig>([
-        ["name", createConfig()],
-      ]);
+
+      expect(output).toContain("import { useState } from 'react';");
+      expect(output).toContain(
+        "const [variant, setVariant] = useState(() => initialVariant(initialValues));",
+      );
+      expect(output).toContain("setVariant(value);");
+      expect(output).toContain("form.reset(VARIANT_DEFAULTS[value]);");
+      expect(output).toContain('{variant === "variant_1" && (');
+      expect(output).toContain('  variant_1: {\n    email: "",\n  },');
+    });
+
+    it("starts plain unions on the variant the initial values belong to", () => {
+      const { form, variantConfigs } = createUnionForm();
 
       const output = generateFormFile({
         form,
-        fieldConfigs,
-        uiImportPath: "@/components/ui",
+        fieldConfigs: new Map(),
+        variantConfigs,
+        uiImportPath: "@/ui",
       });
 
-      expect(output).not.toContain("useState");
-      expect(output).not.toContain("currentStep");
+      expect(output).toContain(
+        `function initialVariant(value: Partial<Payment> | undefined): string {
+  if (!value) return "variant_0";
+  if ("number" in value) return "variant_0";
+  if ("email" in value) return "variant_1";
+  return "variant_0";
+}`,
+      );
+    });
+
+    it("rejects wizard steps", () => {
+      const { form, variantConfigs } = createUnionForm("method");
+      form.steps = [{ id: "one", label: "One", fields: ["number"] }];
+
+      expect(() =>
+        generateFormFile({
+          form,
+          fieldConfigs: new Map(),
+          variantConfigs,
+          uiImportPath: "@/ui",
+        }),
+      ).toThrow("Wizard steps are not supported for top-level union schemas");
     });
   });
 
@@ -719,10 +1327,12 @@ describe("generateFormFile", () => {
       return { form, fieldConfigs };
     }
 
-    function generateWizardOutput(): string {
+    function generateWizardOutput(
+      overrides: Partial<FormDescriptor> = {},
+    ): string {
       const { form, fieldConfigs } = createWizardForm();
       return generateFormFile({
-        form,
+        form: { ...form, ...overrides },
         fieldConfigs,
         uiImportPath: "@/components/ui",
       });
@@ -912,24 +1522,71 @@ describe("generateFormFile", () => {
         expect(output).toContain("async function handleNext()");
       });
 
-      it("validates step fields before advancing", () => {
+      it("validates the step against its slice of the schema", () => {
         const output = generateWizardOutput();
         expect(output).toContain(
           "const stepFields = STEPS[currentStep].fields;",
         );
         expect(output).toContain(
-          "await form.validateField(fieldName, 'submit');",
+          "const result = await STEP_SCHEMAS[currentStep].safeParseAsync(form.state.values);",
+        );
+        expect(output).not.toContain("form.validateField");
+      });
+
+      it("validates against the full schema when the root cannot be picked", () => {
+        const output = generateWizardOutput();
+        expect(output).toContain(
+          "const STEP_SCHEMAS = STEPS.map(() => userSchema);",
+        );
+      });
+
+      it("surfaces in-step issues onto field meta", () => {
+        const output = generateWizardOutput();
+        expect(output).toContain("function issueFieldName(");
+        expect(output).toContain(
+          "if (isInStep(name, stepFields) && !stepErrors.has(name))",
         );
         expect(output).toContain(
-          "form.getFieldMeta(fieldName)?.errors?.length",
+          "errorMap: { ...meta.errorMap, onSubmit: stepErrors.get(name) },",
         );
       });
 
       it("only advances when no errors", () => {
         const output = generateWizardOutput();
-        expect(output).toContain("if (!hasErrors)");
+        expect(output).toContain("if (stepErrors.size === 0)");
         expect(output).toContain("setCurrentStep((s) => s + 1)");
       });
+
+      it("picks each step's fields from a plain object root", () => {
+        const output = generateWizardOutput({ refinements: [] });
+        expect(output).toContain(
+          "  userSchema.pick({ name: true, email: true }),\n  userSchema.pick({ role: true, active: true }),",
+        );
+        expect(output).not.toContain("UNREFINED_SCHEMA");
+      });
+
+      it("keeps refinements whose fields are all in the step", () => {
+        const output = generateWizardOutput({
+          refinements: [
+            { fields: ["name", "email"] },
+            { fields: ["email", "role"] },
+            {},
+            { fields: ["active"] },
+          ],
+        });
+        expect(output).toContain(
+          "const ROOT_CHECKS = userSchema.def.checks ?? [];",
+        );
+        expect(output).toContain(
+          "const UNREFINED_SCHEMA = userSchema.clone({ ...userSchema.def, checks: [] });",
+        );
+        expect(output).toContain(
+          "UNREFINED_SCHEMA.pick({ name: true, email: true }).check(ROOT_CHECKS[0]),",
+        );
+        expect(output).toContain(
+          "UNREFINED_SCHEMA.pick({ role: true, active: true }).check(ROOT_CHECKS[3]),",
+        );
+      });
     });
 
     describe("navigation buttons", () => {
@@ -1145,6 +1802,380 @@ describe("generateFormFile", () => {
       });
     });
 
+    describe("nested step paths", () => {
+      const address = createField({
+        name: "address",
+        label: "Address",
+        type: "object",
+        metadata: {
+          kind: "object",
+          fields: [
+            createField({ name: "street", label: "Street" }),
+            createField({ name: "city", label: "City" }),
+          ],
+        },
+      });
+
+      function generateWithSteps(steps: FormStep[]): string {
+        const form = createForm({
+          fields: [createField({ name: "name" }), address],
+          steps,
+        });
+        return generateFormFile({
+          form,
+          fieldConfigs: new Map(),
+          uiImportPath: "@/components/ui",
+        });
+      }
+
+      it("accepts dotted paths that split an object across steps", () => {
+        const output = generateWithSteps([
+          { id: "a", label: "A", fields: ["name", "address.street"] },
+          { id: "b", label: "B", fields: ["address.city"] },
+        ]);
+
+        expect(output).toContain('fields: ["name", "address.street"]');
+        expect(output).toContain('fields: ["address.city"]');
+      });
+
+      it("throws when a dotted path does not exist", () => {
+        expect(() =>
+          generateWithSteps([
+            { id: "a", label: "A", fields: ["name", "address", "address.zip"] },
+          ]),
+        ).toThrow('Step "a" references unknown field "address.zip"');
+      });
+
+      it("throws when only part of an object is assigned", () => {
+        expect(() =>
+          generateWithSteps([
+            { id: "a", label: "A", fields: ["name", "address.street"] },
+          ]),
+        ).toThrow("Fields not assigned to any step: address.city");
+      });
+    });
+
+    describe("conditional steps", () => {
+      function generateConditional(steps: FormStep[]): string {
+        const { form, fieldConfigs } = createWizardForm();
+        return generateFormFile({
+          form: { ...form, steps },
+          fieldConfigs,
+          uiImportPath: "@/components/ui",
+        });
+      }
+
+      const conditionalSteps: FormStep[] = [
+        { id: "basics", label: "Basic Info", fields: ["name", "role"] },
+        {
+          id: "admin",
+          label: "Admin",
+          fields: ["email", "active"],
+          condition: { field: "role", equals: ["admin"] },
+        },
+      ];
+
+      it("generates isStepActive from step conditions", () => {
+        const output = generateConditional(conditionalSteps);
+
+        expect(output).toContain(
+          "function isStepActive(step: number, values: Partial<User>): boolean {",
+        );
+        expect(output).toContain(
+          '    case 1:\n      return values.role === "admin";',
+        );
+        expect(output).not.toContain("case 0:");
+      });
+
+      it("skips inactive steps when navigating", () => {
+        const output = generateConditional(conditionalSteps);
+
+        expect(output).toContain(
+          "import { useForm, useStore } from '@tanstack/react-form';",
+        );
+        expect(output).toContain(
+          "const values = useStore(form.store, (state) => state.values);",
+        );
+        expect(output).toContain(
+          "const isLastStep = stepAfter(currentStep, 1) === STEPS.length;",
+        );
+        expect(output).toContain("setCurrentStep(stepAfter(currentStep, 1));");
+        expect(output).toContain(
+          "onClick={() => setCurrentStep(stepAfter(currentStep, -1))}>Back</Button>",
+        );
+      });
+
+      it("only lists active steps in the indicator", () => {
+        const output = generateConditional(conditionalSteps);
+
+        expect(output).toContain(
+          ".filter((step) => isStepActive(step.index, values)),",
+        );
+        expect(output).toContain("{visibleSteps.map((step, i) => (");
+        expect(output).toContain(
+          'aria-current={step.index === currentStep ? "step" : undefined}',
+        );
+      });
+
+      it("joins multiple values with ||", () => {
+        const output = generateConditional([
+          conditionalSteps[0],
+          {
+            ...conditionalSteps[1],
+            condition: { field: "role", equals: ["admin", "user"] },
+          },
+        ]);
+
+        expect(output).toContain(
+          'return values.role === "admin" || values.role === "user";',
+        );
+      });
+
+      it("throws when the first step has a condition", () => {
+        expect(() =>
+          generateConditional([
+            {
+              ...conditionalSteps[0],
+              condition: { field: "role", equals: "x" },
+            },
+            conditionalSteps[1],
+          ]),
+        ).toThrow(
+          'Step "basics" is the first step and cannot have a condition',
+        );
+      });
+
+      it("throws when a condition references an unknown field", () => {
+        expect(() =>
+          generateConditional([
+            conditionalSteps[0],
+            {
+              ...conditionalSteps[1],
+              condition: { field: "plan", equals: "pro" },
+            },
+          ]),
+        ).toThrow('Step "admin" condition references unknown field "plan"');
+      });
+
+      it("reports required fields only a conditional step renders", () => {
+        const { form, fieldConfigs } = createWizardForm();
+        form.fields[3] = { ...form.fields[3], defaultValue: false };
+        const diagnostics: Diagnostic[] = [];
+        generateFormFile({
+          form: {
+            ...form,
+            steps: [
+              { id: "basics", label: "Basic Info", fields: ["name", "role"] },
+              {
+                id: "admin",
+                label: "Admin",
+                fields: ["name", "email", "active"],
+                condition: { field: "role", equals: ["admin"] },
+              },
+            ],
+          },
+          fieldConfigs,
+          uiImportPath: "@/components/ui",
+          diagnostics,
+        });
+
+        expect(diagnostics).toEqual([
+          expect.objectContaining({
+            code: "required-field-in-conditional-step",
+            severity: "warning",
+            path: "email",
+          }),
+        ]);
+      });
+    });
+
+    describe("review step", () => {
+      function generateReview(steps: FormStep[] = wizardSteps): string {
+        const { form, fieldConfigs } = createWizardForm();
+        return generateFormFile({
+          form: { ...form, steps, review: true },
+          fieldConfigs,
+          uiImportPath: "@/components/ui",
+        });
+      }
+
+      it("adds a review step after the last step", () => {
+        const output = generateReview();
+
+        expect(output).toContain(
+          "const isLastStep = currentStep === STEPS.length;",
+        );
+        expect(output).toContain(
+          '{ id: "review", label: "Review", index: STEPS.length },',
+        );
+        expect(output).toContain(
+          '<CardTitle>{isLastStep ? "Review" : STEPS[currentStep].label}</CardTitle>',
+        );
+        expect(output).toContain("setCurrentStep((s) => s + 1)");
+      });
+
+      it("summarizes values grouped by step with edit buttons", () => {
+        const output = generateReview();
+        const review = output.slice(output.indexOf("{isLastStep && (<>"));
+
+        expect(review).toContain(
+          '<h3 className="text-sm font-medium">Basic Info</h3>',
+        );
+        expect(review).toContain(
+          '<Button type="button" variant="ghost" size="sm" onClick={() => setCurrentStep(1)}>Edit</Button>',
+        );
+        expect(review).toContain(
+          '<dt className="text-muted-foreground">Email</dt>',
+        );
+        expect(review).toContain("<dd>{formatReviewValue(values.email)}</dd>");
+        expect(output).toContain(
+          "function formatReviewValue(value: unknown): string {",
+        );
+      });
+
+      it("hides sections of inactive conditional steps", () => {
+        const output = generateReview([
+          wizardSteps[0],
+          {
+            ...wizardSteps[1],
+            condition: { field: "email", equals: "admin@example.com" },
+          },
+        ]);
+
+        expect(output).toContain("{isStepActive(1, values) && (");
+      });
+
+      it("requires wizard steps", () => {
+        expect(() =>
+          generateFormFile({
+            form: createForm({ fields: [createField()], review: true }),
+            fieldConfigs: new Map(),
+            uiImportPath: "@/components/ui",
+          }),
+        ).toThrow("A review step requires wizard steps");
+      });
+    });
+
+    describe("draft persistence", () => {
+      function generateDraft(overrides: Partial<FormDescriptor> = {}): string {
+        const { form, fieldConfigs } = createWizardForm();
+        return generateFormFile({
+          form: { ...form, persist: "local", ...overrides },
+          fieldConfigs,
+          uiImportPath: "@/components/ui",
+        });
+      }
+
+      it("accepts a storage adapter prop defaulting to browser storage", () => {
+        const output = generateDraft();
+
+        expect(output).toContain(
+          "import { useEffect, useRef, useState } from 'react';",
+        );
+        expect(output).toContain("  storage?: DraftStorage;");
+        expect(output).toContain("export interface DraftStorage {");
+        expect(output).toContain(
+          "export function UserForm({ defaultValues: initialValues, onSubmit, storage: draftStorage }: UserFormProps) {",
+        );
+        expect(output).toContain(
+          "const storage = draftStorage ?? defaultDraftStorage();",
+        );
+        expect(output).toContain("window.localStorage;");
+      });
+
+      it("uses sessionStorage when requested", () => {
+        const output = generateDraft({ persist: "session" });
+        expect(output).toContain("window.sessionStorage;");
+      });
+
+      it("restores the draft on mount and saves step and values", () => {
+        const output = generateDraft();
+
+        expect(output).toContain(
+          "const values = useStore(form.store, (state) => state.values);",
+        );
+        expect(output).toContain(
+          "form.reset(draft.values as typeof form.state.values, { keepDefaultValues: true });",
+        );
+        expect(output).toContain("setCurrentStep(draft.step);");
+        expect(output).toContain(
+          "writeDraft(storage, { version: DRAFT_VERSION, step: currentStep, values });",
+        );
+      });
+
+      it("drops drafts saved against another version", () => {
+        const output = generateDraft();
+
+        expect(output).toContain('const DRAFT_KEY = "kelex-draft:UserForm";');
+        expect(output).toMatch(/const DRAFT_VERSION = '[0-9a-f]{8}';/);
+        expect(output).toContain(
+          "if (draft?.version === DRAFT_VERSION) return draft;",
+        );
+      });
+
+      it("derives the version from the shape of the fields", () => {
+        const versionOf = (output: string) =>
+          output.match(/const DRAFT_VERSION = '(\w+)';/)?.[1];
+        const { form } = createWizardForm();
+        const relabelled = form.fields.map((f) => ({ ...f, label: "Other" }));
+        const retyped = form.fields.map((f, i) =>
+          i === 0 ? { ...f, isOptional: !f.isOptional } : f,
+        );
+
+        expect(versionOf(generateDraft({ fields: relabelled }))).toBe(
+          versionOf(generateDraft()),
+        );
+        expect(versionOf(generateDraft({ fields: retyped }))).not.toBe(
+          versionOf(generateDraft()),
+        );
+      });
+
+      it("adds a discard action and clears the draft on submit", () => {
+        const output = generateDraft();
+
+        expect(output).toContain(
+          '<Button type="button" variant="ghost" onClick={discardDraft}>Discard draft</Button>',
+        );
+        expect(output).toContain(
+          "await onSubmit(value);\n      storage?.removeItem(DRAFT_KEY);",
+        );
+        expect(output).not.toContain("{currentStep === 0 && <div />}");
+      });
+
+      it("leaves storage empty after a discard until the values change", () => {
+        const items = new Map<string, string>();
+        const storage = {
+          getItem: (key: string) => items.get(key) ?? null,
+          setItem: (key: string, value: string) => items.set(key, value),
+          removeItem: (key: string) => items.delete(key),
+        };
+        const draft = () => items.get("kelex-draft:UserForm");
+        const rendered = renderForm(generateDraft(), "UserForm", { storage });
+
+        rendered.form.setFieldValue("name", "Ada");
+        rendered.rerender();
+        expect(draft()).toContain('"name":"Ada"');
+
+        rendered.click("Discard draft");
+        expect(rendered.form.state.values.name).toBe("");
+        expect(items.size).toBe(0);
+
+        rendered.form.setFieldValue("name", "Grace");
+        rendered.rerender();
+        expect(draft()).toContain('"name":"Grace"');
+      });
+
+      it("requires wizard steps", () => {
+        expect(() =>
+          generateFormFile({
+            form: createForm({ fields: [createField()], persist: "local" }),
+            fieldConfigs: new Map(),
+            uiImportPath: "@/components/ui",
+          }),
+        ).toThrow("Draft persistence requires wizard steps");
+      });
+    });
+
     describe("step label escaping", () => {
       it("escapes special characters in step labels", () => {
         const form = createForm({
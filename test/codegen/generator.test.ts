@@ -82,6 +82,102 @@ describe("generate", () => {
       expect(result.primitives).toContain("export function Input");
     });
 
+    it("generates a read-only view when view is set", () => {
+      const schema = z.object({
+        name: z.string(),
+        role: z.enum(["admin", "member"]),
+      });
+      const overrides = { name: { fieldProps: { label: "Full name" } } };
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        overrides,
+        view: true,
+      });
+
+      expect(result.view).toContain("export function TestView({ value }");
+      expect(result.view).toContain(">Full name</dt>");
+      expect(result.view).toContain(
+        '{formatOption(value.role, { admin: "Admin", member: "Member" })}',
+      );
+      expect(
+        generate({
+          schema,
+          formName: "TestForm",
+          schemaImportPath: "./schema",
+          schemaExportName: "testSchema",
+        }).view,
+      ).toBeUndefined();
+    });
+
+    it("generates a table when table is set", () => {
+      const schema = z.object({
+        name: z.string(),
+        lines: z.array(z.object({ sku: z.string() })),
+      });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        table: true,
+      });
+      expect(result.table).toContain("export function TestTable(");
+
+      const lines = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        table: { field: "lines", sortable: true },
+      });
+      expect(lines.table).toContain("export function TestLinesTable(");
+      expect(lines.table).toContain("{formatValue(row.sku)}");
+      expect(lines.table).toContain("function toggleSort(");
+    });
+
+    it("generates fixtures and reports unsupported constraints", () => {
+      const result = generate({
+        schema: z.object({
+          name: z.string(),
+          zip: z.string().regex(/^\d{5}$/),
+        }),
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        fixtures: true,
+      });
+
+      expect(result.fixtures).toContain(
+        "export function makeTest(overrides: Partial<Test> = {}, seed = 1): Test {",
+      );
+      expect(result.diagnostics).toContainEqual(
+        expect.objectContaining({
+          code: "unsupported-fixture-constraint",
+          path: "zip",
+        }),
+      );
+    });
+
+    it("adds drag handles to array items when dragHandles is set", () => {
+      const options = {
+        schema: z.object({ stops: z.array(z.string()) }),
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+      };
+
+      expect(generate(options).code).toContain("<ArrayItemActions");
+      expect(generate(options).code).not.toContain("<DragHandle");
+      expect(generate({ ...options, dragHandles: true }).code).toContain(
+        "<DragHandle",
+      );
+    });
+
     it("uses custom UI import path when specified", () => {
       const schema = z.object({
         name: z.string(),
@@ -133,6 +229,115 @@ describe("generate", () => {
     });
   });
 
+  describe("mapping customization", () => {
+    it("applies prepended rules before the defaults", () => {
+      const schema = z.object({ bio: z.string() });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        rules: {
+          prepend: [
+            {
+              name: "bio-textarea",
+              match: (f) => f.name === "bio",
+              component: "Textarea",
+              getProps: () => ({}),
+            },
+          ],
+        },
+      });
+
+      expect(result.code).toContain("<Textarea");
+    });
+
+    it("uses replaced default rules", () => {
+      const schema = z.object({ notes: z.string().max(200) });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        rules: {
+          replace: [
+            {
+              name: "string-textarea",
+              match: (f) =>
+                f.type === "string" && (f.constraints.maxLength ?? 0) > 500,
+              component: "Textarea",
+              getProps: (f) => ({ maxLength: f.constraints.maxLength }),
+            },
+          ],
+        },
+      });
+
+      expect(result.code).not.toContain("<Textarea");
+      expect(result.code).toContain("<Input");
+    });
+
+    it("applies path-keyed overrides to nested fields", () => {
+      const schema = z.object({
+        address: z.object({ country: z.string() }),
+      });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        overrides: {
+          "address.country": {
+            component: "Select",
+            componentProps: { options: ["NL", "US"] },
+          },
+        },
+      });
+
+      expect(result.code).toContain('<Select.Item value="NL">');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("warns about overrides that match no field", () => {
+      const schema = z.object({ name: z.string() });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        overrides: { "address.country": { component: "Select" } },
+      });
+
+      expect(result.warnings).toContain(
+        'Field "address.country": override does not match any field',
+      );
+    });
+
+    it("throws when replacing an unknown rule", () => {
+      expect(() =>
+        generate({
+          schema: z.object({ name: z.string() }),
+          formName: "TestForm",
+          schemaImportPath: "./schema",
+          schemaExportName: "testSchema",
+          rules: {
+            replace: [
+              {
+                name: "nope",
+                match: () => true,
+                component: "Input",
+                getProps: () => ({}),
+              },
+            ],
+          },
+        }),
+      ).toThrow('Cannot replace unknown mapping rule "nope"');
+    });
+  });
+
   describe("field type handling", () => {
     it("handles string fields", () => {
       const schema = z.object({
@@ -296,6 +501,386 @@ describe("generate", () => {
 
       expect(result.code).toContain("<Textarea");
     });
+
+    it("renders enum-keyed records as one field per key", () => {
+      const schema = z.object({
+        hours: z.record(z.enum(["mon", "tue"]), z.number().min(8)),
+        prices: z.partialRecord(z.enum(["eu", "us"]), z.number()),
+      });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+        overrides: { "hours.mon": { fieldProps: { label: "Monday" } } },
+      });
+
+      expect(result.code).toContain('name="hours.mon"');
+      expect(result.code).toContain('name="prices.us"');
+      expect(result.code).toContain('label="Monday"');
+      expect(result.code).toContain('label="Tue"');
+      expect(result.code).not.toContain("<RecordKeyInput");
+      expect(result.code).toMatch(
+        /hours: \{\s+mon: 8,\s+tue: 8,\s+\},\s+prices: \{\},/,
+      );
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  describe("recursive schemas", () => {
+    it("generates a recursive sub-form component for z.lazy() schemas", () => {
+      type Category = { name: string; children: Category[] };
+      const schema: z.ZodType<Category> = z.lazy(() =>
+        z.object({ name: z.string(), children: z.array(schema) }),
+      );
+
+      const result = generate({
+        schema,
+        formName: "CategoryForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "categorySchema",
+      });
+
+      expect(result.warnings).toEqual([]);
+      expect(result.code).not.toContain("noExplicitAny");
+      expect(result.code).toContain(
+        "function useCategoryForm(initialValues: Partial<Category> | undefined, onSubmit: CategoryFormProps['onSubmit']) {\n  return useForm({",
+      );
+      expect(result.code).toContain(
+        "type CategoryFormApi = ReturnType<typeof useCategoryForm>;",
+      );
+      expect(result.code).toContain(
+        "  const form = useCategoryForm(initialValues, onSubmit);",
+      );
+      expect(result.code).toContain(
+        "function RootRecursiveFields({ form, path }: { form: CategoryFormApi; path: string })",
+      );
+      expect(result.code).toContain(
+        `<RootRecursiveFields form={form} path={\`children[\${childIndex}]\`} />`,
+      );
+      expect(result.code).toContain(
+        `<RootRecursiveFields form={form} path={\`\${path}.children[\${childIndex}]\`} />`,
+      );
+      expect(result.code).toContain("children: [],");
+    });
+
+    it("omits recursive scaffolding for non-recursive schemas", () => {
+      const schema = z.object({ name: z.string() });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+      });
+
+      expect(result.code).not.toContain("function useTestForm(");
+      expect(result.code).toContain("  const form = useForm({");
+    });
+  });
+
+  describe("top-level unions", () => {
+    it("generates a variant-switching form for a discriminated union", () => {
+      const schema = z.discriminatedUnion("kind", [
+        z.object({ kind: z.literal("person"), name: z.string() }),
+        z.object({ kind: z.literal("company"), vatId: z.string() }),
+      ]);
+
+      const result = generate({
+        schema,
+        formName: "PartyForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "partySchema",
+      });
+
+      expect(result.warnings).toEqual([]);
+      expect(result.fields).toEqual(["kind", "name", "vatId"]);
+      expect(result.code).toContain('person: {\n    kind: "person",');
+      expect(result.code).toContain('company: {\n    kind: "company",');
+      expect(result.code).toContain(
+        '{(kindValue) => kindValue === "company" && (',
+      );
+    });
+
+    it("applies overrides to variant fields", () => {
+      const schema = z.discriminatedUnion("kind", [
+        z.object({ kind: z.literal("person"), bio: z.string() }),
+        z.object({ kind: z.literal("company"), vatId: z.string() }),
+      ]);
+
+      const result = generate({
+        schema,
+        formName: "PartyForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "partySchema",
+        overrides: { bio: { component: "Textarea" } },
+      });
+
+      expect(result.warnings).toEqual([]);
+      expect(result.code).toContain("<Textarea");
+    });
+  });
+
+  describe("wizard steps", () => {
+    const schema = z.object({
+      email: z.string(),
+      profile: z.object({ bio: z.string() }).describe("Tell us about yourself"),
+      address: z.object({ city: z.string() }),
+      terms: z.boolean(),
+    });
+
+    it("generates a wizard from explicit steps", () => {
+      const result = generate({
+        schema,
+        formName: "OnboardingForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "onboardingSchema",
+        steps: [
+          { id: "account", label: "Account", fields: ["email", "terms"] },
+          { id: "about", label: "About", fields: ["profile", "address"] },
+        ],
+      });
+
+      expect(result.code).toContain("const STEPS = [");
+      expect(result.code).toContain(
+        '{ id: "account", label: "Account", fields: ["email", "terms"] },',
+      );
+    });
+
+    it("derives one step per object field in auto mode", () => {
+      const result = generate({
+        schema,
+        formName: "OnboardingForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "onboardingSchema",
+        steps: "auto",
+      });
+
+      expect(result.code).toContain(
+        '{ id: "details", label: "Details", fields: ["email"] },',
+      );
+      expect(result.code).toContain(
+        '{ id: "profile", label: "Profile", description: "Tell us about yourself", fields: ["profile"] },',
+      );
+      expect(result.code).toContain(
+        '{ id: "details-2", label: "Details", fields: ["terms"] },',
+      );
+    });
+
+    it("renders only the selected sub-fields of a split object", () => {
+      const result = generate({
+        schema,
+        formName: "OnboardingForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "onboardingSchema",
+        steps: [
+          {
+            id: "account",
+            label: "Account",
+            fields: ["email", "address.city"],
+          },
+          {
+            id: "about",
+            label: "About",
+            fields: ["profile.bio", "terms"],
+          },
+        ],
+      });
+
+      const [, first, second] = result.code.split(/currentStep === \d && /);
+      expect(first).toContain('name="address.city"');
+      expect(first).toContain("<CardTitle>Address</CardTitle>");
+      expect(first).not.toContain('name="profile.bio"');
+      expect(second).toContain('name="profile.bio"');
+      expect(second).toContain("<CardTitle>Profile</CardTitle>");
+      expect(result.code).toContain(
+        "  onboardingSchema.pick({ email: true, address: true }),\n  onboardingSchema.pick({ profile: true, terms: true }),",
+      );
+    });
+
+    it("adds a review step when review is set", () => {
+      const result = generate({
+        schema,
+        formName: "OnboardingForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "onboardingSchema",
+        steps: "auto",
+        review: true,
+      });
+
+      expect(result.code).toContain("{isLastStep && (<>");
+      expect(result.code).toContain(
+        "<dd>{formatReviewValue(values.profile?.bio)}</dd>",
+      );
+    });
+
+    it("persists wizard drafts when persist is set", () => {
+      const result = generate({
+        schema,
+        formName: "OnboardingForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "onboardingSchema",
+        steps: "auto",
+        persist: "session",
+      });
+
+      expect(result.code).toContain("window.sessionStorage;");
+      expect(result.code).toContain("function discardDraft()");
+    });
+
+    it("rejects steps that reference unknown fields", () => {
+      expect(() =>
+        generate({
+          schema,
+          formName: "OnboardingForm",
+          schemaImportPath: "./schema",
+          schemaExportName: "onboardingSchema",
+          steps: [{ id: "a", label: "A", fields: ["nope"] }],
+        }),
+      ).toThrow('Step "a" references unknown field "nope"');
+    });
+
+    describe("root refinements", () => {
+      const refined = z
+        .object({
+          hasSpouse: z.boolean(),
+          spouseName: z.string().optional(),
+          email: z.string(),
+        })
+        .refine((value) => !value.hasSpouse || !!value.spouseName);
+      const steps = [
+        { id: "you", label: "You", fields: ["hasSpouse", "email"] },
+        { id: "spouse", label: "Spouse", fields: ["spouseName"] },
+      ];
+
+      it("leaves undeclared refinements to the submit validator", () => {
+        const result = generate({
+          schema: refined,
+          formName: "HouseholdForm",
+          schemaImportPath: "./schema",
+          schemaExportName: "householdSchema",
+          steps,
+        });
+
+        expect(result.code).not.toContain(".check(ROOT_CHECKS[0])");
+        expect(result.code).toContain("onSubmit: householdSchema,");
+      });
+
+      it("keeps a declared refinement on the step holding its fields", () => {
+        const result = generate({
+          schema: refined,
+          formName: "HouseholdForm",
+          schemaImportPath: "./schema",
+          schemaExportName: "householdSchema",
+          steps: [
+            {
+              id: "you",
+              label: "You",
+              fields: ["hasSpouse", "spouseName", "email"],
+            },
+          ],
+          refinementFields: [["hasSpouse", "spouseName"]],
+        });
+
+        expect(result.code).toContain(
+          "UNREFINED_SCHEMA.pick({ hasSpouse: true, spouseName: true, email: true }).check(ROOT_CHECKS[0]),",
+        );
+      });
+
+      it("rejects declared refinement fields that do not exist", () => {
+        expect(() =>
+          generate({
+            schema: refined,
+            formName: "HouseholdForm",
+            schemaImportPath: "./schema",
+            schemaExportName: "householdSchema",
+            steps,
+            refinementFields: [["spouse"]],
+          }),
+        ).toThrow('refinementFields[0] references unknown field "spouse"');
+      });
+    });
+
+    it("rejects auto steps for top-level unions", () => {
+      expect(() =>
+        generate({
+          schema: z.union([
+            z.object({ a: z.string() }),
+            z.object({ b: z.string() }),
+          ]),
+          formName: "UnionForm",
+          schemaImportPath: "./schema",
+          schemaExportName: "unionSchema",
+          steps: "auto",
+        }),
+      ).toThrow("Wizard steps are not supported for top-level union schemas");
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("reports unions without a discriminator below the root", () => {
+      const schema = z.object({
+        contact: z.union([
+          z.object({ email: z.string() }),
+          z.object({ phone: z.string() }),
+        ]),
+      });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+      });
+
+      expect(result.diagnostics).toMatchObject([
+        { code: "unsupported-union", severity: "warning", path: "contact" },
+      ]);
+      expect(result.warnings).toEqual([
+        'Field "contact": union without a discriminator is not rendered',
+      ]);
+    });
+
+    it("reports composites nested inside array items", () => {
+      const schema = z.object({
+        rows: z.array(
+          z.object({ tags: z.array(z.string()), label: z.string() }),
+        ),
+      });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+      });
+
+      expect(result.diagnostics).toMatchObject([
+        {
+          code: "unsupported-nesting",
+          path: "rows.item.tags",
+          schemaType: "array",
+          message: "array fields inside array items are not rendered",
+        },
+      ]);
+    });
+
+    it("returns no diagnostics for fully supported schemas", () => {
+      const schema = z.object({
+        name: z.string(),
+        tags: z.array(z.string()),
+      });
+
+      const result = generate({
+        schema,
+        formName: "TestForm",
+        schemaImportPath: "./schema",
+        schemaExportName: "testSchema",
+      });
+
+      expect(result.diagnostics).toEqual([]);
+    });
   });
 
   describe("error handling", () => {
@@ -340,6 +925,13 @@ describe("generate", () => {
           expect.stringContaining("Unsupported field type"),
         ]),
       );
+      expect(result.diagnostics).toContainEqual(
+        expect.objectContaining({
+          code: "unresolved-field",
+          severity: "error",
+          path: "broken",
+        }),
+      );
 
       vi.restoreAllMocks();
     });
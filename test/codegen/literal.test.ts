@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { serializeLiteral } from "../../src/codegen/templates/literal";
+
+describe("serializeLiteral", () => {
+  it("serializes primitives", () => {
+    expect(serializeLiteral('a "b"')).toBe('"a \\"b\\""');
+    expect(serializeLiteral(42)).toBe("42");
+    expect(serializeLiteral(false)).toBe("false");
+    expect(serializeLiteral(null)).toBe("null");
+    expect(serializeLiteral(undefined)).toBe("undefined");
+    expect(serializeLiteral(10n)).toBe("10n");
+  });
+
+  it("serializes dates as Date constructors", () => {
+    expect(serializeLiteral(new Date("2024-05-01T12:00:00.000Z"))).toBe(
+      'new Date("2024-05-01T12:00:00.000Z")',
+    );
+  });
+
+  it("serializes arrays and nested plain objects", () => {
+    expect(serializeLiteral([1, "two", [true]])).toBe('[1, "two", [true]]');
+    expect(serializeLiteral({ a: 1, nested: { b: [] } })).toBe(
+      "{ a: 1, nested: { b: [] } }",
+    );
+    expect(serializeLiteral({})).toBe("{}");
+  });
+
+  it("quotes object keys that are not identifiers", () => {
+    expect(serializeLiteral({ "first-name": "Ada", "2fa": true })).toBe(
+      '{ "first-name": "Ada", "2fa": true }',
+    );
+  });
+
+  it("returns undefined for values without a literal form", () => {
+    expect(serializeLiteral(() => 1)).toBeUndefined();
+    expect(serializeLiteral(new Map())).toBeUndefined();
+    expect(serializeLiteral(new Date("invalid"))).toBeUndefined();
+    expect(serializeLiteral([1, new Set()])).toBeUndefined();
+    expect(serializeLiteral({ a: Symbol("x") })).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { deriveSteps } from "../../src/codegen/steps";
+import type { FieldDescriptor } from "../../src/introspection";
+
+function createField(
+  name: string,
+  type: FieldDescriptor["type"] = "string",
+  description?: string,
+): FieldDescriptor {
+  return {
+    name,
+    label: name.charAt(0).toUpperCase() + name.slice(1),
+    ...(description ? { description } : {}),
+    type,
+    isOptional: false,
+    isNullable: false,
+    constraints: {},
+    metadata:
+      type === "object" ? { kind: "object", fields: [] } : { kind: "string" },
+  };
+}
+
+describe("deriveSteps", () => {
+  it("makes one step per object field with its label and description", () => {
+    const steps = deriveSteps([
+      createField("account", "object", "Sign-in details"),
+      createField("profile", "object"),
+    ]);
+
+    expect(steps).toEqual([
+      {
+        id: "account",
+        label: "Account",
+        description: "Sign-in details",
+        fields: ["account"],
+      },
+      { id: "profile", label: "Profile", fields: ["profile"] },
+    ]);
+  });
+
+  it("groups runs of other fields into Details steps", () => {
+    const steps = deriveSteps([
+      createField("email"),
+      createField("phone"),
+      createField("address", "object"),
+      createField("terms", "boolean"),
+    ]);
+
+    expect(steps.map((s) => [s.id, s.fields])).toEqual([
+      ["details", ["email", "phone"]],
+      ["address", ["address"]],
+      ["details-2", ["terms"]],
+    ]);
+  });
+
+  it("keeps generated ids distinct from object field names", () => {
+    const steps = deriveSteps([
+      createField("name"),
+      createField("details", "object"),
+    ]);
+
+    expect(steps.map((s) => s.id)).toEqual(["details-2", "details"]);
+  });
+
+  it("returns no steps for an empty form", () => {
+    expect(deriveSteps([])).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import {
+  generateTableFile,
+  tableComponentName,
+} from "../../src/codegen/templates/table";
+import { introspect } from "../../src/introspection";
+import type { ComponentConfig } from "../../src/mapping";
+import { resolveField } from "../../src/mapping";
+
+const orderSchema = z.object({
+  name: z.string(),
+  status: z.enum(["open", "inProgress"]),
+  placedAt: z.date(),
+  paid: z.boolean(),
+  address: z.object({ city: z.string() }),
+  items: z
+    .array(z.object({ sku: z.string(), "unit-price": z.number() }))
+    .optional(),
+});
+
+function generateTable(
+  options: { field?: string; sortable?: boolean } = {},
+  schema: z.ZodType = orderSchema,
+): string {
+  const form = introspect(schema, {
+    formName: "OrderForm",
+    schemaImportPath: "./schema",
+    schemaExportName: "orderSchema",
+  });
+  const fieldConfigs = new Map<string, ComponentConfig>(
+    form.fields.map((f) => [f.name, resolveField(f)]),
+  );
+  return generateTableFile({ form, fieldConfigs, ...options });
+}
+
+describe("tableComponentName", () => {
+  it("derives the name from the form and field", () => {
+    expect(tableComponentName("OrderForm")).toBe("OrderTable");
+    expect(tableComponentName("OrderForm", "items")).toBe("OrderItemsTable");
+    expect(tableComponentName("OrderForm", "billing.line-items")).toBe(
+      "OrderBillingLineItemsTable",
+    );
+  });
+});
+
+describe("generateTableFile", () => {
+  it("generates a typed table with a row-action slot", () => {
+    const output = generateTable();
+
+    expect(output).toContain("import type { ReactNode } from 'react';");
+    expect(output).toContain("type OrderRow = Order;");
+    expect(output).toContain("  rows: OrderRow[];");
+    expect(output).toContain(
+      "  rowActions?: (row: OrderRow, index: number) => ReactNode;",
+    );
+    expect(output).toContain(
+      "export function OrderTable({ rows, rowActions }: OrderTableProps) {",
+    );
+    expect(output).toContain(
+      '{rowActions && <td className="px-2 py-1 text-right">{rowActions(row, index)}</td>}',
+    );
+    expect(output).not.toContain("'use client'");
+  });
+
+  it("derives columns from scalar fields with formatted cells", () => {
+    const output = generateTable();
+
+    expect(output).toContain(
+      '<th className="px-2 py-1 text-left font-medium">Placed At</th>',
+    );
+    expect(output).toContain(
+      '<td className="px-2 py-1">{formatOption(row.status, { open: "Open", inProgress: "In Progress" })}</td>',
+    );
+    expect(output).toContain(
+      '<td className="px-2 py-1">{formatValue(row.placedAt)}</td>',
+    );
+    expect(output).toContain(
+      '<td className="px-2 py-1">{formatValue(row.paid)}</td>',
+    );
+    expect(output).not.toContain("row.address");
+    expect(output).not.toContain("row.items");
+    expect(output).toContain("<td colSpan={4 + (rowActions ? 1 : 0)}");
+  });
+
+  it("lists the elements of an array-of-objects field", () => {
+    const output = generateTable({ field: "items" });
+
+    expect(output).toContain(
+      'type OrderItemsRow = NonNullable<Order["items"]>[number];',
+    );
+    expect(output).toContain("export function OrderItemsTable(");
+    expect(output).toContain('{formatValue(row["unit-price"])}');
+  });
+
+  it("adds sorting when sortable", () => {
+    const output = generateTable({ sortable: true });
+
+    expect(output).toContain("'use client';");
+    expect(output).toContain(
+      "import { type ReactNode, useState } from 'react';",
+    );
+    expect(output).toContain("function compareValues(a: unknown, b: unknown)");
+    expect(output).toContain(
+      '<button type="button" onClick={() => toggleSort("name")}>',
+    );
+    expect(output).toContain('aria-sort={ariaSort("name")}');
+    expect(output).toContain("{sortedRows.map(({ row, index }) => (");
+  });
+
+  it("passes rowActions the row's index in the unsorted rows", () => {
+    const output = generateTable({ sortable: true });
+
+    expect(output).toContain(
+      "const entries = rows.map((row, index) => ({ row, index }));",
+    );
+    expect(output).toContain("compareValues(a.row[sort.key], b.row[sort.key])");
+    expect(output).toContain("{rowActions(row, index)}");
+  });
+
+  it("rejects fields that are not arrays of objects", () => {
+    expect(() => generateTable({ field: "address" })).toThrow(
+      'Table field "address" is not an array of objects',
+    );
+    expect(() => generateTable({ field: "nope" })).toThrow(
+      'Table field "nope" does not exist',
+    );
+  });
+
+  it("rejects top-level unions", () => {
+    expect(() =>
+      generateTable(
+        {},
+        z.union([z.object({ a: z.string() }), z.object({ b: z.string() })]),
+      ),
+    ).toThrow("Tables are not supported for top-level union schemas");
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import {
+  generateViewFile,
+  viewComponentName,
+} from "../../src/codegen/templates/view";
+import { introspect } from "../../src/introspection";
+import type { ComponentConfig } from "../../src/mapping";
+import { resolveField } from "../../src/mapping";
+
+function generateView(schema: z.ZodType, overrides = {}): string {
+  const form = introspect(schema, {
+    formName: "OrderForm",
+    schemaImportPath: "./schema",
+    schemaExportName: "orderSchema",
+  });
+  const resolveAll = (fields: typeof form.fields) =>
+    new Map<string, ComponentConfig>(
+      fields.map((f) => [f.name, resolveField(f, undefined, overrides)]),
+    );
+  return generateViewFile({
+    form,
+    fieldConfigs: resolveAll(form.fields),
+    variantConfigs: form.union?.variants.map((v) => resolveAll(v.fields)),
+  });
+}
+
+describe("viewComponentName", () => {
+  it("replaces a Form suffix with View", () => {
+    expect(viewComponentName("UserForm")).toBe("UserView");
+  });
+
+  it("appends View otherwise", () => {
+    expect(viewComponentName("Checkout")).toBe("CheckoutView");
+    expect(viewComponentName("Form")).toBe("FormView");
+  });
+});
+
+describe("generateViewFile", () => {
+  it("generates a typed component taking the value", () => {
+    const output = generateView(z.object({ name: z.string() }));
+
+    expect(output).toContain("import type { Order } from './schema';");
+    expect(output).toContain("interface OrderViewProps {\n  value: Order;\n}");
+    expect(output).toContain(
+      "export function OrderView({ value }: OrderViewProps) {",
+    );
+    expect(output).not.toContain("'use client'");
+  });
+
+  it("renders scalars as definition list entries", () => {
+    const output = generateView(
+      z.object({ name: z.string(), born: z.date(), total: z.number() }),
+    );
+
+    expect(output).toContain(
+      '<dt className="text-sm text-muted-foreground">Name</dt>',
+    );
+    expect(output).toContain("{formatValue(value.name)}");
+    expect(output).toContain("{formatValue(value.born)}");
+    expect(output).toContain(
+      "if (value instanceof Date) return value.toLocaleDateString();",
+    );
+    expect(output).toContain(
+      "if (typeof value === 'number') return value.toLocaleString();",
+    );
+    expect(output).not.toContain("function formatOption(");
+  });
+
+  it("shows enum values with their option labels", () => {
+    const output = generateView(
+      z.object({ status: z.enum(["inProgress", "not_started"]) }),
+    );
+
+    expect(output).toContain(
+      '{formatOption(value.status, { inProgress: "In Progress", not_started: "Not started" })}',
+    );
+    expect(output).toContain("function formatOption(");
+  });
+
+  it("nests objects with optional-chained reads", () => {
+    const output = generateView(
+      z.object({ address: z.object({ "zip-code": z.string() }) }),
+    );
+
+    expect(output).toContain(
+      '<dt className="text-sm text-muted-foreground">Address</dt>',
+    );
+    expect(output).toContain('{formatValue(value.address?.["zip-code"])}');
+  });
+
+  it("renders arrays of objects as tables", () => {
+    const output = generateView(
+      z.object({
+        items: z.array(
+          z.object({ sku: z.string(), sizes: z.array(z.number()) }),
+        ),
+      }),
+    );
+
+    expect(output).toContain(
+      '<th className="py-1 pr-4 text-left font-medium">Sku</th>',
+    );
+    expect(output).toContain("{value.items.map((item, index) => (");
+    expect(output).toContain("{formatValue(item.sku)}");
+    expect(output).toContain("{item.sizes.map((item2, index2) => (");
+  });
+
+  it("renders other arrays as lists and records by key", () => {
+    const output = generateView(
+      z.object({
+        tags: z.array(z.string()),
+        scores: z.record(z.string(), z.number()),
+      }),
+    );
+
+    expect(output).toContain('<ul className="list-disc pl-4">');
+    expect(output).toContain("{value.tags.map((item, index) => (");
+    expect(output).toContain(
+      "{Object.entries(value.scores).map(([key, item]) => (",
+    );
+  });
+
+  it("shows the fields of the active union variant", () => {
+    const output = generateView(
+      z.object({
+        payment: z.discriminatedUnion("kind", [
+          z.object({ kind: z.literal("card"), number: z.string() }),
+          z.object({ kind: z.literal("bank"), iban: z.string() }),
+        ]),
+      }),
+    );
+
+    expect(output).toContain('{value.payment?.kind === "card" ? (');
+    expect(output).toContain(') : value.payment?.kind === "bank" ? (');
+    expect(output).toContain(
+      '<p className="text-sm font-medium">Kind: Bank</p>',
+    );
+    expect(output).toContain("{formatValue(value.payment?.iban)}");
+  });
+
+  it("picks the variant of a plain top-level union by its required keys", () => {
+    const output = generateView(
+      z.union([z.object({ a: z.string() }), z.object({ b: z.number() })]),
+    );
+
+    expect(output).toContain('{"a" in value ? (');
+    expect(output).toContain(') : "b" in value ? (');
+    expect(output).toContain("  return (\n    <>\n");
+  });
+
+  it("applies resolved labels and hides hidden fields", () => {
+    const output = generateView(
+      z.object({
+        name: z.string(),
+        secret: z.string().meta({ hidden: true }),
+      }),
+      { name: { fieldProps: { label: "Full name" } } },
+    );
+
+    expect(output).toContain(
+      '<dt className="text-sm text-muted-foreground">Full name</dt>',
+    );
+    expect(output).not.toContain("value.secret");
+  });
+
+  it("renders recursive fields with a recursive view component", () => {
+    interface Category {
+      name: string;
+      children: Category[];
+    }
+    const category: z.ZodType<Category> = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(category);
+      },
+    });
+    const output = generateView(category);
+
+    expect(output).toContain(
+      "function RootRecursiveView({ value }: { value: Order }) {",
+    );
+    expect(output).toContain(
+      "{item ? <RootRecursiveView value={item} /> : '—'}",
+    );
+  });
+
+  it("types nested recursive views from the ref's path", () => {
+    interface Node {
+      label: string;
+      children: Node[];
+    }
+    const node: z.ZodType<Node> = z.object({
+      label: z.string(),
+      get children() {
+        return z.array(node);
+      },
+    });
+    const output = generateView(
+      z.object({ tree: node.optional(), items: z.array(node) }),
+    );
+
+    expect(output).toContain(
+      'function TreeRecursiveView({ value }: { value: NonNullable<Order["tree"]> }) {',
+    );
+    expect(output).toContain(
+      'function ItemsItemRecursiveView({ value }: { value: NonNullable<NonNullable<Order["items"]>[number]> }) {',
+    );
+    expect(output).not.toContain("any");
+  });
+});
@@ -0,0 +1,102 @@
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  findConfigFile,
+  loadConfig,
+  mergeMappingConfig,
+} from "../../src/config/loader";
+import type { MappingRule } from "../../src/mapping";
+
+const CONFIG_FIXTURES = path.resolve(__dirname, "../fixtures/config");
+
+function createRule(name: string): MappingRule {
+  return {
+    name,
+    match: () => true,
+    component: "Input",
+    getProps: () => ({}),
+  };
+}
+
+describe("findConfigFile", () => {
+  it("finds kelex.config.mjs in a directory", () => {
+    expect(findConfigFile(CONFIG_FIXTURES)).toBe(
+      path.join(CONFIG_FIXTURES, "kelex.config.mjs"),
+    );
+  });
+
+  it("returns undefined when no config exists", () => {
+    expect(findConfigFile(__dirname)).toBeUndefined();
+  });
+});
+
+describe("loadConfig", () => {
+  it("loads and validates the default export", async () => {
+    const config = await loadConfig(
+      path.join(CONFIG_FIXTURES, "kelex.config.mjs"),
+    );
+
+    expect(config.ui).toBe("@/components/ui");
+    expect(config.targets).toHaveLength(1);
+    expect(config.targets?.[0].export).toBe("userSchema");
+  });
+
+  it("throws for a missing file", async () => {
+    await expect(loadConfig("/nonexistent/kelex.config.mjs")).rejects.toThrow(
+      "Config file not found",
+    );
+  });
+
+  it("throws for an invalid config", async () => {
+    await expect(
+      loadConfig(path.join(CONFIG_FIXTURES, "invalid.config.mjs")),
+    ).rejects.toThrow("Invalid kelex config:\n  targets.0.schema");
+  });
+});
+
+describe("mergeMappingConfig", () => {
+  it("orders target rules around the shared ones", () => {
+    const merged = mergeMappingConfig(
+      {
+        rules: {
+          prepend: [createRule("shared-first")],
+          append: [createRule("shared-last")],
+        },
+      },
+      {
+        rules: {
+          prepend: [createRule("target-first")],
+          append: [createRule("target-last")],
+        },
+      },
+    );
+
+    expect(merged.rules?.prepend?.map((r) => r.name)).toEqual([
+      "target-first",
+      "shared-first",
+    ]);
+    expect(merged.rules?.append?.map((r) => r.name)).toEqual([
+      "shared-last",
+      "target-last",
+    ]);
+  });
+
+  it("lets target replacements and overrides win", () => {
+    const merged = mergeMappingConfig(
+      {
+        rules: { replace: [createRule("string-default")] },
+        overrides: { a: { component: "Input" }, b: { component: "Input" } },
+      },
+      {
+        rules: { replace: [createRule("string-default")] },
+        overrides: { b: { component: "Textarea" } },
+      },
+    );
+
+    expect(merged.rules?.replace).toHaveLength(2);
+    expect(merged.overrides).toEqual({
+      a: { component: "Input" },
+      b: { component: "Textarea" },
+    });
+  });
+});
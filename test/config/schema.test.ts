@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { validateConfig } from "../../src/config/schema";
+
+const rule = {
+  name: "custom",
+  match: () => true,
+  component: "Input",
+  getProps: () => ({}),
+};
+
+describe("validateConfig", () => {
+  it("accepts an empty config", () => {
+    expect(validateConfig({})).toEqual({});
+  });
+
+  it("accepts a config with targets, rules and overrides", () => {
+    const config = {
+      ui: "@/components/ui",
+      rules: { prepend: [rule] },
+      overrides: { "address.country": { component: "Select" } },
+      targets: [
+        {
+          schema: "./schemas/user.ts",
+          export: "userSchema",
+          output: "./forms/user-form.tsx",
+          name: "UserForm",
+          overrides: { email: { fieldProps: { label: "E-mail" } } },
+        },
+      ],
+    };
+
+    const result = validateConfig(config);
+
+    expect(result).toEqual(config);
+    expect(result.rules?.prepend?.[0]).toBe(rule);
+  });
+
+  it("accepts explicit and automatic wizard steps on targets", () => {
+    const config = {
+      targets: [
+        { schema: "./a.ts", steps: "auto" },
+        {
+          schema: "./b.ts",
+          steps: [
+            { id: "account", label: "Account", fields: ["email"] },
+            {
+              id: "company",
+              label: "Company",
+              fields: ["vatId"],
+              condition: { field: "kind", equals: ["business"] },
+            },
+          ],
+          refinementFields: [["email", "vatId"]],
+          review: true,
+          persist: "session",
+          dragHandles: true,
+          view: true,
+          table: { field: "items", sortable: true },
+          fixtures: true,
+        },
+      ],
+    };
+
+    expect(validateConfig(config)).toEqual(config);
+  });
+
+  it("rejects steps without fields", () => {
+    expect(() =>
+      validateConfig({
+        targets: [
+          { schema: "./a.ts", steps: [{ id: "a", label: "A", fields: [] }] },
+        ],
+      }),
+    ).toThrow("targets.0.steps");
+  });
+
+  it("rejects a target without a schema path", () => {
+    expect(() =>
+      validateConfig({ targets: [{ export: "userSchema" }] }),
+    ).toThrow("targets.0.schema");
+  });
+
+  it("rejects unknown keys", () => {
+    expect(() =>
+      validateConfig({ targets: [{ schema: "./a.ts", outptu: "x" }] }),
+    ).toThrow('Unrecognized key: "outptu"');
+  });
+
+  it("rejects override components that do not exist", () => {
+    expect(() =>
+      validateConfig({ overrides: { country: { component: "Selct" } } }),
+    ).toThrow("overrides.country.component");
+  });
+
+  it("rejects rules that are not mapping rules", () => {
+    expect(() =>
+      validateConfig({ rules: { append: [{ name: "broken" }] } }),
+    ).toThrow("rules.append.0: expected a mapping rule");
+  });
+
+  it("lists every issue", () => {
+    expect(() => validateConfig({ ui: 1, targets: "all" })).toThrow(
+      /Invalid kelex config:\n {2}ui: .*\n {2}targets: /,
+    );
+  });
+
+  it("rejects non-object configs", () => {
+    expect(() => validateConfig("config")).toThrow("(root)");
+  });
+});
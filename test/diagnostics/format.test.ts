@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { formatDiagnostic, isAtLeastSeverity } from "../../src/diagnostics";
+
+describe("formatDiagnostic", () => {
+  it("prefixes field diagnostics with their path", () => {
+    expect(
+      formatDiagnostic({
+        code: "unsupported-type",
+        severity: "warning",
+        path: "address.zip",
+        message: 'unsupported type "bigint", treating as string',
+      }),
+    ).toBe(
+      'Field "address.zip": unsupported type "bigint", treating as string',
+    );
+  });
+
+  it("returns the bare message for form-level diagnostics", () => {
+    expect(
+      formatDiagnostic({
+        code: "unsupported-nesting",
+        severity: "warning",
+        path: "",
+        message: "something about the form",
+      }),
+    ).toBe("something about the form");
+  });
+});
+
+describe("isAtLeastSeverity", () => {
+  it("compares severities in warning < error order", () => {
+    expect(isAtLeastSeverity("error", "warning")).toBe(true);
+    expect(isAtLeastSeverity("warning", "warning")).toBe(true);
+    expect(isAtLeastSeverity("warning", "error")).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "../../src/diff/unified";
+
+function lines(count: number, prefix = "line"): string {
+  return `${Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`).join("\n")}\n`;
+}
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string for identical texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("emits headers and a hunk for a changed line", () => {
+    const diff = createUnifiedDiff("a\nb\nc\n", "a\nB\nc\n", {
+      fromFile: "old.tsx",
+      toFile: "new.tsx",
+    });
+
+    expect(diff).toBe(
+      [
+        "--- old.tsx",
+        "+++ new.tsx",
+        "@@ -1,3 +1,3 @@",
+        " a",
+        "-b",
+        "+B",
+        " c",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("limits context to three lines by default", () => {
+    const before = lines(20);
+    const after = before.replace("line 10\n", "line ten\n");
+
+    const diff = createUnifiedDiff(before, after);
+
+    expect(diff).toContain("@@ -7,7 +7,7 @@");
+    expect(diff).toContain(" line 7\n");
+    expect(diff).not.toContain(" line 6\n");
+    expect(diff).toContain(" line 13\n");
+    expect(diff).not.toContain(" line 14\n");
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const before = lines(30);
+    const after = before
+      .replace("line 2\n", "line two\n")
+      .replace("line 28\n", "line twenty-eight\n");
+
+    const diff = createUnifiedDiff(before, after);
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain("@@ -1,5 +1,5 @@");
+    expect(diff).toContain("@@ -25,6 +25,6 @@");
+  });
+
+  it("merges changes separated by at most twice the context", () => {
+    const before = lines(20);
+    const after = before
+      .replace("line 5\n", "line five\n")
+      .replace("line 11\n", "line eleven\n");
+
+    const diff = createUnifiedDiff(before, after);
+
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+  });
+
+  it("reports insertions and deletions with correct ranges", () => {
+    const diff = createUnifiedDiff("a\nb\n", "a\nb\nc\nd\n", { context: 0 });
+
+    expect(diff).toContain("@@ -2,0 +3,2 @@\n+c\n+d\n");
+  });
+
+  it("diffs against empty text", () => {
+    const diff = createUnifiedDiff("", "x\n");
+
+    expect(diff).toContain("@@ -0,0 +1 @@\n+x\n");
+  });
+
+  it("marks a missing final newline", () => {
+    const diff = createUnifiedDiff("a\n", "a");
+
+    expect(diff).toContain("-a\n+a\n\\ No newline at end of file\n");
+  });
+});
@@ -0,0 +1 @@
+export default { targets: [{ schema: "" }] };
@@ -0,0 +1,10 @@
+export default {
+  ui: "@/components/ui",
+  targets: [
+    {
+      schema: "../user-schema.ts",
+      export: "userSchema",
+      output: "../output/user-form.tsx",
+    },
+  ],
+};
@@ -0,0 +1,6 @@
+import { z } from "zod/v4";
+
+export const orderSchema = z.object({
+  note: z.string(),
+  lines: z.array(z.object({ sku: z.string(), quantity: z.bigint() })),
+});
@@ -0,0 +1,15 @@
+export default {
+  rules: {
+    prepend: [
+      {
+        name: "bio-input",
+        match: (field) => field.name === "bio",
+        component: "Input",
+        getProps: () => ({ type: "text" }),
+      },
+    ],
+  },
+  overrides: {
+    role: { component: "Select" },
+  },
+};
@@ -0,0 +1,27 @@
+import ts from "typescript";
+
+/**
+ * Evaluates a generated fixtures module by transpiling it to CommonJS and
+ * running it, returning its factory export.
+ *
+ * The input is always from our own generateFixturesFile, never from user
+ * input; its only import is type-only and is erased by the transpile.
+ */
+export function evaluateFixtureFactory(
+  code: string,
+  factoryName: string,
+): (overrides?: Record<string, unknown>, seed?: number) => unknown {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  const exports: Record<string, unknown> = {};
+  // Using Function constructor to run our own generated code in tests.
+  new Function("exports", outputText)(exports);
+  return exports[factoryName] as (
+    overrides?: Record<string, unknown>,
+    seed?: number,
+  ) => unknown;
+}
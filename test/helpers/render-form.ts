@@ -0,0 +1,180 @@
+import ts from "typescript";
+
+interface Element {
+  type: unknown;
+  props: Record<string, unknown>;
+}
+
+interface FakeForm {
+  state: { values: Record<string, unknown> };
+  setFieldValue(name: string, value: unknown): void;
+}
+
+export interface RenderedForm {
+  form: FakeForm;
+  /** Calls the onClick of the button labelled `label` and re-renders */
+  click(label: string): void;
+  /** Re-renders after the form state changed outside of a click */
+  rerender(): void;
+}
+
+/**
+ * Stands in for the schema and UI modules: any property access, call or
+ * construction yields itself.
+ */
+const anything: unknown = new Proxy(() => {}, {
+  get: (_target, key) => (key === Symbol.toPrimitive ? undefined : anything),
+  apply: () => anything,
+});
+
+/**
+ * Renders a generated form module with minimal stand-ins for React and
+ * TanStack Form: hooks keep their state by call order, effects run after each
+ * render when their dependencies change, and rendering repeats until no state
+ * changes. Enough to drive the form's own logic, not its components.
+ *
+ * The input is always from our own generateFormFile, never from user input.
+ */
+export function renderForm(
+  code: string,
+  componentName: string,
+  props: Record<string, unknown>,
+): RenderedForm {
+  const hooks: unknown[] = [];
+  let index = 0;
+  let dirty = false;
+  let pending: (() => void)[] = [];
+  let form: FakeForm | undefined;
+
+  function slot<T>(create: () => T): T {
+    const i = index++;
+    if (!(i in hooks)) hooks[i] = create();
+    return hooks[i] as T;
+  }
+
+  const react = {
+    useState<T>(initial: T | (() => T)) {
+      const i = index++;
+      if (!(i in hooks)) {
+        hooks[i] =
+          typeof initial === "function" ? (initial as () => T)() : initial;
+      }
+      const setState = (next: T | ((prev: T) => T)) => {
+        const value =
+          typeof next === "function"
+            ? (next as (prev: T) => T)(hooks[i] as T)
+            : next;
+        if (!Object.is(value, hooks[i])) {
+          hooks[i] = value;
+          dirty = true;
+        }
+      };
+      return [hooks[i], setState];
+    },
+    useRef<T>(initial: T) {
+      return slot(() => ({ current: initial }));
+    },
+    useEffect(effect: () => void, deps: unknown[]) {
+      const i = index++;
+      const prev = hooks[i] as unknown[] | undefined;
+      if (!prev || deps.some((dep, j) => !Object.is(dep, prev[j]))) {
+        hooks[i] = deps;
+        pending.push(effect);
+      }
+    },
+  };
+
+  const tanstack = {
+    useForm(options: { defaultValues: Record<string, unknown> }) {
+      return slot(() => {
+        const store = { state: { values: { ...options.defaultValues } } };
+        const setValues = (values: Record<string, unknown>) => {
+          store.state = { values };
+          dirty = true;
+        };
+        form = {
+          store,
+          get state() {
+            return store.state;
+          },
+          reset(values?: Record<string, unknown>) {
+            setValues({ ...(values ?? options.defaultValues) });
+          },
+          setFieldValue(name: string, value: unknown) {
+            setValues({ ...store.state.values, [name]: value });
+          },
+        } as FakeForm;
+        return form;
+      });
+    },
+    useStore<S, T>(store: { state: S }, selector: (state: S) => T) {
+      return selector(store.state);
+    },
+  };
+
+  const element = (type: unknown, elementProps: Record<string, unknown>) => ({
+    type,
+    props: elementProps,
+  });
+  const modules: Record<string, unknown> = {
+    react,
+    "react/jsx-runtime": { jsx: element, jsxs: element, Fragment: "Fragment" },
+    "@tanstack/react-form": tanstack,
+  };
+
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  });
+  const exports: Record<string, unknown> = {};
+  const require = (name: string) => modules[name] ?? anything;
+  // Using Function constructor to run our own generated code in tests.
+  new Function("exports", "require", outputText)(exports, require);
+  const component = exports[componentName] as (
+    props: Record<string, unknown>,
+  ) => unknown;
+
+  let tree: unknown;
+  function render() {
+    for (let pass = 0; pass === 0 || dirty; pass++) {
+      if (pass === 10) throw new Error("Form keeps re-rendering");
+      dirty = false;
+      index = 0;
+      pending = [];
+      tree = component(props);
+      for (const effect of pending) effect();
+    }
+  }
+
+  function findButton(node: unknown, label: string): Element | undefined {
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        const found = findButton(child, label);
+        if (found) return found;
+      }
+      return undefined;
+    }
+    if (!node || typeof node !== "object" || !("props" in node)) {
+      return undefined;
+    }
+    const { props: nodeProps } = node as Element;
+    return nodeProps.children === label
+      ? (node as Element)
+      : findButton(nodeProps.children, label);
+  }
+
+  render();
+  return {
+    form: form as FakeForm,
+    click(label) {
+      const button = findButton(tree, label);
+      if (!button) throw new Error(`No "${label}" button rendered`);
+      (button.props.onClick as () => void)();
+      render();
+    },
+    rerender: render,
+  };
+}
@@ -34,6 +34,11 @@ describe("extractConstraints", () => {
       expect(constraints).toEqual({ format: "datetime" });
     });
 
+    it("extracts date and ipv4 formats", () => {
+      expect(extractConstraints(z.iso.date())).toEqual({ format: "date" });
+      expect(extractConstraints(z.ipv4())).toEqual({ format: "ipv4" });
+    });
+
     it("extracts minLength and maxLength", () => {
       const schema = z.string().min(5).max(100);
       const constraints = extractConstraints(schema);
@@ -46,6 +51,30 @@ describe("extractConstraints", () => {
       expect(constraints).toEqual({ pattern: "^[A-Z]+$" });
     });
 
+    it("extracts exact lengths as equal bounds", () => {
+      expect(extractConstraints(z.string().length(4))).toEqual({
+        minLength: 4,
+        maxLength: 4,
+      });
+      expect(extractConstraints(z.array(z.string()).length(2))).toEqual({
+        minItems: 2,
+        maxItems: 2,
+      });
+    });
+
+    it("extracts fixed prefixes, suffixes and substrings", () => {
+      const schema = z
+        .string()
+        .startsWith("sk_")
+        .includes("_live")
+        .endsWith("!");
+      expect(extractConstraints(schema)).toEqual({
+        startsWith: "sk_",
+        includes: "_live",
+        endsWith: "!",
+      });
+    });
+
     it("extracts multiple string constraints", () => {
       const schema = z.string().min(1).max(50).email();
       const constraints = extractConstraints(schema);
@@ -81,6 +81,85 @@ describe("introspect", () => {
         values: ["a", "b", "c"],
       });
     });
+
+    it("records literal values", () => {
+      const schema = z.object({
+        kind: z.literal("card"),
+        level: z.literal([1, 2]),
+      });
+      const [kind, level] = introspect(schema, defaultOptions).fields;
+
+      expect(kind.type).toBe("string");
+      expect(kind.metadata).toEqual({ kind: "literal", values: ["card"] });
+      expect(level.type).toBe("number");
+      expect(level.metadata).toEqual({ kind: "literal", values: [1, 2] });
+    });
+  });
+
+  describe("record keys", () => {
+    it("describes the key schema of a record", () => {
+      const schema = z.object({
+        headers: z.record(z.string().min(2).regex(/^x-/), z.string()),
+      });
+      const { metadata } = introspect(schema, defaultOptions).fields[0];
+
+      expect(metadata.kind === "record" && metadata.keyDescriptor).toEqual(
+        expect.objectContaining({
+          name: "key",
+          type: "string",
+          constraints: { minLength: 2, pattern: "^x-" },
+        }),
+      );
+      expect(metadata.kind === "record" && metadata.partial).toBeUndefined();
+    });
+
+    it("marks enum-keyed partial records", () => {
+      const schema = z.object({
+        full: z.record(z.enum(["en", "nl"]), z.string()),
+        partial: z.partialRecord(z.enum(["en", "nl"]), z.string()),
+      });
+      const [full, partial] = introspect(schema, defaultOptions).fields;
+
+      expect(full.metadata).toMatchObject({
+        kind: "record",
+        keyDescriptor: { type: "enum", metadata: { values: ["en", "nl"] } },
+      });
+      expect(full.metadata.kind === "record" && full.metadata.partial).toBe(
+        undefined,
+      );
+      expect(partial.metadata).toMatchObject({ kind: "record", partial: true });
+    });
+
+    it("describes one field per enum key", () => {
+      const schema = z.object({
+        hours: z.record(z.enum(["mon", "tueWed"]), z.number().min(0)),
+        prices: z.partialRecord(z.enum(["eu"]), z.number()),
+        headers: z.record(z.string(), z.string()),
+      });
+      const [hours, prices, headers] = introspect(
+        schema,
+        defaultOptions,
+      ).fields;
+
+      expect(hours.metadata.kind === "record" && hours.metadata.fields).toEqual(
+        [
+          expect.objectContaining({
+            name: "mon",
+            label: "Mon",
+            type: "number",
+            isOptional: false,
+            constraints: { min: 0 },
+          }),
+          expect.objectContaining({ name: "tueWed", label: "Tue Wed" }),
+        ],
+      );
+      expect(prices.metadata).toMatchObject({
+        fields: [{ name: "eu", isOptional: true }],
+      });
+      expect(
+        headers.metadata.kind === "record" && headers.metadata.fields,
+      ).toBeUndefined();
+    });
   });
 
   describe("optional handling", () => {
@@ -258,6 +337,87 @@ describe("introspect", () => {
       expect(result.fields[0].description).toBe("Help text");
       expect(result.fields[0].isOptional).toBe(true);
     });
+
+    it("includes description set outside an optional wrapper", () => {
+      const schema = z.object({
+        field: z.string().optional().describe("Outer help"),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0].description).toBe("Outer help");
+    });
+  });
+
+  describe("UI hints", () => {
+    it("reads hints from .meta()", () => {
+      const schema = z.object({
+        email: z.string().meta({
+          placeholder: "you@example.com",
+          helpText: "We never share it",
+          autocomplete: "email",
+          order: 2,
+          colSpan: 6,
+        }),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0].ui).toEqual({
+        placeholder: "you@example.com",
+        helpText: "We never share it",
+        autocomplete: "email",
+        order: 2,
+        colSpan: 6,
+      });
+    });
+
+    it("merges hints across wrappers with the outer value winning", () => {
+      const schema = z.object({
+        bio: z
+          .string()
+          .meta({ widget: "Textarea", placeholder: "inner" })
+          .optional()
+          .meta({ placeholder: "outer" }),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0].ui).toEqual({
+        widget: "Textarea",
+        placeholder: "outer",
+      });
+    });
+
+    it("omits ui when no hints are present", () => {
+      const schema = z.object({ field: z.string().meta({ title: "T" }) });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0]).not.toHaveProperty("ui");
+    });
+
+    it("warns and skips invalid hints", () => {
+      const schema = z.object({
+        field: z.string().meta({ widget: "Knob", hidden: true }),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0].ui).toEqual({ hidden: true });
+      expect(result.warnings).toContain(
+        'Field "field": ignoring invalid UI hint "widget"',
+      );
+    });
+
+    it("reads hints on nested object fields", () => {
+      const schema = z.object({
+        address: z.object({
+          zip: z.string().meta({ placeholder: "12345" }),
+        }),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      const metadata = result.fields[0].metadata;
+      expect(metadata.kind === "object" && metadata.fields[0].ui).toEqual({
+        placeholder: "12345",
+      });
+    });
   });
 
   describe("full schema test", () => {
@@ -312,6 +472,246 @@ describe("introspect", () => {
     });
   });
 
+  describe("default values", () => {
+    it("records .default() values on the field", () => {
+      const schema = z.object({
+        role: z.enum(["admin", "user"]).default("user"),
+        tags: z.array(z.string()).default(["new"]),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0].type).toBe("enum");
+      expect(result.fields[0].defaultValue).toBe("user");
+      expect(result.fields[1].type).toBe("array");
+      expect(result.fields[1].defaultValue).toEqual(["new"]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("evaluates function defaults once", () => {
+      const schema = z.object({
+        count: z.number().default(() => 42),
+      });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0].defaultValue).toBe(42);
+    });
+
+    it("records defaults on nested object fields", () => {
+      const schema = z.object({
+        settings: z.object({
+          theme: z.string().prefault("dark"),
+        }),
+      });
+      const result = introspect(schema, defaultOptions);
+      const settings = result.fields[0];
+
+      expect(settings.metadata.kind).toBe("object");
+      if (settings.metadata.kind === "object") {
+        expect(settings.metadata.fields[0].defaultValue).toBe("dark");
+      }
+    });
+
+    it("omits defaultValue when none is declared", () => {
+      const schema = z.object({ name: z.string() });
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0]).not.toHaveProperty("defaultValue");
+    });
+  });
+
+  describe("recursive schemas", () => {
+    it("accepts a z.lazy() schema at the top level", () => {
+      type Comment = { text: string; replies: Comment[] };
+      const schema: z.ZodType<Comment> = z.lazy(() =>
+        z.object({ text: z.string(), replies: z.array(schema) }),
+      );
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields.map((f) => f.name)).toEqual(["text", "replies"]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("represents a self-reference as a recursive field pointing at the root", () => {
+      type Comment = { text: string; replies: Comment[] };
+      const schema: z.ZodType<Comment> = z.lazy(() =>
+        z.object({ text: z.string(), replies: z.array(schema) }),
+      );
+
+      const result = introspect(schema, defaultOptions);
+      const replies = result.fields[1];
+
+      expect(replies.metadata.kind).toBe("array");
+      if (replies.metadata.kind === "array") {
+        expect(replies.metadata.element.type).toBe("recursive");
+        expect(replies.metadata.element.metadata).toEqual({
+          kind: "recursive",
+          ref: "",
+        });
+      }
+    });
+
+    it("detects getter-based recursion on a nested object", () => {
+      const menuItem = z.object({
+        label: z.string(),
+        get children() {
+          return z.array(menuItem);
+        },
+      });
+      const schema = z.object({ title: z.string(), menu: menuItem });
+
+      const result = introspect(schema, defaultOptions);
+      const menu = result.fields[1];
+
+      expect(menu.type).toBe("object");
+      if (menu.metadata.kind === "object") {
+        const children = menu.metadata.fields[1];
+        expect(children.metadata).toEqual({
+          kind: "array",
+          element: expect.objectContaining({
+            type: "recursive",
+            metadata: { kind: "recursive", ref: "menu" },
+          }),
+        });
+      }
+    });
+
+    it("keeps optional/nullable flags on a direct recursive field", () => {
+      type Node = { value: number; next?: Node | null };
+      const node: z.ZodType<Node> = z.lazy(() =>
+        z.object({ value: z.number(), next: node.nullish() }),
+      );
+
+      const result = introspect(node, defaultOptions);
+      const next = result.fields[1];
+
+      expect(next.type).toBe("recursive");
+      expect(next.isOptional).toBe(true);
+      expect(next.isNullable).toBe(true);
+    });
+
+    it("does not treat a schema reused by siblings as recursive", () => {
+      const address = z.object({ street: z.string() });
+      const schema = z.object({ billing: address, shipping: address });
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields.map((f) => f.type)).toEqual(["object", "object"]);
+    });
+
+    it("warns and falls back to string for recursion through non-objects", () => {
+      type Nested = Nested[];
+      const nested: z.ZodType<Nested> = z.lazy(() => z.array(nested));
+      const schema = z.object({ nested });
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.warnings).toEqual([
+        'Field "nested.item": recursive "array" schema is only supported through objects, treating as string',
+      ]);
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("reports nested problems with their full path", () => {
+      const schema = z.object({
+        orders: z.array(z.object({ id: z.bigint() })),
+      });
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.diagnostics).toEqual([
+        {
+          code: "unsupported-type",
+          severity: "warning",
+          path: "orders.item.id",
+          schemaType: "bigint",
+          message: 'unsupported type "bigint", treating as string',
+          suggestion:
+            "Use a supported type, or map the field with an override or custom mapping rule",
+        },
+      ]);
+      expect(result.warnings).toEqual([
+        'Field "orders.item.id": unsupported type "bigint", treating as string',
+      ]);
+    });
+
+    it("reports invalid UI hints with the hint key", () => {
+      const schema = z.object({
+        meta: z.object({ tag: z.string().meta({ order: "first" }) }),
+      });
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.diagnostics).toMatchObject([
+        {
+          code: "invalid-ui-hint",
+          path: "meta.tag",
+          schemaType: "string",
+          message: 'ignoring invalid UI hint "order"',
+        },
+      ]);
+    });
+
+    it("reports function defaults instead of freezing their value", () => {
+      const schema = z.object({
+        id: z.string().default(() => crypto.randomUUID()),
+      });
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields[0]).not.toHaveProperty("defaultValue");
+      expect(result.diagnostics).toMatchObject([
+        { code: "dynamic-default", severity: "warning", path: "id" },
+      ]);
+    });
+  });
+
+  describe("top-level unions", () => {
+    it("introspects a discriminated union into root variants", () => {
+      const schema = z.discriminatedUnion("method", [
+        z.object({ method: z.literal("card"), number: z.string() }),
+        z.object({ method: z.literal("paypal"), email: z.email() }),
+      ]);
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.fields).toEqual([]);
+      expect(result.union?.discriminator).toBe("method");
+      expect(result.union?.variants.map((v) => v.value)).toEqual([
+        "card",
+        "paypal",
+      ]);
+      expect(result.union?.variants[1].fields.map((f) => f.name)).toEqual([
+        "method",
+        "email",
+      ]);
+    });
+
+    it("names plain union variants by position", () => {
+      const schema = z.union([
+        z.object({ a: z.string() }),
+        z.object({ b: z.number() }),
+      ]);
+
+      const result = introspect(schema, defaultOptions);
+
+      expect(result.union?.discriminator).toBeUndefined();
+      expect(result.union?.variants.map((v) => v.value)).toEqual([
+        "variant_0",
+        "variant_1",
+      ]);
+    });
+
+    it("throws for unions with non-object options", () => {
+      const schema = z.union([z.object({ a: z.string() }), z.string()]);
+
+      expect(() => introspect(schema, defaultOptions)).toThrow(
+        'kelex only supports unions of z.object() schemas at the top level, got a "string" option',
+      );
+    });
+  });
+
   describe("error handling", () => {
     it("throws for non-object schema", () => {
       const schema = z.string();
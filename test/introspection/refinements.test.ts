@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod/v4";
+import { introspect } from "../../src/introspection";
+import { extractRefinements } from "../../src/introspection/refinements";
+
+describe("extractRefinements", () => {
+  it("returns an empty list for objects without refinements", () => {
+    const schema = z.object({ name: z.string() });
+    expect(extractRefinements(schema)).toEqual([]);
+  });
+
+  it("attributes path-scoped refinements to the path's top-level field", () => {
+    const schema = z
+      .object({ password: z.string(), confirm: z.string(), age: z.number() })
+      .refine((v) => v.password === v.confirm, { path: ["confirm"] })
+      .refine((v) => v.age >= 18)
+      .check(z.refine(() => true, { path: ["age", "value"] }))
+      .refine(() => true, { path: ["unknown"] });
+    expect(extractRefinements(schema)).toEqual([
+      { fields: ["confirm"] },
+      {},
+      { fields: ["age"] },
+      {},
+    ]);
+  });
+
+  it("never runs refinement callbacks", () => {
+    const refine = vi.fn(() => true);
+    const superRefine = vi.fn();
+    const schema = z
+      .object({ name: z.string() })
+      .refine(refine)
+      .superRefine(superRefine);
+    expect(extractRefinements(schema)).toEqual([{}, {}]);
+    expect(refine).not.toHaveBeenCalled();
+    expect(superRefine).not.toHaveBeenCalled();
+  });
+});
+
+describe("introspect refinements", () => {
+  const options = {
+    formName: "Form",
+    schemaImportPath: "./schema",
+    schemaExportName: "schema",
+  };
+
+  it("describes the refinements of an object root", () => {
+    const schema = z
+      .object({ a: z.string(), b: z.string() })
+      .refine((v) => v.a !== v.b, { path: ["b"] });
+    expect(introspect(schema, options).refinements).toEqual([
+      { fields: ["b"] },
+    ]);
+  });
+
+  it("leaves refinements undefined for roots that are not plain objects", () => {
+    const schema = z.lazy(() => z.object({ a: z.string() }));
+    expect(introspect(schema, options).refinements).toBeUndefined();
+  });
+});
@@ -21,8 +21,9 @@ describe("Introspection Types", () => {
         "union",
         "tuple",
         "record",
+        "recursive",
       ];
-      expect(types).toHaveLength(10);
+      expect(types).toHaveLength(11);
     });
   });
 
@@ -154,6 +155,7 @@ describe("Introspection Types", () => {
         schemaImportPath: "./schema",
         schemaExportName: "userSchema",
         warnings: [],
+        diagnostics: [],
       };
 
       expect(form.name).toBe("UserForm");
@@ -199,6 +201,7 @@ describe("Introspection Types", () => {
         schemaImportPath: "@/schemas/profile",
         schemaExportName: "profileSchema",
         warnings: [],
+        diagnostics: [],
       };
 
       expect(form.fields).toHaveLength(3);
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { extractUIHints } from "../../src/introspection/ui-hints";
+
+describe("extractUIHints", () => {
+  it("returns undefined without metadata", () => {
+    expect(extractUIHints(undefined)).toBeUndefined();
+  });
+
+  it("returns undefined when metadata has no UI hints", () => {
+    expect(extractUIHints({ description: "x", title: "T" })).toBeUndefined();
+  });
+
+  it("extracts every supported hint", () => {
+    const hints = extractUIHints({
+      placeholder: "Name",
+      helpText: "Your full name",
+      widget: "Textarea",
+      order: -1,
+      hidden: false,
+      colSpan: 2,
+      autocomplete: "name",
+    });
+
+    expect(hints).toEqual({
+      placeholder: "Name",
+      helpText: "Your full name",
+      widget: "Textarea",
+      order: -1,
+      hidden: false,
+      colSpan: 2,
+      autocomplete: "name",
+    });
+  });
+
+  it("reports keys with invalid values", () => {
+    const invalid: string[] = [];
+    const hints = extractUIHints(
+      {
+        placeholder: 42,
+        widget: "Knob",
+        order: Number.NaN,
+        hidden: "yes",
+        colSpan: 1.5,
+        helpText: "ok",
+      },
+      invalid,
+    );
+
+    expect(hints).toEqual({ helpText: "ok" });
+    expect(invalid).toEqual([
+      "placeholder",
+      "widget",
+      "order",
+      "hidden",
+      "colSpan",
+    ]);
+  });
+
+  it("rejects empty strings", () => {
+    const invalid: string[] = [];
+    expect(extractUIHints({ placeholder: "" }, invalid)).toBeUndefined();
+    expect(invalid).toEqual(["placeholder"]);
+  });
+});
@@ -110,6 +110,105 @@ describe("unwrapSchema", () => {
     expect(result.inner._zod.def.type).toBe("union");
   });
 
+  it("unwraps lazy schema to its resolved inner type", () => {
+    const inner = z.object({ name: z.string() });
+    const schema = z.lazy(() => inner);
+    const result = unwrapSchema(schema);
+
+    expect(result.inner).toBe(inner);
+    expect(result.isOptional).toBe(false);
+  });
+
+  it("unwraps optional around lazy around nullable", () => {
+    const schema = z.lazy(() => z.string().nullable()).optional();
+    const result = unwrapSchema(schema);
+
+    expect(result.inner._zod.def.type).toBe("string");
+    expect(result.isOptional).toBe(true);
+    expect(result.isNullable).toBe(true);
+  });
+
+  it("unwraps default and records the declared value", () => {
+    const schema = z.string().default("hello");
+    const result = unwrapSchema(schema);
+
+    expect(result.inner._zod.def.type).toBe("string");
+    expect(result.defaultValue).toBe("hello");
+    expect(result.isOptional).toBe(false);
+  });
+
+  it("unwraps prefault and records the declared value", () => {
+    const schema = z.number().prefault(5);
+    const result = unwrapSchema(schema);
+
+    expect(result.inner._zod.def.type).toBe("number");
+    expect(result.defaultValue).toBe(5);
+    expect(result.prefault).toBe(true);
+  });
+
+  it("keeps the outermost default when defaults are nested", () => {
+    const schema = z.string().default("inner").optional().default("outer");
+    const result = unwrapSchema(schema);
+
+    expect(result.defaultValue).toBe("outer");
+    expect(result.isOptional).toBe(true);
+  });
+
+  it("skips function defaults that compute a new value each time", () => {
+    let next = 0;
+    const stamped = unwrapSchema(z.date().default(() => new Date()));
+    const counted = unwrapSchema(z.number().default(() => next++));
+
+    expect(stamped).not.toHaveProperty("defaultValue");
+    expect(stamped.dynamicDefault).toBe(true);
+    expect(counted).not.toHaveProperty("defaultValue");
+    expect(counted.dynamicDefault).toBe(true);
+  });
+
+  it("keeps constant object, array and date defaults", () => {
+    const epoch = new Date(0);
+
+    expect(unwrapSchema(z.object({}).default({ a: 1 })).defaultValue).toEqual({
+      a: 1,
+    });
+    expect(
+      unwrapSchema(z.array(z.string()).default(["x"])).defaultValue,
+    ).toEqual(["x"]);
+    expect(unwrapSchema(z.date().default(epoch)).defaultValue).toBe(epoch);
+    expect(unwrapSchema(z.string().default(() => "fixed"))).toMatchObject({
+      defaultValue: "fixed",
+    });
+  });
+
+  it("omits defaultValue when no default is declared", () => {
+    const result = unwrapSchema(z.string().optional());
+
+    expect(result).not.toHaveProperty("defaultValue");
+  });
+
+  it("merges registry metadata from every layer, outer first", () => {
+    const schema = z
+      .string()
+      .meta({ placeholder: "inner", order: 1 })
+      .optional()
+      .meta({ placeholder: "outer" });
+    const result = unwrapSchema(schema);
+
+    expect(result.meta).toEqual({ placeholder: "outer", order: 1 });
+  });
+
+  it("includes descriptions in metadata", () => {
+    const result = unwrapSchema(z.string().describe("Help").nullable());
+
+    expect(result.meta).toEqual({ description: "Help" });
+  });
+
+  it("omits meta when no layer has metadata", () => {
+    const result = unwrapSchema(z.string().optional());
+
+    expect(result).not.toHaveProperty("meta");
+  });
+
   it("throws for malformed schema with _zod but no def", () => {
     const malformed = { _zod: {} } as unknown as z.ZodType;
     expect(() => unwrapSchema(malformed)).toThrow(
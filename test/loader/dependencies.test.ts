@@ -0,0 +1,90 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { collectDependencies } from "../../src/loader/dependencies";
+import { resolveLocalImport } from "../../src/loader/resolve";
+
+let dir: string;
+
+function write(relativePath: string, content: string): string {
+  const filePath = path.join(dir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kelex-deps-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("resolveLocalImport", () => {
+  it("ignores package specifiers", () => {
+    const from = write("schema.ts", "");
+    expect(resolveLocalImport("zod/v4", from)).toBeUndefined();
+  });
+
+  it("resolves implicit extensions", () => {
+    const from = write("schema.ts", "");
+    const target = write("fields.ts", "");
+    expect(resolveLocalImport("./fields", from)).toBe(target);
+  });
+
+  it("maps emitted .js specifiers to TypeScript sources", () => {
+    const from = write("schema.ts", "");
+    const target = write("fields.ts", "");
+    expect(resolveLocalImport("./fields.js", from)).toBe(target);
+  });
+
+  it("resolves directory index files", () => {
+    const from = write("schema.ts", "");
+    const target = write("shared/index.ts", "");
+    expect(resolveLocalImport("./shared", from)).toBe(target);
+  });
+
+  it("returns undefined for missing files", () => {
+    const from = write("schema.ts", "");
+    expect(resolveLocalImport("./missing", from)).toBeUndefined();
+  });
+});
+
+describe("collectDependencies", () => {
+  it("follows imports, re-exports and dynamic imports transitively", () => {
+    const entry = write(
+      "schema.ts",
+      [
+        'import { z } from "zod/v4";',
+        'import { name } from "./fields";',
+        'export * from "./shared/index.js";',
+        'const lazy = () => import("./lazy");',
+      ].join("\n"),
+    );
+    const fields = write(
+      "fields.ts",
+      'import type {\n  Brand,\n} from "./brand";\nexport const name = 1;',
+    );
+    const brand = write("brand.ts", "export type Brand = string;");
+    const shared = write("shared/index.ts", 'import "../fields";');
+    const lazy = write("lazy.ts", "export {};");
+
+    expect(collectDependencies(entry)).toEqual(
+      new Set([entry, fields, brand, shared, lazy]),
+    );
+  });
+
+  it("handles import cycles", () => {
+    const a = write("a.ts", 'import "./b";');
+    const b = write("b.ts", 'import "./a";');
+
+    expect(collectDependencies(a)).toEqual(new Set([a, b]));
+  });
+
+  it("includes a missing entry without reading it", () => {
+    const missing = path.join(dir, "missing.ts");
+    expect(collectDependencies(missing)).toEqual(new Set([missing]));
+  });
+});
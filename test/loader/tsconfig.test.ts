@@ -0,0 +1,133 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import ts from "typescript";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  type PathMappings,
+  readPathMappings,
+  resolveAlias,
+} from "../../src/loader/tsconfig";
+
+let dir: string;
+
+function write(relativePath: string, content = ""): string {
+  const filePath = path.join(dir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function createMappings(overrides: Partial<PathMappings> = {}): PathMappings {
+  return {
+    configPath: path.join(dir, "tsconfig.json"),
+    pathsBase: dir,
+    paths: {},
+    compilerOptions: {},
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kelex-tsconfig-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("readPathMappings", () => {
+  it("reads paths and baseUrl, allowing comments", () => {
+    const configPath = write(
+      "tsconfig.json",
+      `{
+        // Next.js defaults
+        "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["./src/*"] } }
+      }`,
+    );
+
+    const mappings = readPathMappings(ts, configPath);
+
+    expect(mappings.baseUrl).toBe(dir);
+    expect(mappings.pathsBase).toBe(dir);
+    expect(mappings.paths).toEqual({ "@/*": ["./src/*"] });
+  });
+
+  it("resolves paths inherited through extends against the declaring config", () => {
+    write(
+      "config/tsconfig.base.json",
+      '{ "compilerOptions": { "paths": { "~/*": ["../lib/*"] } } }',
+    );
+    const configPath = write(
+      "app/tsconfig.json",
+      '{ "extends": "../config/tsconfig.base.json" }',
+    );
+
+    const mappings = readPathMappings(ts, configPath);
+
+    expect(mappings.paths).toEqual({ "~/*": ["../lib/*"] });
+    expect(mappings.pathsBase).toBe(path.join(dir, "config"));
+  });
+
+  it("throws for unreadable configs", () => {
+    const configPath = write("tsconfig.json", "{ nope");
+
+    expect(() => readPathMappings(ts, configPath)).toThrow("Failed to read");
+  });
+});
+
+describe("resolveAlias", () => {
+  it("resolves wildcard paths with implicit extensions", () => {
+    const target = write("src/lib/validators/index.ts");
+    const mappings = createMappings({ paths: { "@/*": ["./src/*"] } });
+
+    expect(resolveAlias("@/lib/validators", mappings)).toEqual({
+      pattern: "@/*",
+      file: target,
+    });
+  });
+
+  it("prefers the longest matching prefix", () => {
+    write("src/ui/button.ts");
+    const specific = write("design/button.ts");
+    const mappings = createMappings({
+      paths: { "@/*": ["./src/*"], "@/ui/*": ["./design/*"] },
+    });
+
+    expect(resolveAlias("@/ui/button", mappings)?.file).toBe(specific);
+  });
+
+  it("tries each target in order", () => {
+    const fallback = write("shared/util.ts");
+    const mappings = createMappings({
+      paths: { "#/*": ["./missing/*", "./shared/*"] },
+    });
+
+    expect(resolveAlias("#/util", mappings)?.file).toBe(fallback);
+  });
+
+  it("reports the matched pattern when no target exists", () => {
+    const mappings = createMappings({ paths: { "@/*": ["./src/*"] } });
+
+    expect(resolveAlias("@/nothing", mappings)).toEqual({ pattern: "@/*" });
+  });
+
+  it("falls back to baseUrl for bare specifiers", () => {
+    const target = write("src/models/user.ts");
+    const mappings = createMappings({ baseUrl: path.join(dir, "src") });
+
+    expect(resolveAlias("models/user", mappings)).toEqual({
+      pattern: "baseUrl",
+      file: target,
+    });
+  });
+
+  it("returns undefined for package imports", () => {
+    const mappings = createMappings({
+      baseUrl: dir,
+      paths: { "@/*": ["./src/*"] },
+    });
+
+    expect(resolveAlias("zod/v4", mappings)).toBeUndefined();
+  });
+});
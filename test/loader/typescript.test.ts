@@ -0,0 +1,114 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadModule } from "../../src/loader/module-loader";
+import {
+  compileModuleGraph,
+  isTypeScriptFile,
+} from "../../src/loader/typescript";
+
+let dir: string;
+
+function write(relativePath: string, content: string): string {
+  const filePath = path.join(dir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kelex-ts-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("isTypeScriptFile", () => {
+  it("accepts TypeScript modules and skips declaration files", () => {
+    expect(isTypeScriptFile("/a/schema.ts")).toBe(true);
+    expect(isTypeScriptFile("/a/schema.tsx")).toBe(true);
+    expect(isTypeScriptFile("/a/schema.mts")).toBe(true);
+    expect(isTypeScriptFile("/a/schema.d.ts")).toBe(false);
+    expect(isTypeScriptFile("/a/schema.js")).toBe(false);
+  });
+});
+
+describe("compileModuleGraph", () => {
+  it("compiles local imports and rewrites tsconfig aliases", () => {
+    write(
+      "tsconfig.json",
+      '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }',
+    );
+    write("src/lib/fields.ts", "export const size: number = 3;");
+    const entry = write(
+      "src/schema.ts",
+      [
+        'import { z } from "zod/v4";',
+        'import type { Foo } from "./types";',
+        'import { size } from "@/lib/fields";',
+        "export const schema = z.array(z.string()).max(size);",
+        "export type Bar = Foo;",
+      ].join("\n"),
+    );
+
+    const compiled = compileModuleGraph(entry, path.join(dir, "out"));
+    const output = fs.readFileSync(compiled, "utf-8");
+
+    expect(output).toContain('from "zod/v4"');
+    expect(output).not.toContain("./types");
+    expect(output).not.toContain("@/lib/fields");
+    expect(output).toMatch(/from "file:\/\/.*-fields\.mjs"/);
+    expect(fs.readdirSync(path.join(dir, "out"))).toHaveLength(2);
+  });
+
+  it("names the importing file when an alias cannot be resolved", () => {
+    write(
+      "tsconfig.json",
+      '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }',
+    );
+    const entry = write(
+      "src/schema.ts",
+      'import { missing } from "@/lib/missing";\nexport const schema = missing;',
+    );
+
+    expect(() => compileModuleGraph(entry, path.join(dir, "out"))).toThrow(
+      `Cannot resolve "@/lib/missing" imported from ${entry} (tsconfig paths "@/*" in ${path.join(dir, "tsconfig.json")})`,
+    );
+  });
+
+  it("names the importing file when a relative import cannot be resolved", () => {
+    const entry = write(
+      "schema.ts",
+      'import { missing } from "./missing";\nexport const schema = missing;',
+    );
+
+    expect(() => compileModuleGraph(entry, path.join(dir, "out"))).toThrow(
+      `Cannot resolve "./missing" imported from ${entry}`,
+    );
+  });
+
+  it("reports syntax errors with their location", () => {
+    const entry = write("schema.ts", "export const schema = {;");
+
+    expect(() => compileModuleGraph(entry, path.join(dir, "out"))).toThrow(
+      `${entry}:1:`,
+    );
+  });
+});
+
+describe("loadModule", () => {
+  it("loads a TypeScript module graph and sees later edits", async () => {
+    write("value.ts", "export const value: number = 1;");
+    const entry = write(
+      "entry.ts",
+      'import { value } from "./value.js";\nexport const doubled = value * 2;',
+    );
+
+    expect((await loadModule(entry)).doubled).toBe(2);
+
+    write("value.ts", "export const value: number = 5;");
+    expect((await loadModule(entry)).doubled).toBe(10);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { MappingRule } from "../../src/mapping";
+import { composeMappingRules } from "../../src/mapping/compose";
+import { defaultMappingRules } from "../../src/mapping/default-map";
+
+function createRule(name: string): MappingRule {
+  return {
+    name,
+    match: () => true,
+    component: "Input",
+    getProps: () => ({}),
+  };
+}
+
+describe("composeMappingRules", () => {
+  it("returns the default rules when no options are given", () => {
+    expect(composeMappingRules()).toEqual(defaultMappingRules);
+  });
+
+  it("does not mutate the base rules", () => {
+    const base = [createRule("a"), createRule("b")];
+
+    composeMappingRules(
+      { prepend: [createRule("x")], replace: [createRule("a")] },
+      base,
+    );
+
+    expect(base.map((r) => r.name)).toEqual(["a", "b"]);
+  });
+
+  it("places prepended rules first and appended rules last", () => {
+    const base = [createRule("a"), createRule("b")];
+
+    const rules = composeMappingRules(
+      { prepend: [createRule("first")], append: [createRule("last")] },
+      base,
+    );
+
+    expect(rules.map((r) => r.name)).toEqual(["first", "a", "b", "last"]);
+  });
+
+  it("replaces rules by name in place", () => {
+    const base = [createRule("a"), createRule("b"), createRule("c")];
+    const replacement: MappingRule = {
+      ...createRule("b"),
+      component: "Textarea",
+    };
+
+    const rules = composeMappingRules({ replace: [replacement] }, base);
+
+    expect(rules.map((r) => r.name)).toEqual(["a", "b", "c"]);
+    expect(rules[1]).toBe(replacement);
+  });
+
+  it("replaces a default rule", () => {
+    const replacement: MappingRule = {
+      ...createRule("string-textarea"),
+      match: (f) => f.type === "string" && (f.constraints.maxLength ?? 0) > 255,
+      component: "Textarea",
+    };
+
+    const rules = composeMappingRules({ replace: [replacement] });
+
+    expect(rules).toHaveLength(defaultMappingRules.length);
+    expect(rules.find((r) => r.name === "string-textarea")).toBe(replacement);
+  });
+
+  it("throws when replacing an unknown rule", () => {
+    expect(() =>
+      composeMappingRules({ replace: [createRule("missing")] }),
+    ).toThrow('Cannot replace unknown mapping rule "missing"');
+  });
+});
@@ -41,18 +41,27 @@ function createField(
 }
 
 describe("defaultMappingRules", () => {
-  it("has 15 rules", () => {
-    expect(defaultMappingRules).toHaveLength(15);
+  it("has 24 rules", () => {
+    expect(defaultMappingRules).toHaveLength(24);
   });
 
   it("has rules in correct order", () => {
     const names = defaultMappingRules.map((r) => r.name);
     expect(names).toEqual([
+      "widget-input",
+      "widget-textarea",
+      "widget-select",
+      "widget-radio-group",
+      "widget-checkbox",
+      "widget-slider",
+      "widget-date-picker",
       "object-fieldset",
       "array-field-array",
       "union-switch",
       "tuple-fieldset",
+      "record-enum-fieldset",
       "record-field-array",
+      "recursive-fieldset",
       "boolean-checkbox",
       "enum-radio-group",
       "enum-select",
@@ -66,8 +75,120 @@ describe("defaultMappingRules", () => {
     ]);
   });
 
+  describe("widget hints", () => {
+    it("renders a short string as Textarea when requested", () => {
+      const field = createField({
+        type: "string",
+        constraints: { maxLength: 50 },
+        ui: { widget: "Textarea" },
+      });
+      const rule = findMatchingRule(field);
+      expect(rule?.name).toBe("widget-textarea");
+      expect(rule?.getProps(field)).toEqual({ maxLength: 50 });
+    });
+
+    it("renders a large enum as RadioGroup when requested", () => {
+      const field = createField({
+        type: "enum",
+        metadata: { kind: "enum", values: ["a", "b", "c", "d", "e", "f"] },
+        ui: { widget: "RadioGroup" },
+      });
+      const rule = findMatchingRule(field);
+      expect(rule?.component).toBe("RadioGroup");
+      expect(rule?.getProps(field)).toEqual({
+        options: ["a", "b", "c", "d", "e", "f"],
+      });
+    });
+
+    it("renders an unbounded number as Slider with default bounds", () => {
+      const field = createField({ type: "number", ui: { widget: "Slider" } });
+      const rule = findMatchingRule(field);
+      expect(rule?.component).toBe("Slider");
+      expect(rule?.getProps(field)).toEqual({ min: 0, max: 100, step: 1 });
+    });
+
+    it("renders a bounded number as Input when requested", () => {
+      const field = createField({
+        type: "number",
+        constraints: { min: 1, max: 5 },
+        ui: { widget: "Input" },
+      });
+      const rule = findMatchingRule(field);
+      expect(rule?.name).toBe("widget-input");
+      expect(rule?.getProps(field)).toMatchObject({
+        type: "number",
+        min: 1,
+        max: 5,
+      });
+    });
+
+    it("keeps the string format when Input is requested", () => {
+      const field = createField({
+        type: "string",
+        constraints: { format: "email" },
+        ui: { widget: "Input" },
+      });
+      expect(findMatchingRule(field)?.getProps(field)).toMatchObject({
+        type: "email",
+      });
+    });
+
+    it("falls back to type rules when the widget cannot render the type", () => {
+      const field = createField({ type: "string", ui: { widget: "Checkbox" } });
+      expect(findMatchingRule(field)?.name).toBe("string-default");
+    });
+  });
+
+  describe("record-enum-fieldset", () => {
+    const rule = defaultMappingRules[11];
+
+    it("matches records with one field per enum key", () => {
+      const value = createField({ type: "string" });
+      const field = createField({
+        type: "record",
+        metadata: {
+          kind: "record",
+          valueDescriptor: value,
+          fields: [{ ...value, name: "mon", label: "Mon" }],
+        },
+      });
+      expect(rule.match(field)).toBe(true);
+      expect(rule.component).toBe("Fieldset");
+    });
+
+    it("does not match records with free-form keys", () => {
+      const field = createField({
+        type: "record",
+        metadata: {
+          kind: "record",
+          valueDescriptor: createField({ type: "string" }),
+        },
+      });
+      expect(rule.match(field)).toBe(false);
+    });
+  });
+
+  describe("recursive-fieldset", () => {
+    const rule = defaultMappingRules[13];
+
+    it("matches recursive type and passes the ref through", () => {
+      const field = createField({
+        type: "recursive",
+        metadata: { kind: "recursive", ref: "tree" },
+      });
+      expect(rule.match(field)).toBe(true);
+      expect(rule.component).toBe("RecursiveFieldset");
+      expect(rule.getProps(field)).toEqual({ ref: "tree" });
+    });
+
+    it("does not match other types", () => {
+      expect(rule.match(createField({ type: "object" }))).toBe(false);
+      expect(rule.match(createField({ type: "string" }))).toBe(false);
+    });
+  });
+
   describe("boolean-checkbox", () => {
-    const rule = defaultMappingRules[5];
+    const rule = defaultMappingRules[14];
 
     it("matches boolean type", () => {
       const field = createField({ type: "boolean" });
@@ -90,7 +211,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("enum-radio-group", () => {
-    const rule = defaultMappingRules[6];
+    const rule = defaultMappingRules[15];
 
     it("matches enum with 4 or fewer values", () => {
       const field = createField({
@@ -133,7 +254,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("enum-select", () => {
-    const rule = defaultMappingRules[7];
+    const rule = defaultMappingRules[16];
 
     it("matches any enum type", () => {
       const field = createField({
@@ -162,7 +283,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("date-picker", () => {
-    const rule = defaultMappingRules[8];
+    const rule = defaultMappingRules[17];
 
     it("matches date type", () => {
       const field = createField({ type: "date" });
@@ -180,7 +301,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("number-slider", () => {
-    const rule = defaultMappingRules[9];
+    const rule = defaultMappingRules[18];
 
     it("matches number with bounded range <= 100", () => {
       const field = createField({
@@ -252,7 +373,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("number-input", () => {
-    const rule = defaultMappingRules[10];
+    const rule = defaultMappingRules[19];
 
     it("matches any number type", () => {
       const field = createField({ type: "number" });
@@ -288,7 +409,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("string-email", () => {
-    const rule = defaultMappingRules[11];
+    const rule = defaultMappingRules[20];
 
     it("matches string with email format", () => {
       const field = createField({
@@ -325,7 +446,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("string-url", () => {
-    const rule = defaultMappingRules[12];
+    const rule = defaultMappingRules[21];
 
     it("matches string with url format", () => {
       const field = createField({
@@ -354,7 +475,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("string-textarea", () => {
-    const rule = defaultMappingRules[13];
+    const rule = defaultMappingRules[22];
 
     it("matches string with maxLength > 100", () => {
       const field = createField({
@@ -391,7 +512,7 @@ describe("defaultMappingRules", () => {
   });
 
   describe("string-default", () => {
-    const rule = defaultMappingRules[14];
+    const rule = defaultMappingRules[23];
 
     it("matches any string type", () => {
       const field = createField({ type: "string" });
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
+import type { Diagnostic } from "../../src/diagnostics";
 import type { FieldDescriptor } from "../../src/introspection";
-import type { MappingRule } from "../../src/mapping";
+import type { ComponentConfig, MappingRule } from "../../src/mapping";
 import { resolveField } from "../../src/mapping/resolver";
 
 // Helper to create test fields
@@ -204,6 +205,151 @@ describe("resolveField", () => {
     });
   });
 
+  describe("UI hints", () => {
+    it("passes placeholder and autocomplete through as props", () => {
+      const field = createField({
+        type: "string",
+        ui: { placeholder: "Jane Doe", autocomplete: "name" },
+      });
+
+      const config = resolveField(field);
+
+      expect(config.componentProps.placeholder).toBe("Jane Doe");
+      expect(config.componentProps.autoComplete).toBe("name");
+    });
+
+    it("prefers helpText over the schema description", () => {
+      const field = createField({
+        type: "string",
+        description: "From describe()",
+        ui: { helpText: "From meta()" },
+      });
+
+      const config = resolveField(field);
+
+      expect(config.fieldProps.description).toBe("From meta()");
+    });
+
+    it("routes widget hints through the default rules", () => {
+      const field = createField({
+        type: "enum",
+        ui: { widget: "RadioGroup", placeholder: "Pick one" },
+      });
+
+      const config = resolveField(field);
+
+      expect(config.component).toBe("RadioGroup");
+      expect(config.componentProps.options).toEqual(["a", "b", "c"]);
+      expect(config.componentProps.placeholder).toBe("Pick one");
+    });
+
+    it("reports widget hints that do not fit the field type", () => {
+      const field = createField({
+        name: "bio",
+        type: "string",
+        ui: { widget: "Slider" },
+      });
+      const diagnostics: Diagnostic[] = [];
+
+      const config = resolveField(field, undefined, {}, "profile", diagnostics);
+
+      expect(config.component).toBe("Input");
+      expect(diagnostics).toEqual([
+        {
+          code: "ignored-widget-hint",
+          severity: "warning",
+          path: "profile.bio",
+          schemaType: "string",
+          message:
+            'widget hint "Slider" does not apply to "string" fields, rendering Input',
+          suggestion:
+            'Remove the hint or override the field with { component: "Slider" }',
+        },
+      ]);
+    });
+
+    it("does not report widget hints replaced by an override", () => {
+      const field = createField({ type: "string", ui: { widget: "Slider" } });
+      const diagnostics: Diagnostic[] = [];
+
+      resolveField(
+        field,
+        undefined,
+        { testField: { component: "Textarea" } },
+        "",
+        diagnostics,
+      );
+
+      expect(diagnostics).toEqual([]);
+    });
+  });
+
+  describe("enum-keyed records", () => {
+    it("resolves one child field per key, reachable by override path", () => {
+      const value = createField({ name: "value", type: "number" });
+      const field = createField({
+        name: "hours",
+        type: "record",
+        metadata: {
+          kind: "record",
+          valueDescriptor: value,
+          fields: [
+            { ...value, name: "mon", label: "Mon" },
+            { ...value, name: "tue", label: "Tue" },
+          ],
+        },
+      });
+
+      const config = resolveField(field, undefined, {
+        "hours.tue": { fieldProps: { label: "Tuesday" } },
+      });
+
+      const childConfigs = config.componentProps.childConfigs as Map<
+        string,
+        ComponentConfig
+      >;
+      expect(config.component).toBe("Fieldset");
+      expect(config.componentProps.elementConfig).toBeUndefined();
+      expect([...childConfigs.keys()]).toEqual(["mon", "tue"]);
+      expect(childConfigs.get("mon")?.component).toBe("Input");
+      expect(childConfigs.get("tue")?.fieldProps.label).toBe("Tuesday");
+    });
+  });
+
+  describe("recursive fields", () => {
+    it("resolves to RecursiveFieldset carrying the ancestor ref", () => {
+      const field = createField({
+        name: "replies",
+        type: "recursive",
+        metadata: { kind: "recursive", ref: "comment" },
+      });
+
+      const config = resolveField(field);
+
+      expect(config.component).toBe("RecursiveFieldset");
+      expect(config.componentProps.ref).toBe("comment");
+    });
+
+    it("keeps the ref when a custom rule matches the recursive field", () => {
+      const field = createField({
+        type: "recursive",
+        metadata: { kind: "recursive", ref: "" },
+      });
+      const rules: MappingRule[] = [
+        {
+          name: "custom",
+          match: () => true,
+          component: "RecursiveFieldset",
+          getProps: () => ({}),
+        },
+      ];
+
+      const config = resolveField(field, rules);
+
+      expect(config.componentProps.ref).toBe("");
+    });
+  });
+
   describe("with custom rules", () => {
     it("uses custom rules when provided", () => {
       const customRules: MappingRule[] = [
@@ -246,6 +392,127 @@ describe("resolveField", () => {
     });
   });
 
+  describe("with overrides", () => {
+    it("replaces the component and merges props for a top-level path", () => {
+      const field = createField({ name: "country", type: "string" });
+
+      const config = resolveField(field, undefined, {
+        country: {
+          component: "Select",
+          componentProps: { options: ["NL", "US"] },
+        },
+      });
+
+      expect(config.component).toBe("Select");
+      expect(config.componentProps).toMatchObject({
+        type: "text",
+        options: ["NL", "US"],
+      });
+    });
+
+    it("applies overrides to nested fields by dot path", () => {
+      const country = createField({ name: "country", type: "string" });
+      const field = createField({
+        name: "address",
+        type: "object",
+        metadata: { kind: "object", fields: [country] },
+      });
+
+      const config = resolveField(field, undefined, {
+        "address.country": { fieldProps: { label: "Land" } },
+      });
+
+      const childConfigs = config.componentProps.childConfigs as Map<
+        string,
+        ComponentConfig
+      >;
+      expect(config.fieldProps.label).toBe("Test Field");
+      expect(childConfigs.get("country")?.fieldProps.label).toBe("Land");
+    });
+
+    it("applies overrides to array elements through the item segment", () => {
+      const email = createField({ name: "email", type: "string" });
+      const field = createField({
+        name: "contacts",
+        type: "array",
+        metadata: {
+          kind: "array",
+          element: createField({
+            name: "item",
+            type: "object",
+            metadata: { kind: "object", fields: [email] },
+          }),
+        },
+      });
+
+      const config = resolveField(field, undefined, {
+        "contacts.item.email": { componentProps: { type: "email" } },
+      });
+
+      const elementConfig = config.componentProps
+        .elementConfig as ComponentConfig;
+      const childConfigs = elementConfig.componentProps.childConfigs as Map<
+        string,
+        ComponentConfig
+      >;
+      expect(childConfigs.get("email")?.componentProps.type).toBe("email");
+    });
+
+    it("resolves a field no rule matches when the override names a component", () => {
+      const rules: MappingRule[] = [];
+      const field = createField({ name: "custom", type: "string" });
+
+      const config = resolveField(field, rules, {
+        custom: { component: "Textarea" },
+      });
+
+      expect(config.component).toBe("Textarea");
+      expect(config.componentProps).toEqual({});
+    });
+
+    it("takes Select options for an override from enum metadata", () => {
+      const field = createField({
+        name: "role",
+        type: "enum",
+        metadata: { kind: "enum", values: ["admin", "user"] },
+      });
+
+      const config = resolveField(field, undefined, {
+        role: { component: "Select" },
+      });
+
+      expect(config.component).toBe("Select");
+      expect(config.componentProps.options).toEqual(["admin", "user"]);
+    });
+
+    it("throws naming the path when an override Select has no options", () => {
+      const country = createField({ name: "country", type: "string" });
+      const field = createField({
+        name: "address",
+        type: "object",
+        metadata: { kind: "object", fields: [country] },
+      });
+
+      expect(() =>
+        resolveField(field, undefined, {
+          "address.country": { component: "Select" },
+        }),
+      ).toThrow(
+        'Override for "address.country" renders Select but provides no componentProps.options',
+      );
+    });
+
+    it("ignores overrides for other paths", () => {
+      const field = createField({ name: "name", type: "string" });
+
+      const config = resolveField(field, undefined, {
+        other: { component: "Textarea" },
+      });
+
+      expect(config.component).toBe("Input");
+    });
+  });
+
   describe("error handling", () => {
     it("throws when no rule matches", () => {
       const noMatchRules: MappingRule[] = [
@@ -20,8 +20,9 @@ describe("Mapping Types", () => {
         "Fieldset",
         "FieldArray",
         "UnionSwitch",
+        "RecursiveFieldset",
       ];
-      expect(types).toHaveLength(10);
+      expect(types).toHaveLength(11);
     });
   });
 
@@ -146,6 +146,24 @@ describe("emitField", () => {
     });
   });
 
+  describe("literal fields", () => {
+    it("emits z.literal() instead of the value's type", () => {
+      const field = makeField({
+        type: "string",
+        metadata: { kind: "literal", values: ["x"] },
+      });
+      expect(emitField(field)).toBe('z.literal("x")');
+    });
+
+    it("emits every value of a multi-value literal", () => {
+      const field = makeField({
+        type: "number",
+        metadata: { kind: "literal", values: [1, 2] },
+      });
+      expect(emitField(field)).toBe("z.literal([1, 2])");
+    });
+  });
+
   describe("enum fields", () => {
     it("emits z.enum() with values", () => {
       const field = makeField({
@@ -363,6 +381,47 @@ describe("emitField", () => {
       );
     });
 
+    it("emits the key schema and partial records", () => {
+      const value = makeField({
+        name: "value",
+        type: "boolean",
+        metadata: { kind: "boolean" },
+      });
+      const field = makeField({
+        type: "record",
+        metadata: {
+          kind: "record",
+          valueDescriptor: value,
+          keyDescriptor: makeField({
+            name: "key",
+            type: "string",
+            constraints: { pattern: "^[a-z]+$" },
+            metadata: { kind: "string" },
+          }),
+        },
+      });
+      const partial = makeField({
+        type: "record",
+        metadata: {
+          kind: "record",
+          valueDescriptor: value,
+          keyDescriptor: makeField({
+            name: "key",
+            type: "enum",
+            metadata: { kind: "enum", values: ["en", "nl"] },
+          }),
+          partial: true,
+        },
+      });
+
+      expect(emitField(field)).toBe(
+        "z.record(z.string().regex(/^[a-z]+$/), z.boolean())",
+      );
+      expect(emitField(partial)).toBe(
+        'z.partialRecord(z.enum(["en", "nl"]), z.boolean())',
+      );
+    });
+
     it("throws when metadata kind does not match record type", () => {
       const field = makeField({
         type: "record",
@@ -404,6 +463,64 @@ describe("emitField", () => {
     });
   });
 
+  describe("default values", () => {
+    it("chains .default() with the declared value", () => {
+      const field = makeField({
+        type: "string",
+        defaultValue: "draft",
+        metadata: { kind: "string" },
+      });
+      expect(emitField(field)).toBe('z.string().default("draft")');
+    });
+
+    it("places .default() after optional/nullable and before .describe()", () => {
+      const field = makeField({
+        type: "number",
+        isNullable: true,
+        defaultValue: 3,
+        description: "Retries",
+        metadata: { kind: "number" },
+      });
+      expect(emitField(field)).toBe(
+        'z.number().nullable().default(3).describe("Retries")',
+      );
+    });
+
+    it("chains .prefault() for prefault defaults", () => {
+      const field = makeField({
+        type: "number",
+        defaultValue: 3,
+        prefault: true,
+        metadata: { kind: "number" },
+      });
+      expect(emitField(field)).toBe("z.number().prefault(3)");
+    });
+
+    it("emits object defaults as object literals", () => {
+      const field = makeField({
+        type: "array",
+        defaultValue: ["a", "b"],
+        metadata: {
+          kind: "array",
+          element: makeField({ name: "item", type: "string" }),
+        },
+      });
+      expect(emitField(field)).toBe('z.array(z.string()).default(["a", "b"])');
+    });
+
+    it("throws when the default has no literal form", () => {
+      const field = makeField({
+        name: "tags",
+        type: "string",
+        defaultValue: new Map(),
+        metadata: { kind: "string" },
+      });
+      expect(() => emitField(field)).toThrow(
+        'Default value for field "tags" cannot be emitted as a literal',
+      );
+    });
+  });
+
   describe("description", () => {
     it("chains .describe() when description exists", () => {
       const field = makeField({
@@ -24,6 +24,7 @@ export function makeForm(
     schemaImportPath: "./schema",
     schemaExportName: "testSchema",
     warnings: [],
+    diagnostics: [],
     ...overrides,
   };
 }
@@ -72,6 +72,26 @@ describe("round-trip: schema -> introspect -> writeSchema -> eval -> introspect"
     expect(descriptor2.fields[0].constraints.format).toBe("uuid");
   });
 
+  it("round-trips date and ipv4 formats and string affixes", () => {
+    const schema = z.object({
+      day: z.iso.date(),
+      host: z.ipv4(),
+      key: z.string().length(8).startsWith("k").includes("-").endsWith("x"),
+    });
+    const { descriptor1, descriptor2 } = roundTrip(schema);
+
+    expect(descriptor2.fields.map((f) => f.constraints)).toEqual(
+      descriptor1.fields.map((f) => f.constraints),
+    );
+    expect(descriptor2.fields[2].constraints).toEqual({
+      minLength: 8,
+      maxLength: 8,
+      startsWith: "k",
+      includes: "-",
+      endsWith: "x",
+    });
+  });
+
   it("round-trips a number field", () => {
     const schema = z.object({ count: z.number() });
     const { descriptor1, descriptor2 } = roundTrip(schema);
@@ -117,6 +137,21 @@ describe("round-trip: schema -> introspect -> writeSchema -> eval -> introspect"
     expect(descriptor2.fields[0].type).toBe("date");
   });
 
+  it("round-trips literal fields without widening them", () => {
+    const schema = z.object({
+      version: z.literal("v1"),
+      level: z.literal([1, 2]).optional(),
+    });
+    const { descriptor1, descriptor2, code } = roundTrip(schema);
+
+    expect(code).toContain('version: z.literal("v1")');
+    expect(code).toContain("level: z.literal([1, 2]).optional()");
+    expect(descriptor2.fields).toEqual(descriptor1.fields);
+    expect(evaluateSchemaCode(code).safeParse({ version: "v2" }).success).toBe(
+      false,
+    );
+  });
+
   it("round-trips an enum field", () => {
     const schema = z.object({
       role: z.enum(["admin", "user", "guest"]),
@@ -245,6 +280,20 @@ describe("round-trip: schema -> introspect -> writeSchema -> eval -> introspect"
     expect(descriptor2.fields[0].isOptional).toBe(true);
   });
 
+  it("round-trips default values", () => {
+    const schema = z.object({
+      status: z.enum(["draft", "published"]).default("draft"),
+      retries: z.number().prefault(3),
+    });
+    const { descriptor2, code } = roundTrip(schema);
+
+    expect(descriptor2.fields[0].defaultValue).toBe("draft");
+    expect(descriptor2.fields[0].prefault).toBeUndefined();
+    expect(descriptor2.fields[1].defaultValue).toBe(3);
+    expect(descriptor2.fields[1].prefault).toBe(true);
+    expect(code).toContain("z.number().prefault(3)");
+  });
+
   it("round-trips a simple nested object", () => {
     const schema = z.object({
       address: z.object({
@@ -343,6 +392,17 @@ describe("round-trip: schema -> introspect -> writeSchema -> eval -> introspect"
     }
   });
 
+  it("round-trips record key schemas", () => {
+    const schema = z.object({
+      headers: z.record(z.string().min(3).regex(/^x-/), z.string()),
+      labels: z.partialRecord(z.enum(["en", "nl"]), z.string()),
+    });
+    const { descriptor1, descriptor2 } = roundTrip(schema);
+
+    expect(descriptor2.fields).toEqual(descriptor1.fields);
+    expect(descriptor2.fields[1].metadata).toMatchObject({ partial: true });
+  });
+
   it("round-trips a discriminated union", () => {
     const schema = z.object({
       contact: z.discriminatedUnion("type", [
@@ -438,4 +498,43 @@ describe("round-trip: schema -> introspect -> writeSchema -> eval -> introspect"
       expect(f2.isNullable).toBe(f1.isNullable);
     }
   });
+
+  it("round-trips a top-level discriminated union", () => {
+    const schema = z.discriminatedUnion("kind", [
+      z.object({ kind: z.literal("a"), name: z.string() }),
+      z.object({ kind: z.literal("b"), count: z.number() }),
+    ]);
+    const descriptor1 = introspect(schema, INTROSPECT_OPTS);
+    const { code } = writeSchema({ form: descriptor1 });
+    const descriptor2 = introspect(evaluateSchemaCode(code), INTROSPECT_OPTS);
+
+    expect(code).toContain(
+      'export const testSchema = z.discriminatedUnion("kind"',
+    );
+    expect(descriptor2.union).toEqual(descriptor1.union);
+  });
+
+  it("round-trips keys that are not valid identifiers", () => {
+    const schema = z.object({
+      "first-name": z.string(),
+      "2fa": z.boolean(),
+      contact: z.discriminatedUnion("contact-type", [
+        z.object({ "contact-type": z.literal("email"), "e-mail": z.string() }),
+        z.object({
+          "contact-type": z.literal("phone"),
+          "phone no": z.string(),
+        }),
+      ]),
+      extra: z.union([
+        z.object({ "Content-Type": z.string() }),
+        z.object({ "X-Id": z.number() }),
+      ]),
+    });
+    const { descriptor1, descriptor2, code } = roundTrip(schema);
+
+    expect(code).toContain('"first-name": z.string()');
+    expect(code).toContain('"contact-type": z.literal("email")');
+    expect(code).toContain('"Content-Type": z.string()');
+    expect(descriptor2.fields).toEqual(descriptor1.fields);
+  });
 });
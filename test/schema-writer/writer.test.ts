@@ -231,6 +231,27 @@ describe("writeSchema", () => {
     });
   });
 
+  describe("top-level unions", () => {
+    it("emits the union expression as the schema", () => {
+      const form = makeForm({
+        schemaExportName: "petSchema",
+        union: {
+          variants: [
+            { value: "variant_0", fields: [makeField({ name: "bark" })] },
+            { value: "variant_1", fields: [makeField({ name: "meow" })] },
+          ],
+        },
+      });
+      const result = writeSchema({ form });
+      expect(result.code).toContain(
+        "export const petSchema = z.union([z.object({ bark: z.string() }), z.object({ meow: z.string() })]);",
+      );
+      expect(result.code).toContain(
+        "export type Pet = z.infer<typeof petSchema>;",
+      );
+    });
+  });
+
   describe("empty schema", () => {
     it("generates valid empty object schema", () => {
       const form = makeForm({ fields: [] });